@@ -0,0 +1,37 @@
+/**
+ * Local webhook receiver for trying out alert rules: logs every request it
+ * receives and answers 200 (or the status given with --status).
+ *
+ * Usage: node scripts/mock-webhook-receiver.mjs [--port 4000] [--status 200]
+ */
+import { createServer } from "http"
+
+function getArg(name, fallback) {
+  const index = process.argv.indexOf(`--${name}`)
+  return index !== -1 ? Number(process.argv[index + 1]) : fallback
+}
+
+const port = getArg("port", 4000)
+const status = getArg("status", 200)
+
+createServer((request, response) => {
+  let body = ""
+  request.on("data", chunk => (body += chunk))
+  request.on("end", () => {
+    let payload = body
+    try {
+      payload = JSON.parse(body)
+    } catch {
+      // Not JSON, log as received
+    }
+
+    console.log(
+      `[${new Date().toISOString()}] ${request.method} ${request.url}`,
+      payload
+    )
+    response.writeHead(status, { "Content-Type": "application/json" })
+    response.end(JSON.stringify({ ok: status < 400 }))
+  })
+}).listen(port, () => {
+  console.log(`Mock webhook receiver listening on http://localhost:${port}`)
+})
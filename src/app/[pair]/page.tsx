@@ -0,0 +1,32 @@
+import type { Metadata } from "next"
+import { notFound } from "next/navigation"
+import { MarketDashboard } from "@/components/MarketDashboard"
+import { parsePair, SUPPORTED_FIATS } from "@/lib/markets"
+
+interface PairPageProps {
+  params: Promise<{ pair: string }>
+}
+
+export async function generateMetadata({
+  params
+}: PairPageProps): Promise<Metadata> {
+  const pair = parsePair((await params).pair)
+  if (!pair) return {}
+
+  return {
+    title: `${pair.asset}/${pair.fiat} P2P Market - Binance P2P Prices`,
+    description: `Real-time Binance P2P prices for ${pair.asset} vs ${
+      SUPPORTED_FIATS[pair.fiat].name
+    }. Track the best buy and sell offers with live updates.`
+  }
+}
+
+/**
+ * Market view for a URL-addressed pair such as /USDT-ARS
+ */
+export default async function PairPage({ params }: PairPageProps) {
+  const pair = parsePair((await params).pair)
+  if (!pair) notFound()
+
+  return <MarketDashboard {...pair} />
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import {
+  deleteAlertRule,
+  getAlertRule,
+  updateAlertRule,
+  WebhookAlertRuleInputSchema,
+  WebhookAlertRuleUpdateSchema
+} from "@/lib/alert-store"
+import { authorizeAlertsRequest } from "@/lib/alert-auth"
+
+interface AlertRouteContext {
+  params: Promise<{ id: string }>
+}
+
+function notFound(id: string) {
+  return NextResponse.json(
+    { error: `Alert rule not found: ${id}` },
+    { status: 404 }
+  )
+}
+
+function invalidRule(error: z.ZodError) {
+  return NextResponse.json(
+    {
+      error: `Invalid rule: ${error.issues
+        .map(issue => `${issue.path.join(".")}: ${issue.message}`)
+        .join(", ")}`
+    },
+    { status: 400 }
+  )
+}
+
+/**
+ * Returns one server-side alert rule
+ */
+export async function GET(request: NextRequest, { params }: AlertRouteContext) {
+  const unauthorized = authorizeAlertsRequest(request)
+  if (unauthorized) return unauthorized
+
+  const { id } = await params
+
+  try {
+    const rule = await getAlertRule(id)
+    return rule ? NextResponse.json(rule) : notFound(id)
+  } catch (error) {
+    console.error("Alert rules error:", error)
+    return NextResponse.json(
+      { error: "Failed to load alert rule" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Updates a server-side alert rule; the merged rule must still be valid
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: AlertRouteContext
+) {
+  const unauthorized = authorizeAlertsRequest(request)
+  if (unauthorized) return unauthorized
+
+  const { id } = await params
+
+  try {
+    const existing = await getAlertRule(id)
+    if (!existing) return notFound(id)
+
+    const changes = WebhookAlertRuleUpdateSchema.safeParse(
+      await request.json().catch(() => null)
+    )
+    if (!changes.success) return invalidRule(changes.error)
+
+    const merged = WebhookAlertRuleInputSchema.safeParse({
+      ...existing,
+      ...changes.data
+    })
+    if (!merged.success) return invalidRule(merged.error)
+
+    const rule = await updateAlertRule(id, changes.data)
+    return rule ? NextResponse.json(rule) : notFound(id)
+  } catch (error) {
+    console.error("Alert rules error:", error)
+    return NextResponse.json(
+      { error: "Failed to update alert rule" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Deletes a server-side alert rule
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: AlertRouteContext
+) {
+  const unauthorized = authorizeAlertsRequest(request)
+  if (unauthorized) return unauthorized
+
+  const { id } = await params
+
+  try {
+    return (await deleteAlertRule(id))
+      ? new NextResponse(null, { status: 204 })
+      : notFound(id)
+  } catch (error) {
+    console.error("Alert rules error:", error)
+    return NextResponse.json(
+      { error: "Failed to delete alert rule" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { NextRequest } from "next/server"
+import { GET } from "./route"
+import { POST as runAlerts } from "./run/route"
+
+vi.mock("@/lib/alert-store", async importOriginal => ({
+  ...(await importOriginal<typeof import("@/lib/alert-store")>()),
+  listAlertRules: vi.fn(async () => [])
+}))
+
+vi.mock("@/lib/alert-runner", () => ({
+  runAlertCheck: vi.fn(async () => [])
+}))
+
+function createRequest(path: string, token?: string) {
+  return new NextRequest(`http://localhost${path}`, {
+    method: path.endsWith("/run") ? "POST" : "GET",
+    headers: token ? { Authorization: `Bearer ${token}` } : {}
+  })
+}
+
+beforeEach(() => {
+  vi.stubEnv("P2P_ALERTS_TOKEN", "s3cret")
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe("alert routes", () => {
+  it("are closed while no token is configured", async () => {
+    vi.stubEnv("P2P_ALERTS_TOKEN", "")
+
+    const response = await GET(createRequest("/api/alerts", "s3cret"))
+
+    expect(response.status).toBe(403)
+  })
+
+  it("require the configured token", async () => {
+    expect((await GET(createRequest("/api/alerts"))).status).toBe(401)
+    expect((await GET(createRequest("/api/alerts", "guess"))).status).toBe(401)
+    expect((await GET(createRequest("/api/alerts", "s3cret"))).status).toBe(200)
+  })
+
+  it("throttle manual alert checks", async () => {
+    expect((await runAlerts(createRequest("/api/alerts/run"))).status).toBe(401)
+
+    const statuses = []
+    for (let i = 0; i < 3; i++) {
+      statuses.push(
+        (await runAlerts(createRequest("/api/alerts/run", "s3cret"))).status
+      )
+    }
+
+    expect(statuses).toEqual([200, 200, 429])
+  })
+})
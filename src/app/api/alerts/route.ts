@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server"
+import {
+  createAlertRule,
+  listAlertRules,
+  WebhookAlertRuleInputSchema
+} from "@/lib/alert-store"
+import { authorizeAlertsRequest } from "@/lib/alert-auth"
+
+/**
+ * Lists the server-side alert rules
+ */
+export async function GET(request: NextRequest) {
+  const unauthorized = authorizeAlertsRequest(request)
+  if (unauthorized) return unauthorized
+
+  try {
+    return NextResponse.json({ rules: await listAlertRules() })
+  } catch (error) {
+    console.error("Alert rules error:", error)
+    return NextResponse.json(
+      { error: "Failed to load alert rules" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Creates a server-side alert rule
+ */
+export async function POST(request: NextRequest) {
+  const unauthorized = authorizeAlertsRequest(request)
+  if (unauthorized) return unauthorized
+
+  try {
+    const parsed = WebhookAlertRuleInputSchema.safeParse(
+      await request.json().catch(() => null)
+    )
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: `Invalid rule: ${parsed.error.issues
+            .map(issue => `${issue.path.join(".")}: ${issue.message}`)
+            .join(", ")}`
+        },
+        { status: 400 }
+      )
+    }
+
+    const rule = await createAlertRule(parsed.data)
+    return NextResponse.json(rule, { status: 201 })
+  } catch (error) {
+    console.error("Alert rules error:", error)
+    return NextResponse.json(
+      { error: "Failed to save alert rule" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server"
+import { runAlertCheck } from "@/lib/alert-runner"
+import { authorizeAlertsRequest } from "@/lib/alert-auth"
+import { createRateLimiter } from "@/lib/rate-limit"
+
+// Every check searches each rule's market upstream, so manual runs share one
+// small budget whoever triggers them
+const runLimiter = createRateLimiter({ capacity: 2, refillPerSecond: 1 / 30 })
+
+/**
+ * Runs one alert check immediately, outside the runner's schedule
+ */
+export async function POST(request: NextRequest) {
+  const unauthorized = authorizeAlertsRequest(request)
+  if (unauthorized) return unauthorized
+
+  const limit = runLimiter.take("run")
+  if (!limit.allowed) {
+    const retryAfter = Math.ceil(limit.retryAfterMs / 1000)
+    return NextResponse.json(
+      { error: `Too many alert checks. Retry in ${retryAfter} seconds` },
+      { status: 429, headers: { "Retry-After": String(retryAfter) } }
+    )
+  }
+
+  try {
+    return NextResponse.json({ results: await runAlertCheck() })
+  } catch (error) {
+    console.error("Alert check error:", error)
+    return NextResponse.json(
+      { error: "Failed to run alert check" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getCorsHeaders, handleSearchRequest } from "@/lib/p2p-proxy"
+
+interface ExchangeRouteContext {
+  params: Promise<{ exchange: string }>
+}
+
+/**
+ * API route to proxy P2P requests to one exchange (e.g., /api/p2p/okx), or
+ * to every enabled exchange at once with /api/p2p/all
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: ExchangeRouteContext
+) {
+  const { exchange } = await params
+  return handleSearchRequest(request, exchange)
+}
+
+/**
+ * OPTIONS method for CORS preflight requests
+ */
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: getCorsHeaders(request)
+  })
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import {
+  aggregateHistory,
+  HISTORY_INTERVALS,
+  HistoryResponse
+} from "@/lib/history"
+import { readSnapshots } from "@/lib/history-store"
+import { EXPORT_MIME_TYPES, exportHistoryCsv } from "@/lib/export"
+import { isSupportedAsset, isSupportedFiat } from "@/lib/markets"
+
+// Keep responses bounded regardless of the requested range
+const MAX_BUCKETS = 2000
+const DEFAULT_RANGE_MS = 24 * 60 * 60 * 1000
+
+const HistoryQuerySchema = z.object({
+  asset: z.string().refine(isSupportedAsset, "Invalid asset").default("USDT"),
+  fiat: z.string().refine(isSupportedFiat, "Invalid fiat").default("VES"),
+  tradeType: z.enum(["BUY", "SELL"]).default("BUY"),
+  interval: z.enum(["1m", "5m", "1h"]).default("5m"),
+  from: z.iso.datetime().optional(),
+  to: z.iso.datetime().optional(),
+  format: z.enum(["json", "csv"]).default("json")
+})
+
+/**
+ * Returns recorded price history for a pair, grouped into OHLC buckets, as
+ * JSON or as CSV with one row per bucket
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const parsed = HistoryQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    )
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: `Invalid query: ${parsed.error.issues
+            .map(issue => `${issue.path.join(".")}: ${issue.message}`)
+            .join(", ")}`
+        },
+        { status: 400 }
+      )
+    }
+
+    const { asset, fiat, tradeType, interval, format } = parsed.data
+    const to = parsed.data.to ? new Date(parsed.data.to) : new Date()
+    const from = parsed.data.from
+      ? new Date(parsed.data.from)
+      : new Date(to.getTime() - DEFAULT_RANGE_MS)
+
+    if (from >= to) {
+      return NextResponse.json(
+        { error: "'from' must be before 'to'" },
+        { status: 400 }
+      )
+    }
+
+    if (
+      (to.getTime() - from.getTime()) / HISTORY_INTERVALS[interval] >
+      MAX_BUCKETS
+    ) {
+      return NextResponse.json(
+        {
+          error: `Range too large for ${interval} buckets (max ${MAX_BUCKETS})`
+        },
+        { status: 400 }
+      )
+    }
+
+    const snapshots = await readSnapshots(asset, fiat, from, to)
+
+    const response: HistoryResponse = {
+      asset,
+      fiat,
+      tradeType,
+      interval,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      buckets: aggregateHistory(snapshots, tradeType, interval)
+    }
+
+    if (format === "csv") {
+      return new NextResponse(exportHistoryCsv(response), {
+        headers: {
+          "Content-Type": EXPORT_MIME_TYPES.csv,
+          "Content-Disposition": `attachment; filename="history-${asset}-${fiat}-${tradeType}-${interval}.csv"`
+        }
+      })
+    }
+
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error("P2P history error:", error)
+
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getRateProvider, getReferenceRate } from "@/lib/rate-providers"
+import { isSupportedFiat } from "@/lib/markets"
+
+interface RateRouteContext {
+  params: Promise<{ provider: string }>
+}
+
+/**
+ * Returns one provider's reference rate for a fiat, in fiat per US dollar
+ */
+export async function GET(request: NextRequest, { params }: RateRouteContext) {
+  const { provider: id } = await params
+  const fiat = request.nextUrl.searchParams.get("fiat") ?? "VES"
+
+  const provider = getRateProvider(id)
+  if (!provider) {
+    return NextResponse.json(
+      { error: `Rate provider not found: ${id}` },
+      { status: 404 }
+    )
+  }
+
+  if (!isSupportedFiat(fiat) || !provider.fiats.includes(fiat)) {
+    return NextResponse.json(
+      {
+        error: `Invalid fiat for ${provider.name}. Supported: ${provider.fiats.join(", ")}`
+      },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const { value, status, storedAt } = await getReferenceRate(provider, fiat)
+
+    return NextResponse.json(value, {
+      headers: {
+        "X-Cache": status,
+        Age: String(Math.floor((Date.now() - storedAt) / 1000))
+      }
+    })
+  } catch (error) {
+    console.error(`Reference rate error (${id}):`, error)
+
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to fetch reference rate"
+      },
+      { status: 502 }
+    )
+  }
+}
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { NextRequest } from "next/server"
+import { GET as listProviders } from "./route"
+import { GET as getRate } from "./[provider]/route"
+
+function createRequest(path: string) {
+  return new NextRequest(`http://localhost${path}`)
+}
+
+function fetchRate(provider: string, fiat: string) {
+  return getRate(createRequest(`/api/rates/${provider}?fiat=${fiat}`), {
+    params: Promise.resolve({ provider })
+  })
+}
+
+beforeEach(() => {
+  // Serves fixtures/reference-rates.json instead of calling the providers
+  vi.stubEnv("P2P_RATE_PROVIDERS", "fixture")
+  vi.spyOn(console, "error").mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe("GET /api/rates", () => {
+  it("lists the enabled providers quoting the fiat", async () => {
+    vi.stubEnv("P2P_RATE_PROVIDERS", "fixture,bcv")
+
+    const venezuela = await listProviders(createRequest("/api/rates?fiat=VES"))
+    const argentina = await listProviders(createRequest("/api/rates?fiat=ARS"))
+
+    expect(venezuela.status).toBe(200)
+    expect(
+      (await venezuela.json()).providers.map(({ id }: { id: string }) => id)
+    ).toEqual(["bcv", "fixture"])
+    expect(await argentina.json()).toEqual({
+      fiat: "ARS",
+      providers: [
+        {
+          id: "fixture",
+          name: "Fixture",
+          fiats: expect.arrayContaining(["ARS", "VES"])
+        }
+      ]
+    })
+  })
+
+  it("responds 400 for an unsupported fiat", async () => {
+    const response = await listProviders(createRequest("/api/rates?fiat=EUR"))
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({ error: "Invalid fiat" })
+  })
+})
+
+describe("GET /api/rates/[provider]", () => {
+  it("returns the provider's rate with cache headers", async () => {
+    const response = await fetchRate("fixture", "COP")
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get("X-Cache")).toBe("MISS")
+    expect(await response.json()).toEqual({
+      provider: "fixture",
+      name: "Fixture",
+      fiat: "COP",
+      rate: 4300,
+      updatedAt: "2025-01-15T12:00:00.000Z"
+    })
+  })
+
+  it("responds 404 for an unknown or disabled provider", async () => {
+    const unknown = await fetchRate("oanda", "VES")
+    const disabled = await fetchRate("bcv", "VES")
+
+    expect(unknown.status).toBe(404)
+    expect((await unknown.json()).error).toBe("Rate provider not found: oanda")
+    expect(disabled.status).toBe(404)
+  })
+
+  it("responds 400 for a fiat the provider does not quote", async () => {
+    vi.stubEnv("P2P_RATE_PROVIDERS", "bcv,fixture")
+
+    const unsupported = await fetchRate("bcv", "ARS")
+    const invalid = await fetchRate("fixture", "EUR")
+
+    expect(unsupported.status).toBe(400)
+    expect((await unsupported.json()).error).toBe(
+      "Invalid fiat for BCV. Supported: VES"
+    )
+    expect(invalid.status).toBe(400)
+  })
+
+  it("maps provider failures to 502", async () => {
+    vi.stubEnv("P2P_RATE_PROVIDERS", "bcv")
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response("unavailable", { status: 503 }))
+    )
+
+    const response = await fetchRate("bcv", "VES")
+
+    expect(response.status).toBe(502)
+    expect((await response.json()).error).toBe(
+      "Rate provider responded with status: 503"
+    )
+  })
+})
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getRateProviders } from "@/lib/rate-providers"
+import { RateProvidersResponse } from "@/lib/reference-rates"
+import { isSupportedFiat } from "@/lib/markets"
+
+/**
+ * Lists the enabled reference rate providers that quote a fiat
+ */
+export async function GET(request: NextRequest) {
+  const fiat = request.nextUrl.searchParams.get("fiat") ?? "VES"
+
+  if (!isSupportedFiat(fiat)) {
+    return NextResponse.json({ error: "Invalid fiat" }, { status: 400 })
+  }
+
+  const response: RateProvidersResponse = {
+    fiat,
+    providers: getRateProviders()
+      .filter(provider => provider.fiats.includes(fiat))
+      .map(({ id, name, fiats }) => ({ id, name, fiats }))
+  }
+
+  return NextResponse.json(response)
+}
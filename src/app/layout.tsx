@@ -7,15 +7,16 @@ const inter = Inter({ subsets: ["latin"] })
 export const metadata: Metadata = {
   title: "USDT/VES P2P Market - Binance P2P Prices",
   description:
-    "Real-time Binance P2P prices for USDT vs Venezuelan Bolivares. Track the best buy and sell offers with live updates.",
+    "Real-time Binance P2P prices for USDT, BTC and ETH against Latin American currencies. Track the best buy and sell offers with live updates.",
   keywords: [
     "USDT",
     "VES",
+    "ARS",
+    "COP",
+    "BRL",
     "Binance",
     "P2P",
     "cryptocurrency",
-    "Venezuela",
-    "Bolivares",
     "trading"
   ],
   authors: [{ name: "Camveo" }],
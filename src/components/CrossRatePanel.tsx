@@ -0,0 +1,210 @@
+import { useState, useMemo } from "react"
+import { useCrossRates } from "@/hooks/useCrossRates"
+import { useDebouncedValue } from "@/hooks/useDebouncedValue"
+import { compareCrossRates } from "@/lib/cross-rates"
+import { TrustFilters } from "@/lib/types"
+import { formatAssetAmount, formatFiat, SUPPORTED_FIATS } from "@/lib/markets"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table"
+
+interface CrossRatePanelProps {
+  fiat: string
+  trustFilters: TrustFilters
+}
+
+const formatRate = (rate: number) =>
+  new Intl.NumberFormat("en-US", { maximumSignificantDigits: 6 }).format(rate)
+
+/**
+ * Converts the current fiat into another one through each supported asset
+ * and ranks the paths by the rate actually achieved for the amount
+ */
+export function CrossRatePanel({ fiat, trustFilters }: CrossRatePanelProps) {
+  const [targetFiat, setTargetFiat] = useState(
+    Object.keys(SUPPORTED_FIATS).find(code => code !== fiat) ?? fiat
+  )
+  const [amount, setAmount] = useState("")
+  // Every path runs the route solver, so wait for typing to pause
+  const debouncedAmount = useDebouncedValue(amount)
+
+  const { markets, failures, loading, lastUpdated, refresh } = useCrossRates(
+    fiat,
+    targetFiat
+  )
+
+  const comparison = useMemo(() => {
+    const value = parseFloat(debouncedAmount)
+    if (isNaN(value) || value <= 0) return null
+
+    return compareCrossRates(markets, fiat, targetFiat, value, {
+      trustFilters
+    })
+  }, [markets, fiat, targetFiat, debouncedAmount, trustFilters])
+
+  const allFailures = [...failures, ...(comparison?.failures ?? [])]
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="text-xl flex items-center gap-2">
+          <span>🔀 Cross Rates</span>
+          <Badge variant="outline">
+            {fiat} → {targetFiat}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Inputs */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div>
+            <Label htmlFor="cross-amount">Amount ({fiat})</Label>
+            <Input
+              id="cross-amount"
+              type="number"
+              value={amount}
+              onChange={e => setAmount(e.target.value)}
+              placeholder="10000"
+              min="0"
+              step="0.01"
+            />
+          </div>
+          <div>
+            <Label htmlFor="cross-target">Convert To</Label>
+            <select
+              id="cross-target"
+              value={targetFiat}
+              onChange={e => setTargetFiat(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {Object.entries(SUPPORTED_FIATS)
+                .filter(([code]) => code !== fiat)
+                .map(([code, config]) => (
+                  <option key={code} value={code}>
+                    {code} - {config.name}
+                  </option>
+                ))}
+            </select>
+          </div>
+          <div className="flex items-center gap-3">
+            <Button
+              onClick={refresh}
+              variant="outline"
+              disabled={loading}
+              className="flex-1"
+            >
+              {loading ? "Loading..." : "Refresh Books"}
+            </Button>
+            {lastUpdated && (
+              <span className="text-xs text-gray-500">
+                {lastUpdated.toLocaleTimeString()}
+              </span>
+            )}
+          </div>
+        </div>
+
+        {loading && markets.length === 0 ? (
+          <div className="space-y-2">
+            {Array.from({ length: 3 }).map((_, index) => (
+              <Skeleton key={index} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : !comparison ? (
+          <p className="text-sm text-gray-600">
+            Enter an amount of {fiat} to compare converting it to {targetFiat}{" "}
+            by buying an asset with {fiat} and selling it for {targetFiat}.
+          </p>
+        ) : comparison.paths.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <p>No path can convert this amount.</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Via</TableHead>
+                <TableHead>You Receive</TableHead>
+                <TableHead>Effective Rate</TableHead>
+                <TableHead>Top of Book</TableHead>
+                <TableHead>Slippage</TableHead>
+                <TableHead>Offers</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {comparison.paths.map((path, index) => (
+                <TableRow key={path.asset}>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{path.asset}</span>
+                      {index === 0 && <Badge variant="default">Best</Badge>}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {formatAssetAmount(path.assetAmount, path.asset)}{" "}
+                      {path.asset}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="font-bold">
+                      {formatFiat(path.amountOut, targetFiat)}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      for {formatFiat(path.amountIn, fiat)}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="font-medium">
+                      1 {fiat} = {formatRate(path.effectiveRate)} {targetFiat}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      1 {targetFiat} = {formatRate(1 / path.effectiveRate)}{" "}
+                      {fiat}
+                    </div>
+                  </TableCell>
+                  <TableCell>{formatRate(path.topOfBookRate)}</TableCell>
+                  <TableCell
+                    className={
+                      path.slippagePercentage > 1 ? "text-red-600" : undefined
+                    }
+                  >
+                    {path.slippagePercentage.toFixed(2)}%
+                  </TableCell>
+                  <TableCell>
+                    {path.buyRoute.offers.length} +{" "}
+                    {path.sellRoute.offers.length}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {allFailures.length > 0 && (
+          <div className="space-y-1 text-sm text-yellow-800">
+            {allFailures.map(failure => (
+              <p key={failure.asset}>
+                ⚠️ {failure.asset}: {failure.reason}
+              </p>
+            ))}
+          </div>
+        )}
+
+        <p className="text-xs text-gray-500">
+          Each path buys the asset with the whole amount using the cheapest
+          route of up to 5 offers, then sells everything bought the same way.
+          Top of book is the rate at the best price on both sides.
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
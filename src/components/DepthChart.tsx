@@ -0,0 +1,354 @@
+import { useState, useMemo, MouseEvent } from "react"
+import { PriceData } from "@/lib/types"
+import { buildDepthSteps, DepthStep } from "@/lib/depth"
+import { formatAssetAmount, formatFiat } from "@/lib/markets"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+
+interface DepthChartProps {
+  buyPrices: PriceData[]
+  sellPrices: PriceData[]
+  bestBuy: PriceData | null
+  bestSell: PriceData | null
+  loading: boolean
+  asset: string
+  fiat: string
+}
+
+interface HoveredStep {
+  side: "BUY" | "SELL"
+  step: DepthStep
+}
+
+// Chart geometry in SVG viewBox units
+const WIDTH = 800
+const HEIGHT = 360
+const PADDING_LEFT = 70
+const PADDING_RIGHT = 16
+const PADDING_TOP = 24
+const PADDING_BOTTOM = 28
+const PLOT_WIDTH = WIDTH - PADDING_LEFT - PADDING_RIGHT
+const PLOT_HEIGHT = HEIGHT - PADDING_TOP - PADDING_BOTTOM
+
+const SIDE_COLORS = {
+  BUY: "#15803d",
+  SELL: "#b91c1c"
+}
+
+/**
+ * Builds the step outline of a depth curve, extended to the `edge` price
+ */
+function buildStepPath(
+  steps: DepthStep[],
+  edge: number,
+  toX: (price: number) => number,
+  toY: (amount: number) => number
+): string {
+  if (steps.length === 0) return ""
+
+  let path = `M${toX(steps[0].price)},${toY(0)}`
+  steps.forEach((step, index) => {
+    const nextPrice = steps[index + 1]?.price ?? edge
+    path += `L${toX(step.price)},${toY(step.cumulative)}`
+    path += `L${toX(nextPrice)},${toY(step.cumulative)}`
+  })
+
+  return path
+}
+
+/**
+ * Finds the step of a side whose price level covers the given price
+ */
+function findStep(
+  steps: DepthStep[],
+  price: number,
+  side: "BUY" | "SELL",
+  edge: number
+): DepthStep | null {
+  for (let index = 0; index < steps.length; index++) {
+    const from = steps[index].price
+    const to = steps[index + 1]?.price ?? edge
+    const covers =
+      side === "BUY"
+        ? price >= from && price <= to
+        : price <= from && price >= to
+    if (covers) return steps[index]
+  }
+
+  return null
+}
+
+/**
+ * Plots cumulative available volume against price for both sides of the book
+ */
+export function DepthChart({
+  buyPrices,
+  sellPrices,
+  bestBuy,
+  bestSell,
+  loading,
+  asset,
+  fiat
+}: DepthChartProps) {
+  const [hovered, setHovered] = useState<HoveredStep | null>(null)
+
+  const formatPrice = (price: number) => formatFiat(price, fiat)
+
+  const chart = useMemo(() => {
+    const buySteps = buildDepthSteps(buyPrices, "BUY")
+    const sellSteps = buildDepthSteps(sellPrices, "SELL")
+    const allPrices = [...buyPrices, ...sellPrices].map(offer => offer.price)
+    if (allPrices.length === 0) return null
+
+    const minPrice = Math.min(...allPrices)
+    const maxPrice = Math.max(...allPrices)
+    const padding = (maxPrice - minPrice || maxPrice || 1) * 0.02
+    const priceDomain: [number, number] = [
+      minPrice - padding,
+      maxPrice + padding
+    ]
+    const maxVolume = Math.max(
+      buySteps[buySteps.length - 1]?.cumulative ?? 0,
+      sellSteps[sellSteps.length - 1]?.cumulative ?? 0,
+      1
+    )
+
+    return {
+      buySteps,
+      sellSteps,
+      priceDomain,
+      maxVolume,
+      toX: (price: number) =>
+        PADDING_LEFT +
+        ((price - priceDomain[0]) / (priceDomain[1] - priceDomain[0])) *
+          PLOT_WIDTH,
+      toY: (amount: number) =>
+        PADDING_TOP + PLOT_HEIGHT - (amount / maxVolume) * PLOT_HEIGHT
+    }
+  }, [buyPrices, sellPrices])
+
+  const midPrice =
+    bestBuy && bestSell ? (bestBuy.price + bestSell.price) / 2 : null
+
+  const handleMouseMove = (event: MouseEvent<SVGSVGElement>) => {
+    if (!chart) return
+
+    const bounds = event.currentTarget.getBoundingClientRect()
+    const x = ((event.clientX - bounds.left) / bounds.width) * WIDTH
+    const [low, high] = chart.priceDomain
+    const price = low + ((x - PADDING_LEFT) / PLOT_WIDTH) * (high - low)
+
+    const buyStep = findStep(chart.buySteps, price, "BUY", high)
+    const sellStep = findStep(chart.sellSteps, price, "SELL", low)
+
+    // Where the books overlap, prefer the level closest to the cursor
+    if (
+      buyStep &&
+      (!sellStep ||
+        Math.abs(buyStep.price - price) <= Math.abs(sellStep.price - price))
+    ) {
+      setHovered({ side: "BUY", step: buyStep })
+    } else if (sellStep) {
+      setHovered({ side: "SELL", step: sellStep })
+    } else {
+      setHovered(null)
+    }
+  }
+
+  if (loading && !chart) {
+    return (
+      <Card>
+        <CardContent className="pt-6">
+          <div className="animate-pulse">
+            <div className="h-80 bg-gray-200 rounded"></div>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (!chart) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        No offers available to chart at the moment.
+      </div>
+    )
+  }
+
+  const { toX, toY, priceDomain, maxVolume } = chart
+  const priceTicks = [0, 1, 2, 3, 4].map(
+    i => priceDomain[0] + ((priceDomain[1] - priceDomain[0]) * i) / 4
+  )
+  const volumeTicks = [0, 1, 2, 3].map(i => (maxVolume * i) / 3)
+
+  const markers = [
+    bestBuy && {
+      price: bestBuy.price,
+      label: "Best Buy",
+      color: SIDE_COLORS.BUY
+    },
+    bestSell && {
+      price: bestSell.price,
+      label: "Best Sell",
+      color: SIDE_COLORS.SELL
+    },
+    midPrice !== null && { price: midPrice, label: "Mid", color: "#4b5563" }
+  ].filter(
+    (marker): marker is { price: number; label: string; color: string } =>
+      Boolean(marker)
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">📊 Order Book Depth</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="relative">
+          <svg
+            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+            className="w-full h-auto"
+            onMouseMove={handleMouseMove}
+            onMouseLeave={() => setHovered(null)}
+          >
+            {/* Volume grid and axis labels */}
+            {volumeTicks.map(tick => (
+              <g key={tick}>
+                <line
+                  x1={PADDING_LEFT}
+                  x2={WIDTH - PADDING_RIGHT}
+                  y1={toY(tick)}
+                  y2={toY(tick)}
+                  stroke="#e5e7eb"
+                />
+                <text
+                  x={PADDING_LEFT - 6}
+                  y={toY(tick) + 4}
+                  textAnchor="end"
+                  fontSize="11"
+                  fill="#6b7280"
+                >
+                  {formatAssetAmount(tick, asset)}
+                </text>
+              </g>
+            ))}
+
+            {/* Price axis */}
+            {priceTicks.map(tick => (
+              <text
+                key={tick}
+                x={toX(tick)}
+                y={HEIGHT - 8}
+                textAnchor="middle"
+                fontSize="11"
+                fill="#6b7280"
+              >
+                {tick.toFixed(2)}
+              </text>
+            ))}
+
+            {/* Depth curves */}
+            {(["BUY", "SELL"] as const).map(side => {
+              const steps = side === "BUY" ? chart.buySteps : chart.sellSteps
+              const edge = side === "BUY" ? priceDomain[1] : priceDomain[0]
+              const outline = buildStepPath(steps, edge, toX, toY)
+              if (!outline) return null
+
+              return (
+                <g key={side}>
+                  <path
+                    d={`${outline}L${toX(edge)},${toY(0)}Z`}
+                    fill={SIDE_COLORS[side]}
+                    fillOpacity="0.12"
+                  />
+                  <path
+                    d={outline}
+                    fill="none"
+                    stroke={SIDE_COLORS[side]}
+                    strokeWidth="2"
+                  />
+                </g>
+              )
+            })}
+
+            {/* Best prices and mid-price, labels staggered to avoid overlap */}
+            {markers.map((marker, index) => (
+              <g key={marker.label}>
+                <line
+                  x1={toX(marker.price)}
+                  x2={toX(marker.price)}
+                  y1={PADDING_TOP}
+                  y2={PADDING_TOP + PLOT_HEIGHT}
+                  stroke={marker.color}
+                  strokeDasharray="4 3"
+                />
+                <text
+                  x={toX(marker.price)}
+                  y={PADDING_TOP - 14 + (index % 2) * 10}
+                  textAnchor="middle"
+                  fontSize="10"
+                  fill={marker.color}
+                >
+                  {marker.label}
+                </text>
+              </g>
+            ))}
+
+            {/* Hovered step */}
+            {hovered && (
+              <circle
+                cx={toX(hovered.step.price)}
+                cy={toY(hovered.step.cumulative)}
+                r="4"
+                fill={SIDE_COLORS[hovered.side]}
+              />
+            )}
+          </svg>
+
+          {hovered && (
+            <div
+              className="absolute top-8 pointer-events-none rounded-md border bg-white p-2 text-xs shadow-md max-w-xs"
+              style={{
+                left: `${(toX(hovered.step.price) / WIDTH) * 100}%`,
+                transform:
+                  toX(hovered.step.price) > WIDTH / 2
+                    ? "translateX(calc(-100% - 8px))"
+                    : "translateX(8px)"
+              }}
+            >
+              <div className="font-medium">
+                {hovered.side} @ {formatPrice(hovered.step.price)}
+              </div>
+              <div className="text-gray-600 mb-1">
+                {formatAssetAmount(hovered.step.amount, asset)} {asset} at this
+                price • {formatAssetAmount(hovered.step.cumulative, asset)}{" "}
+                {asset} cumulative
+              </div>
+              {hovered.step.offers.map((offer, index) => (
+                <div key={index} className="flex justify-between gap-3">
+                  <span className="truncate">{offer.advertiser.name}</span>
+                  <span className="text-gray-600">
+                    {formatAssetAmount(offer.amount, asset)} {asset}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-4 mt-2 text-xs text-gray-600">
+            <span className="flex items-center gap-1">
+              <span className="inline-block w-3 h-0.5 bg-green-700"></span>
+              Buy offers (cumulative {asset})
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="inline-block w-3 h-0.5 bg-red-700"></span>
+              Sell offers (cumulative {asset})
+            </span>
+            {midPrice !== null && (
+              <span>Mid-price: {formatPrice(midPrice)}</span>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
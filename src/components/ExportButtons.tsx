@@ -0,0 +1,52 @@
+import {
+  ExportFormat,
+  EXPORT_MIME_TYPES,
+  getExportFilename
+} from "@/lib/export"
+import { Button } from "@/components/ui/button"
+
+interface ExportButtonsProps {
+  name: string[] // file name parts, e.g., ["offers", "USDT", "VES"]
+  getContent: (format: ExportFormat, timestamp: Date) => string
+  disabled?: boolean
+}
+
+/**
+ * CSV and JSON download buttons; the content is only built when clicked
+ */
+export function ExportButtons({
+  name,
+  getContent,
+  disabled
+}: ExportButtonsProps) {
+  const handleExport = (format: ExportFormat) => {
+    const timestamp = new Date()
+    const blob = new Blob([getContent(format, timestamp)], {
+      type: EXPORT_MIME_TYPES[format]
+    })
+    const url = URL.createObjectURL(blob)
+
+    const link = document.createElement("a")
+    link.href = url
+    link.download = getExportFilename(name, format, timestamp)
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      <span className="text-xs text-gray-500">Export:</span>
+      {(["csv", "json"] as const).map(format => (
+        <Button
+          key={format}
+          variant="outline"
+          size="sm"
+          onClick={() => handleExport(format)}
+          disabled={disabled}
+        >
+          {format.toUpperCase()}
+        </Button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,154 @@
+import { OfferFilters, TrustFilters } from "@/lib/types"
+import { FilterRemoval } from "@/lib/filters"
+import { TrustFilterBar } from "@/components/TrustFilterBar"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+
+interface FilterBarProps {
+  filters: OfferFilters
+  onChange: (filters: OfferFilters) => void
+  availableMethods: string[]
+  removals: FilterRemoval[]
+  asset: string
+  fiat: string
+}
+
+/**
+ * Parses an optional numeric input; empty or invalid input clears the filter
+ */
+function parseOptional(value: string): number | undefined {
+  const parsed = parseFloat(value)
+  return isNaN(parsed) ? undefined : parsed
+}
+
+/**
+ * Offer filters shared by every view of a market and the calculator:
+ * payment methods, amount and order size ranges, and advertiser trust
+ */
+export function FilterBar({
+  filters,
+  onChange,
+  availableMethods,
+  removals,
+  asset,
+  fiat
+}: FilterBarProps) {
+  const update = (changes: OfferFilters) => onChange({ ...filters, ...changes })
+
+  const selectedMethods = filters.paymentMethods ?? []
+
+  const toggleMethod = (method: string) =>
+    update({
+      paymentMethods: selectedMethods.includes(method)
+        ? selectedMethods.filter(selected => selected !== method)
+        : [...selectedMethods, method]
+    })
+
+  // The trust section only clears its own fields
+  const updateTrust = (trust: TrustFilters) =>
+    onChange({
+      ...filters,
+      minCompletionRate: undefined,
+      minOrders: undefined,
+      merchantsOnly: undefined,
+      maxConfirmMinutes: undefined,
+      ...trust
+    })
+
+  const renderRange = (
+    id: string,
+    label: string,
+    min: number | undefined,
+    max: number | undefined,
+    onRangeChange: (min?: number, max?: number) => void
+  ) => (
+    <div>
+      <Label htmlFor={`${id}-min`}>{label}</Label>
+      <div className="flex items-center gap-2">
+        <Input
+          id={`${id}-min`}
+          type="number"
+          value={min ?? ""}
+          onChange={e => onRangeChange(parseOptional(e.target.value), max)}
+          placeholder="Min"
+          min="0"
+          step="0.01"
+        />
+        <span className="text-gray-400">–</span>
+        <Input
+          type="number"
+          aria-label={`${label} max`}
+          value={max ?? ""}
+          onChange={e => onRangeChange(min, parseOptional(e.target.value))}
+          placeholder="Max"
+          min="0"
+          step="0.01"
+        />
+      </div>
+    </div>
+  )
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+        <div className="md:col-span-2">
+          <Label>Payment methods</Label>
+          <div className="flex flex-wrap gap-1 mt-1 max-h-24 overflow-y-auto">
+            {availableMethods.length === 0 && (
+              <span className="text-sm text-gray-500">No offers loaded</span>
+            )}
+            {availableMethods.map(method => (
+              <button
+                key={method}
+                type="button"
+                onClick={() => toggleMethod(method)}
+              >
+                <Badge
+                  variant={
+                    selectedMethods.includes(method) ? "default" : "outline"
+                  }
+                  className="text-xs cursor-pointer"
+                >
+                  {method}
+                </Badge>
+              </button>
+            ))}
+          </div>
+        </div>
+        {renderRange(
+          "filter-amount",
+          `Available (${asset})`,
+          filters.minAmount,
+          filters.maxAmount,
+          (minAmount, maxAmount) => update({ minAmount, maxAmount })
+        )}
+        {renderRange(
+          "filter-order-size",
+          `Order size (${fiat})`,
+          filters.minFiatAmount,
+          filters.maxFiatAmount,
+          (minFiatAmount, maxFiatAmount) =>
+            update({ minFiatAmount, maxFiatAmount })
+        )}
+      </div>
+
+      <TrustFilterBar filters={filters} onChange={updateTrust} />
+
+      {removals.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-gray-600">Removed by:</span>
+          {removals.map(({ filter, label, removed }) => (
+            <Badge key={filter} variant="outline">
+              {label} −{removed}
+            </Badge>
+          ))}
+          <Button variant="ghost" size="sm" onClick={() => onChange({})}>
+            Clear all
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,601 @@
+"use client"
+
+import { useState, useMemo, useEffect, useRef } from "react"
+import { useRouter } from "next/navigation"
+import { useP2PData } from "@/hooks/useP2PData"
+import { usePriceAlerts } from "@/hooks/usePriceAlerts"
+import { useOfferFilters } from "@/hooks/useOfferFilters"
+import { useReferenceRates } from "@/hooks/useReferenceRates"
+import { PriceSummary } from "@/components/PriceSummary"
+import { PriceHistoryChart } from "@/components/PriceHistoryChart"
+import { PriceList } from "@/components/PriceList"
+import { PriceCard } from "@/components/PriceCard"
+import { TradingCalculator } from "@/components/TradingCalculator"
+import { DepthChart } from "@/components/DepthChart"
+import { CrossRatePanel } from "@/components/CrossRatePanel"
+import { PriceAlerts } from "@/components/PriceAlerts"
+import { FilterBar } from "@/components/FilterBar"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  ALL_EXCHANGES,
+  DEFAULT_EXCHANGE,
+  getExchangeName,
+  getPairPath,
+  SUPPORTED_ASSETS,
+  SUPPORTED_EXCHANGES,
+  SUPPORTED_FIATS,
+  MarketPair
+} from "@/lib/markets"
+import { fetchP2PDepth, getBestPrices, MarketDepth } from "@/lib/binance-api"
+import { filterOffers, getFilterRemovals } from "@/lib/filters"
+import { getAvailableBanks } from "@/lib/trading-calculator"
+
+// Pages of 20 offers loaded when the table asks for more offers
+const TABLE_DEPTH_PAGES = 5
+
+/**
+ * Full market view for one asset/fiat pair: prices, history and calculator
+ */
+export function MarketDashboard({ asset, fiat }: MarketPair) {
+  const router = useRouter()
+  const [viewMode, setViewMode] = useState<
+    "summary" | "cards" | "table" | "depth" | "cross"
+  >("summary")
+  const [selectedTradeType, setSelectedTradeType] = useState<"BUY" | "SELL">(
+    "BUY"
+  )
+  const [exchange, setExchange] = useState(DEFAULT_EXCHANGE)
+  const { filters, setFilters } = useOfferFilters()
+  const [tableDepth, setTableDepth] = useState<MarketDepth | null>(null)
+  const [loadingTableDepth, setLoadingTableDepth] = useState(false)
+  // Ignore deeper offers loaded for a market that is no longer shown
+  const tableDepthRequestRef = useRef(0)
+
+  const {
+    prices,
+    buyPrices,
+    sellPrices,
+    loading,
+    errors,
+    lastUpdated,
+    refresh,
+    filterPrices
+  } = useP2PData(asset, fiat, true, 30000, exchange) // Auto-refresh every 30 seconds
+
+  // Alerts are evaluated on every refresh, whichever view is shown
+  const alerts = usePriceAlerts(asset, fiat, buyPrices, sellPrices, lastUpdated)
+
+  const { rates: referenceRates } = useReferenceRates(asset, fiat)
+
+  const currentPrices = selectedTradeType === "BUY" ? buyPrices : sellPrices
+
+  // One filter state drives every view and the calculator
+  const filteredBuy = useMemo(
+    () => filterPrices({ tradeType: "BUY", ...filters }),
+    [filterPrices, filters]
+  )
+  const filteredSell = useMemo(
+    () => filterPrices({ tradeType: "SELL", ...filters }),
+    [filterPrices, filters]
+  )
+  const filteredPrices =
+    selectedTradeType === "BUY" ? filteredBuy : filteredSell
+  const { bestBuy, bestSell } = useMemo(
+    () => getBestPrices(filteredBuy, filteredSell),
+    [filteredBuy, filteredSell]
+  )
+
+  const availableMethods = useMemo(
+    () => getAvailableBanks(currentPrices),
+    [currentPrices]
+  )
+  const filterRemovals = useMemo(
+    () =>
+      getFilterRemovals(prices, { tradeType: selectedTradeType, ...filters }),
+    [prices, selectedTradeType, filters]
+  )
+
+  // Deeper offers only apply to the market they were loaded for
+  useEffect(() => {
+    tableDepthRequestRef.current++
+    setTableDepth(null)
+    setLoadingTableDepth(false)
+  }, [asset, fiat, exchange, selectedTradeType])
+
+  const tablePrices = useMemo(
+    () =>
+      tableDepth
+        ? filterOffers(tableDepth.prices, {
+            tradeType: selectedTradeType,
+            ...filters
+          })
+        : filteredPrices,
+    [tableDepth, filteredPrices, selectedTradeType, filters]
+  )
+
+  const handleLoadMoreOffers = async () => {
+    const requestId = ++tableDepthRequestRef.current
+    setLoadingTableDepth(true)
+    try {
+      const depth = await fetchP2PDepth(
+        asset,
+        fiat,
+        selectedTradeType,
+        undefined,
+        TABLE_DEPTH_PAGES,
+        {},
+        exchange
+      )
+      if (requestId === tableDepthRequestRef.current) setTableDepth(depth)
+    } catch (error) {
+      if (requestId === tableDepthRequestRef.current) {
+        console.warn("Failed to load more offers:", error)
+      }
+    } finally {
+      if (requestId === tableDepthRequestRef.current) {
+        setLoadingTableDepth(false)
+      }
+    }
+  }
+
+  const handleRefresh = async () => {
+    await refresh()
+  }
+
+  const handlePairChange = (pair: MarketPair) => {
+    router.push(getPairPath(pair))
+  }
+
+  const hasData = buyPrices.length > 0 || sellPrices.length > 0
+  const failedSides = [errors.buy && "buy", errors.sell && "sell"].filter(
+    Boolean
+  )
+
+  // Show error banner if there's an error but still display content if we have data
+  const showErrorBanner = failedSides.length > 0 && !hasData
+
+  if (showErrorBanner) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-8">
+        <div className="container mx-auto px-4">
+          <div className="max-w-4xl mx-auto">
+            <Card className="border-red-200 bg-red-50">
+              <CardHeader>
+                <CardTitle className="text-red-800">
+                  Error Loading Data
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-red-700 mb-4">{errors.buy || errors.sell}</p>
+                <Button onClick={handleRefresh} variant="outline">
+                  Try Again
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="container mx-auto px-4">
+        <div className="max-w-7xl mx-auto">
+          {/* Header */}
+          <div className="text-center mb-8">
+            <h1 className="text-4xl font-bold text-gray-900 mb-2">
+              {asset}/{fiat} P2P Market
+            </h1>
+            <p className="text-gray-600 mb-6">
+              Real-time P2P prices for {asset} vs{" "}
+              {SUPPORTED_FIATS[fiat]?.name ?? fiat} •{" "}
+              {getExchangeName(exchange)}
+            </p>
+
+            {/* Warning Banner */}
+            {failedSides.length > 0 && hasData && (
+              <div className="mb-6">
+                <Card className="border-yellow-200 bg-yellow-50">
+                  <CardContent className="pt-4">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <span
+                          className="text-yellow-800 text-sm"
+                          title={[errors.buy, errors.sell]
+                            .filter(Boolean)
+                            .join("\n")}
+                        >
+                          ⚠️ Failed to refresh {failedSides.join(" and ")}{" "}
+                          offers. Showing the last available data.
+                        </span>
+                      </div>
+                      <Button
+                        onClick={handleRefresh}
+                        variant="outline"
+                        size="sm"
+                      >
+                        Retry
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              </div>
+            )}
+
+            {/* Controls */}
+            <div className="flex flex-wrap items-center justify-center gap-4 mb-6">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium text-gray-700">Pair:</span>
+                <select
+                  aria-label="Asset"
+                  value={asset}
+                  onChange={e =>
+                    handlePairChange({ asset: e.target.value, fiat })
+                  }
+                  className="px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {SUPPORTED_ASSETS.map(option => (
+                    <option key={option} value={option}>
+                      {option}
+                    </option>
+                  ))}
+                </select>
+                <span className="text-gray-400">/</span>
+                <select
+                  aria-label="Fiat"
+                  value={fiat}
+                  onChange={e =>
+                    handlePairChange({ asset, fiat: e.target.value })
+                  }
+                  className="px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {Object.entries(SUPPORTED_FIATS).map(([code, config]) => (
+                    <option key={code} value={code}>
+                      {code} – {config.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium text-gray-700">
+                  Exchange:
+                </span>
+                <select
+                  aria-label="Exchange"
+                  value={exchange}
+                  onChange={e => setExchange(e.target.value)}
+                  className="px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {[...Object.keys(SUPPORTED_EXCHANGES), ALL_EXCHANGES].map(
+                    option => (
+                      <option key={option} value={option}>
+                        {getExchangeName(option)}
+                      </option>
+                    )
+                  )}
+                </select>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium text-gray-700">
+                  Trade Type:
+                </span>
+                <div className="flex rounded-lg border">
+                  <Button
+                    variant={selectedTradeType === "BUY" ? "default" : "ghost"}
+                    size="sm"
+                    onClick={() => setSelectedTradeType("BUY")}
+                    className="rounded-r-none"
+                  >
+                    <Badge className="bg-green-100 text-green-800 mr-1">
+                      BUY
+                    </Badge>
+                    Buy {asset}
+                    {buyPrices.length > 0 && (
+                      <Badge variant="outline" className="ml-1 text-xs">
+                        {buyPrices.length}
+                      </Badge>
+                    )}
+                  </Button>
+                  <Button
+                    variant={selectedTradeType === "SELL" ? "default" : "ghost"}
+                    size="sm"
+                    onClick={() => setSelectedTradeType("SELL")}
+                    className="rounded-l-none"
+                  >
+                    <Badge className="bg-red-100 text-red-800 mr-1">SELL</Badge>
+                    Sell {asset}
+                    {sellPrices.length > 0 && (
+                      <Badge variant="outline" className="ml-1 text-xs">
+                        {sellPrices.length}
+                      </Badge>
+                    )}
+                  </Button>
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium text-gray-700">View:</span>
+                <div className="flex rounded-lg border">
+                  <Button
+                    variant={viewMode === "summary" ? "default" : "ghost"}
+                    size="sm"
+                    onClick={() => setViewMode("summary")}
+                    className="rounded-r-none"
+                  >
+                    Summary
+                  </Button>
+                  <Button
+                    variant={viewMode === "cards" ? "default" : "ghost"}
+                    size="sm"
+                    onClick={() => setViewMode("cards")}
+                  >
+                    Cards
+                  </Button>
+                  <Button
+                    variant={viewMode === "table" ? "default" : "ghost"}
+                    size="sm"
+                    onClick={() => setViewMode("table")}
+                    className="rounded-none"
+                  >
+                    Table
+                  </Button>
+                  <Button
+                    variant={viewMode === "depth" ? "default" : "ghost"}
+                    size="sm"
+                    onClick={() => setViewMode("depth")}
+                    className="rounded-none"
+                  >
+                    Depth
+                  </Button>
+                  <Button
+                    variant={viewMode === "cross" ? "default" : "ghost"}
+                    size="sm"
+                    onClick={() => setViewMode("cross")}
+                    className="rounded-l-none"
+                  >
+                    Cross Rates
+                  </Button>
+                </div>
+              </div>
+
+              <Button onClick={handleRefresh} variant="outline" size="sm">
+                Refresh
+              </Button>
+
+              <Button
+                onClick={() => setViewMode("summary")}
+                variant="outline"
+                size="sm"
+                className="bg-blue-50 border-blue-200 text-blue-700 hover:bg-blue-100"
+              >
+                💰 Calculator
+              </Button>
+
+              {/* Data Status */}
+              <div className="flex items-center gap-2 text-xs text-gray-500">
+                <span>Data:</span>
+                {loading ? (
+                  <span className="text-blue-600">Loading...</span>
+                ) : hasData ? (
+                  <span className="text-green-600">
+                    {buyPrices.length + sellPrices.length} offers available
+                    {lastUpdated &&
+                      ` • updated ${lastUpdated.toLocaleTimeString()}`}
+                  </span>
+                ) : (
+                  <span className="text-red-600">No data</span>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {/* Filters */}
+          <Card className="mb-6">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg flex items-center gap-2">
+                <span>🔍 Filters</span>
+                {filterRemovals.length > 0 && (
+                  <Badge variant="outline">
+                    {filteredPrices.length} of {currentPrices.length}{" "}
+                    {selectedTradeType} offers
+                  </Badge>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <FilterBar
+                filters={filters}
+                onChange={setFilters}
+                availableMethods={availableMethods}
+                removals={filterRemovals}
+                asset={asset}
+                fiat={fiat}
+              />
+            </CardContent>
+          </Card>
+
+          {/* Price Summary */}
+          {viewMode === "summary" && (
+            <>
+              <PriceSummary
+                bestBuy={bestBuy}
+                bestSell={bestSell}
+                loading={loading}
+                fiat={fiat}
+                referenceRates={referenceRates}
+              />
+
+              {/* Price History */}
+              <PriceHistoryChart
+                asset={asset}
+                fiat={fiat}
+                lastUpdated={lastUpdated}
+                referenceRates={referenceRates}
+              />
+
+              {/* Trading Calculator */}
+              <TradingCalculator
+                prices={filteredPrices}
+                buyPrices={filteredBuy}
+                sellPrices={filteredSell}
+                tradeType={selectedTradeType}
+                loading={loading}
+                asset={asset}
+                fiat={fiat}
+                exchange={exchange}
+                filters={filters}
+              />
+
+              {/* Price Alerts */}
+              <PriceAlerts
+                alerts={alerts}
+                prices={[...buyPrices, ...sellPrices]}
+                asset={asset}
+                fiat={fiat}
+              />
+            </>
+          )}
+
+          {/* Price Cards View */}
+          {viewMode === "cards" && (
+            <div className="space-y-6">
+              <div className="flex items-center justify-between">
+                <h2 className="text-2xl font-semibold text-gray-900">
+                  {selectedTradeType} {asset} Offers
+                </h2>
+                <span className="text-sm text-gray-600">
+                  {filteredPrices.length} offers available
+                </span>
+              </div>
+
+              {loading ? (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {Array.from({ length: 6 }).map((_, index) => (
+                    <Card key={index}>
+                      <CardHeader>
+                        <div className="animate-pulse">
+                          <div className="h-6 bg-gray-200 rounded mb-2"></div>
+                          <div className="h-4 bg-gray-200 rounded w-3/4"></div>
+                        </div>
+                      </CardHeader>
+                      <CardContent>
+                        <div className="space-y-3">
+                          {Array.from({ length: 5 }).map((_, i) => (
+                            <div key={i} className="animate-pulse">
+                              <div className="h-4 bg-gray-200 rounded"></div>
+                            </div>
+                          ))}
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {filteredPrices.slice(0, 12).map((price, index) => (
+                    <PriceCard
+                      key={index}
+                      data={price}
+                      asset={asset}
+                      fiat={fiat}
+                      isBest={
+                        (selectedTradeType === "BUY" &&
+                          bestBuy &&
+                          price.price === bestBuy.price) ||
+                        (selectedTradeType === "SELL" &&
+                          bestSell &&
+                          price.price === bestSell.price)
+                      }
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Price Table View */}
+          {viewMode === "table" && (
+            <div className="space-y-6">
+              <div className="flex items-center justify-between">
+                <h2 className="text-2xl font-semibold text-gray-900">
+                  {selectedTradeType} {asset} Offers
+                </h2>
+                {tableDepth ? (
+                  <div className="flex items-center gap-2 text-sm text-blue-700">
+                    <span>
+                      🔎 {tableDepth.prices.length} offers from{" "}
+                      {tableDepth.pages} pages
+                      {tableDepth.exhausted && " — the whole book"}
+                    </span>
+                    <Button
+                      onClick={() => setTableDepth(null)}
+                      variant="ghost"
+                      size="sm"
+                    >
+                      Live top offers
+                    </Button>
+                  </div>
+                ) : (
+                  <Button
+                    onClick={handleLoadMoreOffers}
+                    variant="outline"
+                    size="sm"
+                    disabled={loading || loadingTableDepth}
+                  >
+                    {loadingTableDepth
+                      ? "Loading offers..."
+                      : "🔎 Load more offers"}
+                  </Button>
+                )}
+              </div>
+
+              <PriceList
+                prices={tablePrices}
+                loading={loading && !tableDepth}
+                tradeType={selectedTradeType}
+                asset={asset}
+                fiat={fiat}
+                updatedAt={tableDepth ? null : lastUpdated}
+              />
+            </div>
+          )}
+
+          {/* Order Book Depth View */}
+          {viewMode === "depth" && (
+            <DepthChart
+              buyPrices={filteredBuy}
+              sellPrices={filteredSell}
+              bestBuy={bestBuy}
+              bestSell={bestSell}
+              loading={loading}
+              asset={asset}
+              fiat={fiat}
+            />
+          )}
+
+          {/* Cross-Currency Rates View */}
+          {viewMode === "cross" && (
+            <CrossRatePanel fiat={fiat} trustFilters={filters} />
+          )}
+
+          {/* Footer */}
+          <div className="mt-12 text-center text-sm text-gray-500">
+            <p>
+              Data source: {getExchangeName(exchange)} P2P • Updates every 30
+              seconds
+            </p>
+            <p className="mt-1">
+              This is for informational purposes only. Always verify prices
+              before trading.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,255 @@
+import { useState, useMemo } from "react"
+import { PriceData } from "@/lib/types"
+import { AlertCondition, ALERT_CONDITION_LABELS } from "@/lib/alerts"
+import { getAvailableBanks } from "@/lib/trading-calculator"
+import { UsePriceAlertsReturn } from "@/hooks/usePriceAlerts"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+
+interface PriceAlertsProps {
+  alerts: UsePriceAlertsReturn
+  prices: PriceData[]
+  asset: string
+  fiat: string
+}
+
+const SELECT_CLASS_NAME =
+  "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+
+/**
+ * Manages price alert rules for the current pair and shows triggered alerts
+ */
+export function PriceAlerts({ alerts, prices, asset, fiat }: PriceAlertsProps) {
+  const [condition, setCondition] = useState<AlertCondition>("BUY_BELOW")
+  const [threshold, setThreshold] = useState("")
+  const [paymentMethod, setPaymentMethod] = useState("")
+  const [cooldownMinutes, setCooldownMinutes] = useState("15")
+  const [confirmations, setConfirmations] = useState("1")
+
+  const availableBanks = useMemo(() => getAvailableBanks(prices), [prices])
+
+  const {
+    rules,
+    log,
+    notificationPermission,
+    addRule,
+    updateRule,
+    removeRule,
+    clearLog,
+    requestNotificationPermission
+  } = alerts
+
+  const parsedThreshold = parseFloat(threshold)
+  const canAdd = Number.isFinite(parsedThreshold) && parsedThreshold > 0
+
+  const handleAdd = () => {
+    if (!canAdd) return
+
+    addRule({
+      condition,
+      threshold: parsedThreshold,
+      paymentMethod: paymentMethod || undefined,
+      cooldownMinutes: Math.max(0, parseFloat(cooldownMinutes) || 0),
+      confirmations: Math.max(1, parseInt(confirmations) || 1)
+    })
+    setThreshold("")
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <span>🔔 Price Alerts</span>
+          <Badge variant="outline">
+            {asset}/{fiat}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Notification permission */}
+        {notificationPermission === "unsupported" ? (
+          <p className="text-sm text-gray-600">
+            This browser does not support notifications; triggered alerts are
+            only listed below.
+          </p>
+        ) : notificationPermission === "denied" ? (
+          <p className="text-sm text-red-600">
+            Notifications are blocked for this site; triggered alerts are only
+            listed below.
+          </p>
+        ) : notificationPermission === "default" ? (
+          <div className="flex items-center justify-between gap-4 p-3 bg-blue-50 rounded-lg">
+            <span className="text-sm text-blue-800">
+              Allow notifications to be alerted while this tab is in the
+              background.
+            </span>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={requestNotificationPermission}
+            >
+              Enable Notifications
+            </Button>
+          </div>
+        ) : null}
+
+        {/* New rule */}
+        <div className="grid grid-cols-1 md:grid-cols-6 gap-4">
+          <div className="md:col-span-2">
+            <Label htmlFor="alert-condition">Condition</Label>
+            <select
+              id="alert-condition"
+              value={condition}
+              onChange={e => setCondition(e.target.value as AlertCondition)}
+              className={SELECT_CLASS_NAME}
+            >
+              {(Object.keys(ALERT_CONDITION_LABELS) as AlertCondition[]).map(
+                option => (
+                  <option key={option} value={option}>
+                    {ALERT_CONDITION_LABELS[option]}
+                  </option>
+                )
+              )}
+            </select>
+          </div>
+          <div>
+            <Label htmlFor="alert-threshold">
+              {condition === "SPREAD_ABOVE" ? "Spread (%)" : `Price (${fiat})`}
+            </Label>
+            <Input
+              id="alert-threshold"
+              type="number"
+              value={threshold}
+              onChange={e => setThreshold(e.target.value)}
+              min="0"
+              step="0.01"
+            />
+          </div>
+          <div>
+            <Label htmlFor="alert-bank">Bank/Payment Method</Label>
+            <select
+              id="alert-bank"
+              value={paymentMethod}
+              onChange={e => setPaymentMethod(e.target.value)}
+              className={SELECT_CLASS_NAME}
+            >
+              <option value="">All Banks</option>
+              {availableBanks.map(bank => (
+                <option key={bank} value={bank}>
+                  {bank}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <Label htmlFor="alert-cooldown">Cooldown (min)</Label>
+            <Input
+              id="alert-cooldown"
+              type="number"
+              value={cooldownMinutes}
+              onChange={e => setCooldownMinutes(e.target.value)}
+              min="0"
+              step="1"
+            />
+          </div>
+          <div>
+            <Label htmlFor="alert-confirmations">Confirmations</Label>
+            <Input
+              id="alert-confirmations"
+              type="number"
+              value={confirmations}
+              onChange={e => setConfirmations(e.target.value)}
+              min="1"
+              step="1"
+            />
+          </div>
+        </div>
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm text-gray-600">
+            An alert fires after the condition holds for the given number of
+            consecutive refreshes, then stays quiet for the cooldown.
+          </p>
+          <Button onClick={handleAdd} disabled={!canAdd}>
+            Add Alert
+          </Button>
+        </div>
+
+        {/* Rules */}
+        {rules.length > 0 && (
+          <div className="space-y-2">
+            {rules.map(rule => (
+              <div
+                key={rule.id}
+                className="flex items-center justify-between gap-4 p-3 bg-gray-50 rounded-lg"
+              >
+                <div className="text-sm">
+                  <div className="font-medium">
+                    {ALERT_CONDITION_LABELS[rule.condition]} {rule.threshold}
+                    {rule.paymentMethod && (
+                      <span className="text-blue-600">
+                        {" "}
+                        • {rule.paymentMethod}
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-gray-600">
+                    {rule.confirmations} confirmation
+                    {rule.confirmations === 1 ? "" : "s"} •{" "}
+                    {rule.cooldownMinutes} min cooldown
+                    {rule.lastTriggeredAt &&
+                      ` • last triggered ${new Date(
+                        rule.lastTriggeredAt
+                      ).toLocaleString()}`}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() =>
+                      updateRule(rule.id, { enabled: !rule.enabled })
+                    }
+                  >
+                    {rule.enabled ? "Pause" : "Resume"}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => removeRule(rule.id)}
+                  >
+                    Delete
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Triggered alerts */}
+        {log.length > 0 && (
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="font-medium text-gray-900">Triggered Alerts</h4>
+              <Button size="sm" variant="ghost" onClick={clearLog}>
+                Clear
+              </Button>
+            </div>
+            <div className="space-y-1 text-sm">
+              {log.map((event, index) => (
+                <div key={index} className="flex justify-between gap-4">
+                  <span>{event.message}</span>
+                  <span className="text-gray-500 whitespace-nowrap">
+                    {new Date(event.triggeredAt).toLocaleTimeString()}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
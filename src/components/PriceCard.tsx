@@ -1,31 +1,28 @@
 import { PriceData } from "@/lib/types"
+import { formatAssetAmount, formatFiat, getExchangeName } from "@/lib/markets"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
+import { TrustBadge } from "@/components/TrustBadge"
 
 interface PriceCardProps {
   data: PriceData
+  asset: string
+  fiat: string
   isBest?: boolean | null
 }
 
 /**
  * Displays a single P2P price offer in a card format
  */
-export function PriceCard({ data, isBest = false }: PriceCardProps) {
-  const formatPrice = (price: number) => {
-    return new Intl.NumberFormat("es-VE", {
-      style: "currency",
-      currency: "VES",
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2
-    }).format(price)
-  }
+export function PriceCard({
+  data,
+  asset,
+  fiat,
+  isBest = false
+}: PriceCardProps) {
+  const formatPrice = (price: number) => formatFiat(price, fiat)
 
-  const formatAmount = (amount: number) => {
-    return new Intl.NumberFormat("en-US", {
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2
-    }).format(amount)
-  }
+  const formatAmount = (amount: number) => formatAssetAmount(amount, asset)
 
   const getTradeTypeColor = (type: "BUY" | "SELL") => {
     return type === "BUY"
@@ -58,7 +55,17 @@ export function PriceCard({ data, isBest = false }: PriceCardProps) {
       <CardContent className="space-y-3">
         <div className="flex justify-between text-sm text-gray-600">
           <span>Available:</span>
-          <span className="font-medium">{formatAmount(data.amount)} USDT</span>
+          <span className="font-medium">
+            {formatAmount(data.amount)} {asset}
+          </span>
+        </div>
+
+        <div className="flex justify-between text-sm text-gray-600">
+          <span>Limits:</span>
+          <span className="font-medium">
+            {formatPrice(data.limits.minFiat)} –{" "}
+            {formatPrice(data.limits.maxFiat)}
+          </span>
         </div>
 
         <div className="flex justify-between text-sm text-gray-600">
@@ -66,6 +73,11 @@ export function PriceCard({ data, isBest = false }: PriceCardProps) {
           <span className="font-medium">{data.advertiser.name}</span>
         </div>
 
+        <div className="flex justify-between text-sm text-gray-600">
+          <span>Exchange:</span>
+          <span className="font-medium">{getExchangeName(data.source)}</span>
+        </div>
+
         <div className="flex justify-between text-sm text-gray-600">
           <span>Rating:</span>
           <span className="font-medium">
@@ -85,6 +97,11 @@ export function PriceCard({ data, isBest = false }: PriceCardProps) {
           </span>
         </div>
 
+        <div className="flex justify-between text-sm text-gray-600">
+          <span>Trust:</span>
+          <TrustBadge advertiser={data.advertiser} />
+        </div>
+
         {data.paymentMethods.length > 0 && (
           <div className="pt-2 border-t">
             <div className="text-xs text-gray-500 mb-1">Payment Methods:</div>
@@ -0,0 +1,466 @@
+import { useState, useEffect, useMemo, MouseEvent } from "react"
+import {
+  usePriceHistory,
+  HistoryWindow,
+  HISTORY_WINDOWS
+} from "@/hooks/usePriceHistory"
+import { HistoryPoint } from "@/lib/history"
+import { formatFiat } from "@/lib/markets"
+import { formatPremium, ReferenceRate } from "@/lib/reference-rates"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+
+interface PriceHistoryChartProps {
+  asset: string
+  fiat: string
+  lastUpdated: Date | null
+  referenceRates?: ReferenceRate[]
+}
+
+// Chart geometry in SVG viewBox units
+const WIDTH = 800
+const PADDING_LEFT = 80
+const PADDING_RIGHT = 16
+const PRICE_TOP = 10
+const PRICE_HEIGHT = 200
+const SPREAD_TOP = PRICE_TOP + PRICE_HEIGHT + 30
+const SPREAD_HEIGHT = 70
+const HEIGHT = SPREAD_TOP + SPREAD_HEIGHT + 24
+const PLOT_WIDTH = WIDTH - PADDING_LEFT - PADDING_RIGHT
+
+// Only the most recent refresh markers are kept
+const MAX_REFRESH_MARKERS = 500
+
+// Line colors of the reference rates, in provider order
+const REFERENCE_COLORS = ["#7c3aed", "#d97706", "#0891b2"]
+
+/**
+ * Builds an SVG path through the defined values, breaking the line on gaps
+ */
+function buildPath(
+  points: HistoryPoint[],
+  getValue: (point: HistoryPoint) => number | null,
+  toX: (time: number) => number,
+  toY: (value: number) => number
+): string {
+  let path = ""
+  let drawing = false
+
+  points.forEach(point => {
+    const value = getValue(point)
+    if (value === null) {
+      drawing = false
+      return
+    }
+
+    path += `${drawing ? "L" : "M"}${toX(point.time).toFixed(1)},${toY(
+      value
+    ).toFixed(1)}`
+    drawing = true
+  })
+
+  return path
+}
+
+/**
+ * Returns the [min, max] of the values, padded so lines don't touch the edges
+ */
+function getDomain(values: number[]): [number, number] {
+  if (values.length === 0) return [0, 1]
+
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+  const padding = (max - min || Math.abs(max) || 1) * 0.05
+  return [min - padding, max + padding]
+}
+
+/**
+ * Charts best buy, best sell and spread over time from recorded history,
+ * against the current reference rates
+ */
+export function PriceHistoryChart({
+  asset,
+  fiat,
+  lastUpdated,
+  referenceRates = []
+}: PriceHistoryChartProps) {
+  const [historyWindow, setHistoryWindow] = useState<HistoryWindow>("24h")
+  const [refreshMarkers, setRefreshMarkers] = useState<number[]>([])
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null)
+
+  const { points, loading, error } = usePriceHistory(
+    asset,
+    fiat,
+    historyWindow,
+    lastUpdated?.getTime()
+  )
+
+  // Remember when each auto-refresh landed so it can be marked on the chart
+  useEffect(() => {
+    if (!lastUpdated) return
+    setRefreshMarkers(markers =>
+      [...markers, lastUpdated.getTime()].slice(-MAX_REFRESH_MARKERS)
+    )
+  }, [lastUpdated])
+
+  const formatPrice = (price: number) => formatFiat(price, fiat)
+
+  const getReferenceColor = (index: number) =>
+    REFERENCE_COLORS[index % REFERENCE_COLORS.length]
+
+  const formatTime = (time: number) => {
+    return new Date(time).toLocaleString(undefined, {
+      ...(historyWindow === "7d" ? { weekday: "short" } : {}),
+      hour: "2-digit",
+      minute: "2-digit"
+    })
+  }
+
+  const end = lastUpdated?.getTime() ?? Date.now()
+  const start = end - HISTORY_WINDOWS[historyWindow].durationMs
+
+  const scales = useMemo(() => {
+    const priceDomain = getDomain(
+      points
+        .flatMap(point =>
+          [point.bestBuy, point.bestSell].filter(
+            (value): value is number => value !== null
+          )
+        )
+        .concat(referenceRates.map(reference => reference.rate))
+    )
+    const spreadDomain = getDomain(
+      points
+        .map(point => point.spreadPercentage)
+        .filter((value): value is number => value !== null)
+        .concat(0)
+    )
+
+    return {
+      priceDomain,
+      spreadDomain,
+      toX: (time: number) =>
+        PADDING_LEFT + ((time - start) / (end - start)) * PLOT_WIDTH,
+      toPriceY: (value: number) =>
+        PRICE_TOP +
+        PRICE_HEIGHT -
+        ((value - priceDomain[0]) / (priceDomain[1] - priceDomain[0])) *
+          PRICE_HEIGHT,
+      toSpreadY: (value: number) =>
+        SPREAD_TOP +
+        SPREAD_HEIGHT -
+        ((value - spreadDomain[0]) / (spreadDomain[1] - spreadDomain[0])) *
+          SPREAD_HEIGHT
+    }
+  }, [points, referenceRates, start, end])
+
+  const handleMouseMove = (event: MouseEvent<SVGSVGElement>) => {
+    if (points.length === 0) return
+
+    const bounds = event.currentTarget.getBoundingClientRect()
+    const x = ((event.clientX - bounds.left) / bounds.width) * WIDTH
+    const time = start + ((x - PADDING_LEFT) / PLOT_WIDTH) * (end - start)
+
+    let nearest = 0
+    points.forEach((point, index) => {
+      if (Math.abs(point.time - time) < Math.abs(points[nearest].time - time)) {
+        nearest = index
+      }
+    })
+    setHoverIndex(nearest)
+  }
+
+  const hovered = hoverIndex !== null ? points[hoverIndex] : null
+  const priceTicks = [0, 1, 2, 3].map(
+    i =>
+      scales.priceDomain[0] +
+      ((scales.priceDomain[1] - scales.priceDomain[0]) * i) / 3
+  )
+  const timeTicks = [0, 1, 2, 3, 4].map(i => start + ((end - start) * i) / 4)
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg">📈 Price History</CardTitle>
+          <div className="flex rounded-lg border">
+            {(Object.keys(HISTORY_WINDOWS) as HistoryWindow[]).map(
+              (option, index, options) => (
+                <Button
+                  key={option}
+                  variant={historyWindow === option ? "default" : "ghost"}
+                  size="sm"
+                  onClick={() => setHistoryWindow(option)}
+                  className={
+                    index === 0
+                      ? "rounded-r-none"
+                      : index === options.length - 1
+                        ? "rounded-l-none"
+                        : "rounded-none"
+                  }
+                >
+                  {option}
+                </Button>
+              )
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading && points.length === 0 ? (
+          <div className="animate-pulse">
+            <div className="h-64 bg-gray-200 rounded"></div>
+          </div>
+        ) : error && points.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <p>Unable to load price history.</p>
+            <p className="text-sm mt-1">{error}</p>
+          </div>
+        ) : points.length < 2 ? (
+          <div className="text-center py-8 text-gray-500">
+            <p>Not enough history recorded for this window yet.</p>
+            <p className="text-sm mt-1">
+              Prices are recorded on every refresh.
+            </p>
+          </div>
+        ) : (
+          <div className="relative">
+            <svg
+              viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+              className="w-full h-auto"
+              onMouseMove={handleMouseMove}
+              onMouseLeave={() => setHoverIndex(null)}
+            >
+              {/* Price grid and axis labels */}
+              {priceTicks.map(tick => (
+                <g key={tick}>
+                  <line
+                    x1={PADDING_LEFT}
+                    x2={WIDTH - PADDING_RIGHT}
+                    y1={scales.toPriceY(tick)}
+                    y2={scales.toPriceY(tick)}
+                    stroke="#e5e7eb"
+                  />
+                  <text
+                    x={PADDING_LEFT - 6}
+                    y={scales.toPriceY(tick) + 4}
+                    textAnchor="end"
+                    fontSize="11"
+                    fill="#6b7280"
+                  >
+                    {tick.toFixed(2)}
+                  </text>
+                </g>
+              ))}
+
+              {/* Spread panel baseline */}
+              <line
+                x1={PADDING_LEFT}
+                x2={WIDTH - PADDING_RIGHT}
+                y1={scales.toSpreadY(0)}
+                y2={scales.toSpreadY(0)}
+                stroke="#d1d5db"
+              />
+              <text
+                x={PADDING_LEFT - 6}
+                y={SPREAD_TOP + 10}
+                textAnchor="end"
+                fontSize="11"
+                fill="#6b7280"
+              >
+                Spread %
+              </text>
+
+              {/* Time axis */}
+              {timeTicks.map(tick => (
+                <text
+                  key={tick}
+                  x={scales.toX(tick)}
+                  y={HEIGHT - 6}
+                  textAnchor="middle"
+                  fontSize="11"
+                  fill="#6b7280"
+                >
+                  {formatTime(tick)}
+                </text>
+              ))}
+
+              {/* Auto-refresh markers */}
+              {refreshMarkers
+                .filter(time => time >= start && time <= end)
+                .map(time => (
+                  <line
+                    key={time}
+                    x1={scales.toX(time)}
+                    x2={scales.toX(time)}
+                    y1={PRICE_TOP}
+                    y2={SPREAD_TOP + SPREAD_HEIGHT}
+                    stroke="#93c5fd"
+                    strokeDasharray="2 3"
+                  />
+                ))}
+
+              {/* Reference rates */}
+              {referenceRates.map((reference, index) => (
+                <line
+                  key={reference.provider}
+                  x1={PADDING_LEFT}
+                  x2={WIDTH - PADDING_RIGHT}
+                  y1={scales.toPriceY(reference.rate)}
+                  y2={scales.toPriceY(reference.rate)}
+                  stroke={getReferenceColor(index)}
+                  strokeWidth="1.5"
+                  strokeDasharray="6 4"
+                />
+              ))}
+
+              <path
+                d={buildPath(
+                  points,
+                  point => point.bestBuy,
+                  scales.toX,
+                  scales.toPriceY
+                )}
+                fill="none"
+                stroke="#15803d"
+                strokeWidth="2"
+              />
+              <path
+                d={buildPath(
+                  points,
+                  point => point.bestSell,
+                  scales.toX,
+                  scales.toPriceY
+                )}
+                fill="none"
+                stroke="#b91c1c"
+                strokeWidth="2"
+              />
+              <path
+                d={buildPath(
+                  points,
+                  point => point.spreadPercentage,
+                  scales.toX,
+                  scales.toSpreadY
+                )}
+                fill="none"
+                stroke="#1d4ed8"
+                strokeWidth="1.5"
+              />
+
+              {/* Hover cursor */}
+              {hovered && (
+                <g>
+                  <line
+                    x1={scales.toX(hovered.time)}
+                    x2={scales.toX(hovered.time)}
+                    y1={PRICE_TOP}
+                    y2={SPREAD_TOP + SPREAD_HEIGHT}
+                    stroke="#6b7280"
+                  />
+                  {hovered.bestBuy !== null && (
+                    <circle
+                      cx={scales.toX(hovered.time)}
+                      cy={scales.toPriceY(hovered.bestBuy)}
+                      r="4"
+                      fill="#15803d"
+                    />
+                  )}
+                  {hovered.bestSell !== null && (
+                    <circle
+                      cx={scales.toX(hovered.time)}
+                      cy={scales.toPriceY(hovered.bestSell)}
+                      r="4"
+                      fill="#b91c1c"
+                    />
+                  )}
+                </g>
+              )}
+            </svg>
+
+            {hovered && (
+              <div
+                className="absolute top-0 pointer-events-none rounded-md border bg-white p-2 text-xs shadow-md"
+                style={{
+                  left: `${(scales.toX(hovered.time) / WIDTH) * 100}%`,
+                  transform:
+                    scales.toX(hovered.time) > WIDTH / 2
+                      ? "translateX(calc(-100% - 8px))"
+                      : "translateX(8px)"
+                }}
+              >
+                <div className="font-medium mb-1">
+                  {new Date(hovered.time).toLocaleString()}
+                </div>
+                <div className="text-green-700">
+                  Best Buy:{" "}
+                  {hovered.bestBuy !== null
+                    ? formatPrice(hovered.bestBuy)
+                    : "—"}
+                </div>
+                <div className="text-red-700">
+                  Best Sell:{" "}
+                  {hovered.bestSell !== null
+                    ? formatPrice(hovered.bestSell)
+                    : "—"}
+                </div>
+                <div className="text-blue-700">
+                  Spread:{" "}
+                  {hovered.spreadPercentage !== null
+                    ? `${hovered.spreadPercentage.toFixed(2)}%`
+                    : "—"}
+                </div>
+                {referenceRates.map((reference, index) => (
+                  <div
+                    key={reference.provider}
+                    style={{ color: getReferenceColor(index) }}
+                  >
+                    vs {reference.name}:{" "}
+                    {hovered.bestBuy !== null
+                      ? formatPremium(hovered.bestBuy, reference.rate)
+                      : "—"}{" "}
+                    /{" "}
+                    {hovered.bestSell !== null
+                      ? formatPremium(hovered.bestSell, reference.rate)
+                      : "—"}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-4 mt-2 text-xs text-gray-600">
+              <span className="flex items-center gap-1">
+                <span className="inline-block w-3 h-0.5 bg-green-700"></span>
+                Best Buy
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="inline-block w-3 h-0.5 bg-red-700"></span>
+                Best Sell
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="inline-block w-3 h-0.5 bg-blue-700"></span>
+                Spread %
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="inline-block w-3 border-t border-dashed border-blue-300"></span>
+                Auto-refresh
+              </span>
+              {referenceRates.map((reference, index) => (
+                <span
+                  key={reference.provider}
+                  className="flex items-center gap-1"
+                >
+                  <span
+                    className="inline-block w-3 border-t border-dashed"
+                    style={{ borderColor: getReferenceColor(index) }}
+                  ></span>
+                  {reference.name} ({formatPrice(reference.rate)}, current)
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,4 +1,21 @@
+import { ReactNode, useMemo } from "react"
 import { PriceData } from "@/lib/types"
+import {
+  formatAssetAmount,
+  formatFiat,
+  getExchangeName,
+  getFiatLocale
+} from "@/lib/markets"
+import {
+  applyOfferTable,
+  OFFER_COLUMNS,
+  OfferColumn,
+  PAGE_SIZES,
+  paginate,
+  SORTABLE_COLUMNS,
+  toggleSort
+} from "@/lib/offer-table"
+import { useOfferTableState } from "@/hooks/useOfferTableState"
 import {
   Table,
   TableBody,
@@ -8,33 +25,56 @@ import {
   TableRow
 } from "@/components/ui/table"
 import { Badge } from "@/components/ui/badge"
+import { TrustBadge } from "@/components/TrustBadge"
 import { Skeleton } from "@/components/ui/skeleton"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { ExportButtons } from "@/components/ExportButtons"
+import { exportOffers } from "@/lib/export"
 
 interface PriceListProps {
-  prices: PriceData[]
+  prices: PriceData[] // already filtered by the shared filter bar
   loading: boolean
   tradeType: "BUY" | "SELL"
+  asset: string
+  fiat: string
+  updatedAt?: Date | null // when the offers were fetched, for exports
 }
 
 /**
- * Displays a list of P2P prices in a table format
+ * Displays P2P offers in a table with sortable columns, column visibility
+ * and pagination, all kept in the URL
  */
-export function PriceList({ prices, loading, tradeType }: PriceListProps) {
-  const formatPrice = (price: number) => {
-    return new Intl.NumberFormat("es-VE", {
-      style: "currency",
-      currency: "VES",
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2
-    }).format(price)
-  }
+export function PriceList({
+  prices,
+  loading,
+  tradeType,
+  asset,
+  fiat,
+  updatedAt
+}: PriceListProps) {
+  const { state, update, reset } = useOfferTableState()
+
+  const sortedPrices = useMemo(
+    () => applyOfferTable(prices, state),
+    [prices, state]
+  )
+  const { rows, page, pageCount } = paginate(
+    sortedPrices,
+    state.page,
+    state.pageSize
+  )
 
-  const formatAmount = (amount: number) => {
-    return new Intl.NumberFormat("en-US", {
+  const formatPrice = (price: number) => formatFiat(price, fiat)
+
+  const formatAmount = (amount: number) => formatAssetAmount(amount, asset)
+
+  // Order limits are in fiat, shown without the currency symbol
+  const formatLimit = (amount: number) =>
+    new Intl.NumberFormat(getFiatLocale(fiat), {
       minimumFractionDigits: 2,
       maximumFractionDigits: 2
     }).format(amount)
-  }
 
   const getTradeTypeColor = (type: "BUY" | "SELL") => {
     return type === "BUY"
@@ -42,6 +82,90 @@ export function PriceList({ prices, loading, tradeType }: PriceListProps) {
       : "bg-red-100 text-red-800"
   }
 
+  const toggleColumn = (column: OfferColumn) =>
+    update({
+      hiddenColumns: state.hiddenColumns.includes(column)
+        ? state.hiddenColumns.filter(hidden => hidden !== column)
+        : [...state.hiddenColumns, column],
+      page
+    })
+
+  const visibleColumns = (Object.keys(OFFER_COLUMNS) as OfferColumn[]).filter(
+    column => !state.hiddenColumns.includes(column)
+  )
+
+  const renderCell: Record<OfferColumn, (price: PriceData) => ReactNode> = {
+    price: price => (
+      <span className="font-medium">{formatPrice(price.price)}</span>
+    ),
+    available: price => (
+      <>
+        {formatAmount(price.amount)} {asset}
+      </>
+    ),
+    limits: price => (
+      <span className="text-sm text-gray-600">
+        {formatLimit(price.limits.minFiat)} –{" "}
+        {formatLimit(price.limits.maxFiat)}
+      </span>
+    ),
+    trader: price => (
+      <div className="max-w-[120px] truncate" title={price.advertiser.name}>
+        {price.advertiser.name}
+      </div>
+    ),
+    exchange: price => (
+      <Badge variant="secondary" className="text-xs">
+        {getExchangeName(price.source)}
+      </Badge>
+    ),
+    rating: price => (
+      <span className="text-sm">{price.advertiser.rating.toFixed(1)}%</span>
+    ),
+    orders: price => price.advertiser.orderCount,
+    completion: price => (
+      <span className="text-sm">
+        {price.advertiser.completionRate.toFixed(1)}%
+      </span>
+    ),
+    trust: price => <TrustBadge advertiser={price.advertiser} />,
+    paymentMethods: price => (
+      <div className="flex flex-wrap gap-1 max-w-[200px]">
+        {price.paymentMethods.slice(0, 2).map((method, methodIndex) => (
+          <Badge key={methodIndex} variant="outline" className="text-xs">
+            {method.payBank || method.payType}
+          </Badge>
+        ))}
+        {price.paymentMethods.length > 2 && (
+          <Badge variant="outline" className="text-xs">
+            +{price.paymentMethods.length - 2}
+          </Badge>
+        )}
+      </div>
+    )
+  }
+
+  const renderHead = (column: OfferColumn) => {
+    const sortKey = SORTABLE_COLUMNS[column]
+    if (!sortKey) return OFFER_COLUMNS[column]
+
+    const active = state.sort?.key === sortKey
+    return (
+      <button
+        type="button"
+        onClick={() => update({ sort: toggleSort(state.sort, sortKey) })}
+        className={`flex items-center gap-1 hover:text-gray-900 ${
+          active ? "text-gray-900" : ""
+        }`}
+      >
+        {OFFER_COLUMNS[column]}
+        <span className="text-xs">
+          {active ? (state.sort?.direction === "asc" ? "▲" : "▼") : "↕"}
+        </span>
+      </button>
+    )
+  }
+
   if (loading) {
     return (
       <div className="space-y-4">
@@ -99,75 +223,108 @@ export function PriceList({ prices, loading, tradeType }: PriceListProps) {
 
   return (
     <div className="space-y-4">
-      <div className="flex items-center gap-2 mb-4">
-        <Badge className={getTradeTypeColor(tradeType)}>{tradeType}</Badge>
-        <span className="text-sm text-gray-600">
-          {prices.length} offers available
-        </span>
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <div className="flex items-center gap-2">
+          <Badge className={getTradeTypeColor(tradeType)}>{tradeType}</Badge>
+          <span className="text-sm text-gray-600">
+            {prices.length} offers available
+          </span>
+        </div>
+        <ExportButtons
+          name={["offers", asset, fiat, tradeType]}
+          getContent={(format, exportedAt) =>
+            exportOffers(
+              sortedPrices,
+              {
+                asset,
+                fiat,
+                timestamp: (updatedAt ?? exportedAt).toISOString()
+              },
+              format
+            )
+          }
+          disabled={sortedPrices.length === 0}
+        />
+      </div>
+
+      {/* Column visibility */}
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm">
+        <span className="text-gray-600">Columns:</span>
+        {(Object.keys(OFFER_COLUMNS) as OfferColumn[]).map(column => (
+          <label key={column} className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={!state.hiddenColumns.includes(column)}
+              onChange={() => toggleColumn(column)}
+            />
+            {OFFER_COLUMNS[column]}
+          </label>
+        ))}
+        <Button variant="ghost" size="sm" onClick={reset}>
+          Reset table
+        </Button>
       </div>
 
       <Table>
         <TableHeader>
           <TableRow>
-            <TableHead>Price</TableHead>
-            <TableHead>Available</TableHead>
-            <TableHead>Trader</TableHead>
-            <TableHead>Rating</TableHead>
-            <TableHead>Orders</TableHead>
-            <TableHead>Completion</TableHead>
-            <TableHead>Payment Methods</TableHead>
+            {visibleColumns.map(column => (
+              <TableHead key={column}>{renderHead(column)}</TableHead>
+            ))}
           </TableRow>
         </TableHeader>
         <TableBody>
-          {prices.map((price, index) => (
+          {rows.map((price, index) => (
             <TableRow key={index} className="hover:bg-gray-50">
-              <TableCell className="font-medium">
-                {formatPrice(price.price)}
-              </TableCell>
-              <TableCell>{formatAmount(price.amount)} USDT</TableCell>
-              <TableCell>
-                <div
-                  className="max-w-[120px] truncate"
-                  title={price.advertiser.name}
-                >
-                  {price.advertiser.name}
-                </div>
-              </TableCell>
-              <TableCell>
-                <span className="text-sm">
-                  {price.advertiser.rating.toFixed(1)}%
-                </span>
-              </TableCell>
-              <TableCell>{price.advertiser.orderCount}</TableCell>
-              <TableCell>
-                <span className="text-sm">
-                  {price.advertiser.completionRate.toFixed(1)}%
-                </span>
-              </TableCell>
-              <TableCell>
-                <div className="flex flex-wrap gap-1 max-w-[200px]">
-                  {price.paymentMethods
-                    .slice(0, 2)
-                    .map((method, methodIndex) => (
-                      <Badge
-                        key={methodIndex}
-                        variant="outline"
-                        className="text-xs"
-                      >
-                        {method.payBank || method.payType}
-                      </Badge>
-                    ))}
-                  {price.paymentMethods.length > 2 && (
-                    <Badge variant="outline" className="text-xs">
-                      +{price.paymentMethods.length - 2}
-                    </Badge>
-                  )}
-                </div>
-              </TableCell>
+              {visibleColumns.map(column => (
+                <TableCell key={column}>{renderCell[column](price)}</TableCell>
+              ))}
             </TableRow>
           ))}
         </TableBody>
       </Table>
+
+      {/* Pagination */}
+      {sortedPrices.length > PAGE_SIZES[0] && (
+        <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+          <div className="flex items-center gap-2">
+            <Label htmlFor="table-page-size">Rows per page</Label>
+            <select
+              id="table-page-size"
+              value={state.pageSize}
+              onChange={e => update({ pageSize: Number(e.target.value) })}
+              className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {PAGE_SIZES.map(size => (
+                <option key={size} value={size}>
+                  {size}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => update({ page: page - 1 })}
+              disabled={page <= 1}
+            >
+              Previous
+            </Button>
+            <span className="text-gray-600">
+              Page {page} of {pageCount}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => update({ page: page + 1 })}
+              disabled={page >= pageCount}
+            >
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
     </div>
   )
 }
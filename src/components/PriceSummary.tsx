@@ -1,4 +1,7 @@
 import { PriceData } from "@/lib/types"
+import { calculateSpread } from "@/lib/price-stats"
+import { formatFiat } from "@/lib/markets"
+import { formatPremium, ReferenceRate } from "@/lib/reference-rates"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 
@@ -6,35 +9,27 @@ interface PriceSummaryProps {
   bestBuy: PriceData | null
   bestSell: PriceData | null
   loading: boolean
+  fiat: string
+  referenceRates?: ReferenceRate[]
 }
 
 /**
- * Displays a summary of the best buy and sell prices
+ * Displays a summary of the best buy and sell prices, and their premium over
+ * each reference rate
  */
 export function PriceSummary({
   bestBuy,
   bestSell,
-  loading
+  loading,
+  fiat,
+  referenceRates = []
 }: PriceSummaryProps) {
-  const formatPrice = (price: number) => {
-    return new Intl.NumberFormat("es-VE", {
-      style: "currency",
-      currency: "VES",
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2
-    }).format(price)
-  }
-
-  const calculateSpread = () => {
-    if (!bestBuy || !bestSell) return null
-    const spread = bestSell.price - bestBuy.price
-    const spreadPercentage = (spread / bestBuy.price) * 100
-    return { spread, spreadPercentage }
-  }
+  const formatPrice = (price: number) => formatFiat(price, fiat)
 
   const hasAnyData = bestBuy || bestSell
 
-  const spread = calculateSpread()
+  const spread =
+    bestBuy && bestSell ? calculateSpread(bestBuy.price, bestSell.price) : null
 
   if (loading) {
     return (
@@ -162,6 +157,47 @@ export function PriceSummary({
           )}
         </CardContent>
       </Card>
+
+      {referenceRates.length > 0 && (
+        <Card className="md:col-span-3">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">
+              Premium vs Reference Rates
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {referenceRates.map(reference => (
+                <div key={reference.provider} className="space-y-1">
+                  <div className="flex items-baseline justify-between gap-2">
+                    <span className="font-medium">{reference.name}</span>
+                    <span className="text-lg font-bold">
+                      {formatPrice(reference.rate)}
+                    </span>
+                  </div>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-green-700">
+                      Buy{" "}
+                      {bestBuy
+                        ? formatPremium(bestBuy.price, reference.rate)
+                        : "—"}
+                    </span>
+                    <span className="text-red-700">
+                      Sell{" "}
+                      {bestSell
+                        ? formatPremium(bestSell.price, reference.rate)
+                        : "—"}
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    Updated {new Date(reference.updatedAt).toLocaleString()}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   )
 }
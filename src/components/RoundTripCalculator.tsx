@@ -0,0 +1,312 @@
+import { useState, useMemo } from "react"
+import { useDebouncedValue } from "@/hooks/useDebouncedValue"
+import { PriceData, TrustFilters } from "@/lib/types"
+import { calculateRoundTrip, RoundTripBudget } from "@/lib/round-trip"
+import { RouteObjective } from "@/lib/route-scoring"
+import { TradingRoute } from "@/lib/trading-calculator"
+import { formatAssetAmount, formatFiat } from "@/lib/markets"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+
+interface RoundTripCalculatorProps {
+  buyPrices: PriceData[]
+  sellPrices: PriceData[]
+  asset: string
+  fiat: string
+  trustFilters: TrustFilters
+  objective: RouteObjective
+}
+
+/**
+ * Buy-then-sell cycle on the current pair: both routes, net profit after
+ * fees and how large the cycle can grow before it stops paying
+ */
+export function RoundTripCalculator({
+  buyPrices,
+  sellPrices,
+  asset,
+  fiat,
+  trustFilters,
+  objective
+}: RoundTripCalculatorProps) {
+  const [budgetAmount, setBudgetAmount] = useState("")
+  const [budgetCurrency, setBudgetCurrency] =
+    useState<RoundTripBudget["currency"]>("ASSET")
+  const [buyFeePercent, setBuyFeePercent] = useState("0")
+  const [sellFeePercent, setSellFeePercent] = useState("0")
+  const [fixedFee, setFixedFee] = useState("0")
+  // Both routes are re-solved on every change, so wait for typing to pause
+  const debouncedAmount = useDebouncedValue(budgetAmount)
+  const debouncedBuyFee = useDebouncedValue(buyFeePercent)
+  const debouncedSellFee = useDebouncedValue(sellFeePercent)
+  const debouncedFixedFee = useDebouncedValue(fixedFee)
+
+  const formatPrice = (price: number) => formatFiat(price, fiat)
+  const formatAmount = (amount: number) =>
+    `${formatAssetAmount(amount, asset)} ${asset}`
+
+  const calculation = useMemo(() => {
+    const amount = parseFloat(debouncedAmount)
+    if (isNaN(amount) || amount <= 0) return null
+
+    try {
+      return {
+        result: calculateRoundTrip(
+          buyPrices,
+          sellPrices,
+          { amount, currency: budgetCurrency },
+          {
+            buyFeePercent: parseFloat(debouncedBuyFee) || 0,
+            sellFeePercent: parseFloat(debouncedSellFee) || 0,
+            fixedFee: parseFloat(debouncedFixedFee) || 0
+          },
+          { pair: { asset, fiat }, trustFilters, objective }
+        ),
+        error: null
+      }
+    } catch (error) {
+      return {
+        result: null,
+        error:
+          error instanceof Error ? error.message : "Round trip not possible"
+      }
+    }
+  }, [
+    debouncedAmount,
+    budgetCurrency,
+    debouncedBuyFee,
+    debouncedSellFee,
+    debouncedFixedFee,
+    buyPrices,
+    sellPrices,
+    asset,
+    fiat,
+    trustFilters,
+    objective
+  ])
+
+  const result = calculation?.result
+  const profitable = result ? result.netProfit > 0 : false
+
+  const renderRoute = (title: string, route: TradingRoute) => (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-md">
+          {title} ({route.offers.length} offers)
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2 text-sm">
+        {route.offers.map((offer, index) => (
+          <div key={index} className="flex justify-between gap-4">
+            <span className="truncate">{offer.advertiser.name}</span>
+            <span className="text-gray-600 whitespace-nowrap">
+              {formatAmount(offer.amount)} @ {formatPrice(offer.price)}
+            </span>
+          </div>
+        ))}
+        <div className="flex justify-between pt-2 border-t font-medium">
+          <span>Average price</span>
+          <span>{formatPrice(route.averagePrice)}</span>
+        </div>
+      </CardContent>
+    </Card>
+  )
+
+  return (
+    <div className="space-y-6">
+      {/* Inputs */}
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+        <div>
+          <Label htmlFor="round-trip-budget">
+            Budget ({budgetCurrency === "ASSET" ? asset : fiat})
+          </Label>
+          <Input
+            id="round-trip-budget"
+            type="number"
+            value={budgetAmount}
+            onChange={e => setBudgetAmount(e.target.value)}
+            placeholder={budgetCurrency === "ASSET" ? "200" : "10000"}
+            min="0"
+            step="0.01"
+          />
+        </div>
+        <div>
+          <Label htmlFor="round-trip-currency">Budget In</Label>
+          <select
+            id="round-trip-currency"
+            value={budgetCurrency}
+            onChange={e =>
+              setBudgetCurrency(e.target.value as RoundTripBudget["currency"])
+            }
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="ASSET">{asset}</option>
+            <option value="FIAT">{fiat}</option>
+          </select>
+        </div>
+        <div>
+          <Label htmlFor="round-trip-buy-fee">Buy fee (%)</Label>
+          <Input
+            id="round-trip-buy-fee"
+            type="number"
+            value={buyFeePercent}
+            onChange={e => setBuyFeePercent(e.target.value)}
+            min="0"
+            step="0.01"
+          />
+        </div>
+        <div>
+          <Label htmlFor="round-trip-sell-fee">Sell fee (%)</Label>
+          <Input
+            id="round-trip-sell-fee"
+            type="number"
+            value={sellFeePercent}
+            onChange={e => setSellFeePercent(e.target.value)}
+            min="0"
+            step="0.01"
+          />
+        </div>
+        <div>
+          <Label htmlFor="round-trip-fixed-fee">Fixed fee ({fiat})</Label>
+          <Input
+            id="round-trip-fixed-fee"
+            type="number"
+            value={fixedFee}
+            onChange={e => setFixedFee(e.target.value)}
+            min="0"
+            step="0.01"
+          />
+        </div>
+      </div>
+
+      {!calculation ? (
+        <p className="text-sm text-gray-600">
+          Enter a budget to buy {asset} with {fiat} and sell it straight back,
+          using the buy and sell offers currently loaded.
+        </p>
+      ) : !result ? (
+        <div className="text-center py-8 text-gray-500">
+          <p>Unable to calculate a round trip.</p>
+          <p className="text-sm mt-1">{calculation.error}</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {/* Cycle summary */}
+          <Card
+            className={
+              profitable
+                ? "border-green-200 bg-green-50"
+                : "border-red-200 bg-red-50"
+            }
+          >
+            <CardHeader className="pb-3">
+              <CardTitle
+                className={`text-lg flex items-center gap-2 ${
+                  profitable ? "text-green-800" : "text-red-800"
+                }`}
+              >
+                <span>🔁 Round Trip of {formatAmount(result.amount)}</span>
+                <Badge variant="outline">
+                  {profitable ? "Profitable" : "Not profitable"}
+                </Badge>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div>
+                  <div className="text-sm text-gray-600">Buy cost</div>
+                  <div className="text-lg font-bold">
+                    {formatPrice(result.buyCost)}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-sm text-gray-600">Sell proceeds</div>
+                  <div className="text-lg font-bold">
+                    {formatPrice(result.sellProceeds)}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-sm text-gray-600">Fees</div>
+                  <div className="text-lg font-bold">
+                    {formatPrice(result.totalFees)}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-sm text-gray-600">Net profit</div>
+                  <div
+                    className={`text-lg font-bold ${
+                      profitable ? "text-green-700" : "text-red-700"
+                    }`}
+                  >
+                    {formatPrice(result.netProfit)} (
+                    {result.profitPercentage.toFixed(2)}%)
+                  </div>
+                </div>
+                <div>
+                  <div className="text-sm text-gray-600">Route spread</div>
+                  <div className="font-medium">
+                    {result.spreadPercentage.toFixed(2)}%
+                  </div>
+                </div>
+                <div>
+                  <div className="text-sm text-gray-600">Break-even spread</div>
+                  <div className="font-medium">
+                    {result.breakEvenSpreadPercentage.toFixed(2)}%
+                  </div>
+                </div>
+                <div>
+                  <div className="text-sm text-gray-600">Most profitable</div>
+                  <div className="font-medium">
+                    {result.profitability.maxProfit > 0
+                      ? `${formatAmount(
+                          result.profitability.optimalAmount
+                        )} → ${formatPrice(result.profitability.maxProfit)}`
+                      : "—"}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-sm text-gray-600">Profitable up to</div>
+                  <div className="font-medium">
+                    {result.profitability.maxProfitableAmount !== null
+                      ? `${formatAmount(
+                          result.profitability.maxProfitableAmount
+                        )}${
+                          result.profitability.limitedByDepth
+                            ? " (all loaded depth)"
+                            : ""
+                        }`
+                      : "Not at any size"}
+                  </div>
+                </div>
+              </div>
+              <p className="text-xs text-gray-500 mt-3">
+                Size limits are estimated from the loaded offers best price
+                first, ignoring minimum order limits.
+                {result.profitability.minProfitableAmount !== null &&
+                  result.profitability.minProfitableAmount > 0 &&
+                  ` Cycles below ${formatAmount(
+                    result.profitability.minProfitableAmount
+                  )} do not cover the fixed fee.`}
+              </p>
+            </CardContent>
+          </Card>
+
+          {/* Routes */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {renderRoute(`🟢 Buy ${asset}`, result.buyRoute)}
+            {renderRoute(`🔴 Sell ${asset}`, result.sellRoute)}
+          </div>
+
+          {result.rejectedOffers.length > 0 && (
+            <p className="text-sm text-yellow-800">
+              🚫 {result.rejectedOffers.length} offers skipped for their order
+              limits or trust filters.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,5 +1,7 @@
-import { useState, useMemo } from "react"
-import { PriceData } from "@/lib/types"
+import { useState, useMemo, useEffect, useRef } from "react"
+import { OfferFilters, PriceData } from "@/lib/types"
+import { fetchP2PDepth, MarketDepth } from "@/lib/binance-api"
+import { filterOffers } from "@/lib/filters"
 import {
   calculateBestTradingRoute,
   formatTradingRoute,
@@ -10,43 +12,128 @@ import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
+import { RoundTripCalculator } from "@/components/RoundTripCalculator"
+import { ExportButtons } from "@/components/ExportButtons"
+import { exportRoutes } from "@/lib/export"
+import { formatAssetAmount, formatFiat } from "@/lib/markets"
+import {
+  RouteFactor,
+  RouteFactorScore,
+  RouteObjectiveName,
+  ROUTE_FACTOR_LABELS,
+  ROUTE_OBJECTIVES
+} from "@/lib/route-scoring"
 
 interface TradingCalculatorProps {
-  prices: PriceData[]
+  prices: PriceData[] // already filtered, like buyPrices and sellPrices
+  buyPrices: PriceData[]
+  sellPrices: PriceData[]
   tradeType: "BUY" | "SELL"
   loading: boolean
+  asset: string
+  fiat: string
+  exchange: string
+  filters: OfferFilters // the shared filter bar, also applied to deep searches
+}
+
+// Deep searches aim for this multiple of the target so order limits still
+// leave enough usable offers
+const DEPTH_VOLUME_MARGIN = 2
+const DEPTH_MAX_PAGES = 10
+
+const OBJECTIVE_LABELS: Record<RouteObjectiveName, string> = {
+  balanced: "Balanced",
+  cheapest: "Cheapest",
+  safest: "Safest"
+}
+
+/**
+ * Describes the raw measure behind a route factor
+ */
+function formatFactorValue(factor: RouteFactor, { value }: RouteFactorScore) {
+  switch (factor) {
+    case "price":
+      return `+${value.toFixed(2)}% vs best price`
+    case "counterparties":
+      return `${value} advertiser${value === 1 ? "" : "s"}`
+    case "completionRate":
+      return `${value.toFixed(1)}% completion`
+    case "payTime":
+      return `${Math.round(value)} min to pay`
+  }
 }
 
 export function TradingCalculator({
   prices,
+  buyPrices,
+  sellPrices,
   tradeType,
-  loading
+  loading,
+  asset,
+  fiat,
+  exchange,
+  filters
 }: TradingCalculatorProps) {
   const [targetAmount, setTargetAmount] = useState("200")
   const [selectedBank, setSelectedBank] = useState<string>("")
+  const [objective, setObjective] = useState<RouteObjectiveName>("balanced")
+  const [mode, setMode] = useState<"single" | "roundTrip">("single")
   const [showCalculator, setShowCalculator] = useState(false)
+  const [depth, setDepth] = useState<MarketDepth | null>(null)
+  const [loadingDepth, setLoadingDepth] = useState(false)
+  const [depthError, setDepthError] = useState<string | null>(null)
+  // Ignore deep searches superseded by a newer one or by a reset
+  const depthRequestRef = useRef(0)
+
+  // A deep search only applies to the market and filters it was made for
+  useEffect(() => {
+    depthRequestRef.current++
+    setDepth(null)
+    setDepthError(null)
+    setLoadingDepth(false)
+  }, [asset, fiat, exchange, tradeType, selectedBank, filters])
+
+  // Deep searches return the raw book, so the filter bar applies here too
+  const offers = useMemo(
+    () =>
+      depth ? filterOffers(depth.prices, { tradeType, ...filters }) : prices,
+    [depth, prices, tradeType, filters]
+  )
 
   // Get available banks from current prices
-  const availableBanks = useMemo(() => getAvailableBanks(prices), [prices])
+  const availableBanks = useMemo(() => getAvailableBanks(offers), [offers])
 
   const calculationResult = useMemo(() => {
-    if (!showCalculator || loading || prices.length === 0) return null
+    if (!showCalculator || loading || offers.length === 0) return null
 
     try {
       const amount = parseFloat(targetAmount)
       if (isNaN(amount) || amount <= 0) return null
 
       return calculateBestTradingRoute(
-        prices,
+        offers,
         amount,
         5,
-        selectedBank || undefined
+        selectedBank || undefined,
+        { asset, fiat },
+        filters,
+        ROUTE_OBJECTIVES[objective]
       )
     } catch (error) {
       console.error("Trading calculation error:", error)
       return null
     }
-  }, [targetAmount, selectedBank, prices, showCalculator, loading])
+  }, [
+    targetAmount,
+    selectedBank,
+    offers,
+    showCalculator,
+    loading,
+    asset,
+    fiat,
+    filters,
+    objective
+  ])
 
   const handleCalculate = () => {
     setShowCalculator(true)
@@ -56,6 +143,57 @@ export function TradingCalculator({
     setShowCalculator(false)
     setTargetAmount("200")
     setSelectedBank("")
+    setObjective("balanced")
+    depthRequestRef.current++
+    setDepth(null)
+    setDepthError(null)
+    setLoadingDepth(false)
+  }
+
+  const handleSearchDeeper = async () => {
+    const amount = parseFloat(targetAmount)
+    if (isNaN(amount) || amount <= 0) return
+
+    // Let Binance filter by bank and merchant status so every page walked
+    // holds usable offers; the bank's pay types come from the loaded offers
+    const payTypes = selectedBank
+      ? Array.from(
+          new Set(
+            offers
+              .flatMap(offer => offer.paymentMethods)
+              .filter(
+                method => (method.payBank || method.payType) === selectedBank
+              )
+              .map(method => method.payType)
+          )
+        )
+      : []
+
+    const requestId = ++depthRequestRef.current
+    setLoadingDepth(true)
+    setDepthError(null)
+    try {
+      const result = await fetchP2PDepth(
+        asset,
+        fiat,
+        tradeType,
+        amount * DEPTH_VOLUME_MARGIN,
+        DEPTH_MAX_PAGES,
+        {
+          payTypes,
+          publisherType: filters.merchantsOnly ? "merchant" : null
+        },
+        exchange
+      )
+      if (requestId === depthRequestRef.current) setDepth(result)
+    } catch (error) {
+      if (requestId !== depthRequestRef.current) return
+      setDepthError(
+        error instanceof Error ? error.message : "Failed to load market depth"
+      )
+    } finally {
+      if (requestId === depthRequestRef.current) setLoadingDepth(false)
+    }
   }
 
   if (loading) {
@@ -77,25 +215,60 @@ export function TradingCalculator({
   return (
     <Card className="mb-6">
       <CardHeader>
-        <CardTitle className="text-lg flex items-center gap-2">
-          <span>💰 Trading Calculator</span>
-          <Badge variant="outline">
-            {tradeType} {targetAmount} USDT
-          </Badge>
-          {selectedBank && (
-            <Badge variant="secondary" className="bg-blue-100 text-blue-800">
-              🏦 {selectedBank}
-            </Badge>
-          )}
-        </CardTitle>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <span>💰 Trading Calculator</span>
+            {mode === "single" ? (
+              <Badge variant="outline">
+                {tradeType} {targetAmount} {asset}
+              </Badge>
+            ) : (
+              <Badge variant="outline">
+                Routes: {OBJECTIVE_LABELS[objective]}
+              </Badge>
+            )}
+            {mode === "single" && selectedBank && (
+              <Badge variant="secondary" className="bg-blue-100 text-blue-800">
+                🏦 {selectedBank}
+              </Badge>
+            )}
+          </CardTitle>
+          <div className="flex rounded-lg border">
+            <Button
+              variant={mode === "single" ? "default" : "ghost"}
+              size="sm"
+              onClick={() => setMode("single")}
+              className="rounded-r-none"
+            >
+              Single Trade
+            </Button>
+            <Button
+              variant={mode === "roundTrip" ? "default" : "ghost"}
+              size="sm"
+              onClick={() => setMode("roundTrip")}
+              className="rounded-l-none"
+            >
+              Round Trip
+            </Button>
+          </div>
+        </div>
       </CardHeader>
       <CardContent>
-        {!showCalculator ? (
+        {mode === "roundTrip" ? (
+          <RoundTripCalculator
+            buyPrices={buyPrices}
+            sellPrices={sellPrices}
+            asset={asset}
+            fiat={fiat}
+            trustFilters={filters}
+            objective={ROUTE_OBJECTIVES[objective]}
+          />
+        ) : !showCalculator ? (
           <div className="space-y-4">
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
               <div>
                 <Label htmlFor="amount">
-                  Amount to {tradeType.toLowerCase()} (USDT)
+                  Amount to {tradeType.toLowerCase()} ({asset})
                 </Label>
                 <Input
                   id="amount"
@@ -123,6 +296,25 @@ export function TradingCalculator({
                   ))}
                 </select>
               </div>
+              <div>
+                <Label htmlFor="objective">Rank Routes By</Label>
+                <select
+                  id="objective"
+                  value={objective}
+                  onChange={e =>
+                    setObjective(e.target.value as RouteObjectiveName)
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {(Object.keys(OBJECTIVE_LABELS) as RouteObjectiveName[]).map(
+                    option => (
+                      <option key={option} value={option}>
+                        {OBJECTIVE_LABELS[option]}
+                      </option>
+                    )
+                  )}
+                </select>
+              </div>
               <div className="flex items-end">
                 <Button onClick={handleCalculate} className="w-full">
                   Calculate Best Route
@@ -130,8 +322,9 @@ export function TradingCalculator({
               </div>
             </div>
             <p className="text-sm text-gray-600">
-              Find the most cost-effective combination of offers for your trade
-              amount.
+              Find the best combination of offers for your trade amount,
+              weighing price against the number and reliability of
+              counterparties.
               {selectedBank && (
                 <span className="block mt-1 text-blue-600">
                   🔍 Filtering for: <strong>{selectedBank}</strong>
@@ -142,9 +335,9 @@ export function TradingCalculator({
         ) : (
           <div className="space-y-6">
             {/* Input Controls */}
-            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
               <div>
-                <Label htmlFor="amount-edit">Amount (USDT)</Label>
+                <Label htmlFor="amount-edit">Amount ({asset})</Label>
                 <Input
                   id="amount-edit"
                   type="number"
@@ -171,6 +364,25 @@ export function TradingCalculator({
                   ))}
                 </select>
               </div>
+              <div>
+                <Label htmlFor="objective-edit">Rank Routes By</Label>
+                <select
+                  id="objective-edit"
+                  value={objective}
+                  onChange={e =>
+                    setObjective(e.target.value as RouteObjectiveName)
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {(Object.keys(OBJECTIVE_LABELS) as RouteObjectiveName[]).map(
+                    option => (
+                      <option key={option} value={option}>
+                        {OBJECTIVE_LABELS[option]}
+                      </option>
+                    )
+                  )}
+                </select>
+              </div>
               <Button
                 onClick={handleCalculate}
                 variant="outline"
@@ -187,15 +399,56 @@ export function TradingCalculator({
               </Button>
             </div>
 
+            {/* Order book depth in use */}
+            {(depth || depthError) && (
+              <div className="flex items-center justify-between text-sm">
+                {depth ? (
+                  <span className="text-blue-700">
+                    🔎 Using {depth.prices.length} offers (
+                    {formatAssetAmount(depth.volume, asset)} {asset}) from{" "}
+                    {depth.pages} pages of the order book
+                    {depth.exhausted && " — the whole book"}
+                  </span>
+                ) : (
+                  <span className="text-red-600">{depthError}</span>
+                )}
+                {depth && (
+                  <Button
+                    onClick={() => setDepth(null)}
+                    variant="ghost"
+                    size="sm"
+                  >
+                    Use top offers only
+                  </Button>
+                )}
+              </div>
+            )}
+
             {/* Results */}
             {calculationResult ? (
               <div className="space-y-4">
                 {/* Best Route Summary */}
                 <Card className="border-green-200 bg-green-50">
                   <CardHeader className="pb-3">
-                    <CardTitle className="text-lg text-green-800">
-                      🎯 Best Trading Route
-                    </CardTitle>
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <CardTitle className="text-lg text-green-800">
+                        🎯 Best Trading Route
+                      </CardTitle>
+                      <ExportButtons
+                        name={["routes", asset, fiat, tradeType]}
+                        getContent={(format, exportedAt) =>
+                          exportRoutes(
+                            calculationResult,
+                            {
+                              asset,
+                              fiat,
+                              timestamp: exportedAt.toISOString()
+                            },
+                            format
+                          )
+                        }
+                      />
+                    </div>
                   </CardHeader>
                   <CardContent>
                     <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
@@ -203,8 +456,10 @@ export function TradingCalculator({
                         <div className="text-sm text-gray-600">Total Cost</div>
                         <div className="text-lg font-bold text-green-700">
                           {
-                            formatTradingRoute(calculationResult.bestRoute)
-                              .totalCost
+                            formatTradingRoute(
+                              calculationResult.bestRoute,
+                              fiat
+                            ).totalCost
                           }
                         </div>
                       </div>
@@ -214,8 +469,10 @@ export function TradingCalculator({
                         </div>
                         <div className="text-lg font-bold text-green-700">
                           {
-                            formatTradingRoute(calculationResult.bestRoute)
-                              .averagePrice
+                            formatTradingRoute(
+                              calculationResult.bestRoute,
+                              fiat
+                            ).averagePrice
                           }
                         </div>
                       </div>
@@ -223,8 +480,10 @@ export function TradingCalculator({
                         <div className="text-sm text-gray-600">Savings</div>
                         <div className="text-lg font-bold text-green-700">
                           {
-                            formatTradingRoute(calculationResult.bestRoute)
-                              .savings
+                            formatTradingRoute(
+                              calculationResult.bestRoute,
+                              fiat
+                            ).savings
                           }
                         </div>
                       </div>
@@ -232,12 +491,62 @@ export function TradingCalculator({
                         <div className="text-sm text-gray-600">Efficiency</div>
                         <div className="text-lg font-bold text-green-700">
                           {
-                            formatTradingRoute(calculationResult.bestRoute)
-                              .efficiency
+                            formatTradingRoute(
+                              calculationResult.bestRoute,
+                              fiat
+                            ).efficiency
                           }
                         </div>
                       </div>
                     </div>
+
+                    {/* Why this route won */}
+                    <div className="mt-4 pt-4 border-t border-green-200">
+                      <div className="flex items-center justify-between mb-2">
+                        <span className="text-sm font-medium text-green-800">
+                          Route score ({OBJECTIVE_LABELS[objective]})
+                        </span>
+                        <Badge className="bg-green-100 text-green-800">
+                          {calculationResult.bestRoute.score.total.toFixed(0)}
+                          /100
+                        </Badge>
+                      </div>
+                      <div className="space-y-2">
+                        {(
+                          Object.entries(
+                            calculationResult.bestRoute.score.factors
+                          ) as [RouteFactor, RouteFactorScore][]
+                        ).map(([factor, factorScore]) => (
+                          <div
+                            key={factor}
+                            className="grid grid-cols-12 items-center gap-2 text-sm"
+                          >
+                            <span className="col-span-3 text-gray-700">
+                              {ROUTE_FACTOR_LABELS[factor]}
+                            </span>
+                            <span className="col-span-4 text-gray-600">
+                              {formatFactorValue(factor, factorScore)}
+                            </span>
+                            <div className="col-span-3 h-2 bg-green-100 rounded">
+                              <div
+                                className="h-2 bg-green-600 rounded"
+                                style={{
+                                  width: `${factorScore.score * 100}%`
+                                }}
+                              ></div>
+                            </div>
+                            <span className="col-span-2 text-right text-gray-600">
+                              {(
+                                factorScore.score *
+                                factorScore.weight *
+                                100
+                              ).toFixed(1)}{" "}
+                              / {(factorScore.weight * 100).toFixed(0)}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
                   </CardContent>
                 </Card>
 
@@ -264,8 +573,8 @@ export function TradingCalculator({
                                   {offer.advertiser.name}
                                 </div>
                                 <div className="text-sm text-gray-600">
-                                  {offer.amount.toFixed(2)} USDT @{" "}
-                                  {offer.price.toFixed(2)} VES
+                                  {formatAssetAmount(offer.amount, asset)}{" "}
+                                  {asset} @ {formatFiat(offer.price, fiat)}
                                 </div>
                                 <div className="text-xs text-blue-600 mt-1">
                                   💳{" "}
@@ -279,11 +588,15 @@ export function TradingCalculator({
                             </div>
                             <div className="text-right">
                               <div className="font-medium">
-                                {(offer.amount * offer.price).toFixed(2)} VES
+                                {formatFiat(offer.amount * offer.price, fiat)}
                               </div>
                               <div className="text-sm text-gray-600">
                                 {offer.advertiser.rating.toFixed(1)}% rating
                               </div>
+                              <div className="text-xs text-gray-500">
+                                {offer.advertiser.completionRate.toFixed(1)}%
+                                completion • {offer.payTimeLimit} min to pay
+                              </div>
                             </div>
                           </div>
                         )
@@ -309,15 +622,20 @@ export function TradingCalculator({
                                 <span className="font-medium">
                                   Route {index + 2}
                                 </span>
-                                <Badge variant="outline">
-                                  {route.offers.length} offers
-                                </Badge>
+                                <div className="flex gap-2">
+                                  <Badge variant="outline">
+                                    {route.offers.length} offers
+                                  </Badge>
+                                  <Badge variant="secondary">
+                                    Score {route.score.total.toFixed(0)}
+                                  </Badge>
+                                </div>
                               </div>
                               <div className="grid grid-cols-3 gap-4 text-sm">
                                 <div>
                                   <span className="text-gray-600">Cost:</span>
                                   <div className="font-medium">
-                                    {formatTradingRoute(route).totalCost}
+                                    {formatTradingRoute(route, fiat).totalCost}
                                   </div>
                                 </div>
                                 <div>
@@ -325,7 +643,10 @@ export function TradingCalculator({
                                     Avg Price:
                                   </span>
                                   <div className="font-medium">
-                                    {formatTradingRoute(route).averagePrice}
+                                    {
+                                      formatTradingRoute(route, fiat)
+                                        .averagePrice
+                                    }
                                   </div>
                                 </div>
                                 <div>
@@ -333,7 +654,7 @@ export function TradingCalculator({
                                     Efficiency:
                                   </span>
                                   <div className="font-medium">
-                                    {formatTradingRoute(route).efficiency}
+                                    {formatTradingRoute(route, fiat).efficiency}
                                   </div>
                                 </div>
                               </div>
@@ -344,15 +665,64 @@ export function TradingCalculator({
                     </CardContent>
                   </Card>
                 )}
+
+                {/* Offers excluded by their order limits */}
+                {calculationResult.rejectedOffers.length > 0 && (
+                  <Card className="border-yellow-200 bg-yellow-50">
+                    <CardHeader>
+                      <CardTitle className="text-md text-yellow-800">
+                        🚫 Skipped Offers (
+                        {calculationResult.rejectedOffers.length})
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="space-y-2">
+                        {calculationResult.rejectedOffers.map(
+                          ({ offer, reason }, index) => (
+                            <div
+                              key={index}
+                              className="flex items-center justify-between text-sm"
+                            >
+                              <div>
+                                <span className="font-medium">
+                                  {offer.advertiser.name}
+                                </span>{" "}
+                                <span className="text-gray-600">
+                                  @ {formatFiat(offer.price, fiat)}
+                                </span>
+                              </div>
+                              <div className="text-yellow-800 text-right">
+                                {reason}
+                              </div>
+                            </div>
+                          )
+                        )}
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
               </div>
             ) : (
               <div className="text-center py-8 text-gray-500">
                 <p>
-                  Unable to calculate trading route for {targetAmount} USDT.
+                  Unable to calculate trading route for {targetAmount} {asset}.
                 </p>
                 <p className="text-sm mt-1">
                   Try a smaller amount or check available offers.
                 </p>
+                {!depth?.exhausted && (
+                  <Button
+                    onClick={handleSearchDeeper}
+                    variant="outline"
+                    size="sm"
+                    className="mt-4"
+                    disabled={loadingDepth}
+                  >
+                    {loadingDepth
+                      ? "Searching order book..."
+                      : "🔎 Search deeper order book"}
+                  </Button>
+                )}
               </div>
             )}
           </div>
@@ -0,0 +1,37 @@
+import { PriceData } from "@/lib/types"
+import { getTrustLevel, getTrustScore, TrustLevel } from "@/lib/reputation"
+import { Badge } from "@/components/ui/badge"
+
+interface TrustBadgeProps {
+  advertiser: PriceData["advertiser"]
+}
+
+const TRUST_LEVEL_COLORS: Record<TrustLevel, string> = {
+  high: "bg-green-100 text-green-800",
+  medium: "bg-yellow-100 text-yellow-800",
+  low: "bg-red-100 text-red-800"
+}
+
+/**
+ * Shows an advertiser's trust score, with the underlying figures on hover
+ */
+export function TrustBadge({ advertiser }: TrustBadgeProps) {
+  const score = getTrustScore(advertiser)
+  const details = [
+    advertiser.userType === "merchant" ? "Verified merchant" : "User",
+    `${advertiser.monthOrderCount} orders in 30 days`,
+    advertiser.advConfirmTime !== undefined
+      ? `Avg. release ${(advertiser.advConfirmTime / 60).toFixed(1)} min`
+      : "Release time unknown"
+  ]
+
+  return (
+    <Badge
+      className={TRUST_LEVEL_COLORS[getTrustLevel(score)]}
+      title={details.join(" • ")}
+    >
+      {advertiser.userType === "merchant" && "✓ "}
+      {score}
+    </Badge>
+  )
+}
@@ -0,0 +1,87 @@
+import { TrustFilters } from "@/lib/types"
+import { hasTrustFilters } from "@/lib/reputation"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+
+interface TrustFilterBarProps {
+  filters: TrustFilters
+  onChange: (filters: TrustFilters) => void
+}
+
+/**
+ * Parses an optional numeric input; empty or invalid input clears the filter
+ */
+function parseOptional(value: string): number | undefined {
+  const parsed = parseFloat(value)
+  return isNaN(parsed) ? undefined : parsed
+}
+
+/**
+ * Counterparty requirements applied to the offer views and the calculator
+ */
+export function TrustFilterBar({ filters, onChange }: TrustFilterBarProps) {
+  const update = (changes: TrustFilters) => onChange({ ...filters, ...changes })
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-5 gap-4 items-end">
+      <div>
+        <Label htmlFor="min-completion">Min completion (%)</Label>
+        <Input
+          id="min-completion"
+          type="number"
+          value={filters.minCompletionRate ?? ""}
+          onChange={e =>
+            update({ minCompletionRate: parseOptional(e.target.value) })
+          }
+          placeholder="Any"
+          min="0"
+          max="100"
+          step="1"
+        />
+      </div>
+      <div>
+        <Label htmlFor="min-orders">Min orders</Label>
+        <Input
+          id="min-orders"
+          type="number"
+          value={filters.minOrders ?? ""}
+          onChange={e => update({ minOrders: parseOptional(e.target.value) })}
+          placeholder="Any"
+          min="0"
+          step="1"
+        />
+      </div>
+      <div>
+        <Label htmlFor="max-confirm">Max release time (min)</Label>
+        <Input
+          id="max-confirm"
+          type="number"
+          value={filters.maxConfirmMinutes ?? ""}
+          onChange={e =>
+            update({ maxConfirmMinutes: parseOptional(e.target.value) })
+          }
+          placeholder="Any"
+          min="0"
+          step="1"
+        />
+      </div>
+      <label className="flex items-center gap-2 text-sm h-9">
+        <input
+          type="checkbox"
+          checked={Boolean(filters.merchantsOnly)}
+          onChange={e => update({ merchantsOnly: e.target.checked })}
+        />
+        Merchants only
+      </label>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onChange({})}
+        disabled={!hasTrustFilters(filters)}
+      >
+        Clear filters
+      </Button>
+    </div>
+  )
+}
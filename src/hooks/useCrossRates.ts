@@ -0,0 +1,81 @@
+import { useState, useEffect, useRef, useCallback } from "react"
+import { fetchP2PPrices } from "@/lib/binance-api"
+import { CrossRateFailure, CrossRateMarket } from "@/lib/cross-rates"
+import { SUPPORTED_ASSETS } from "@/lib/markets"
+
+interface UseCrossRatesReturn {
+  markets: CrossRateMarket[]
+  failures: CrossRateFailure[] // assets whose books could not be loaded
+  loading: boolean
+  lastUpdated: Date | null
+  refresh: () => void
+}
+
+/**
+ * Custom hook for loading the books needed to convert one fiat into another
+ * through every supported asset: its buy offers against the source fiat and
+ * its sell offers against the target fiat
+ * @param from - Source fiat (e.g., 'VES')
+ * @param to - Target fiat (e.g., 'COP')
+ */
+export function useCrossRates(from: string, to: string): UseCrossRatesReturn {
+  const [markets, setMarkets] = useState<CrossRateMarket[]>([])
+  const [failures, setFailures] = useState<CrossRateFailure[]>([])
+  const [loading, setLoading] = useState(true)
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null)
+  const [refreshCount, setRefreshCount] = useState(0)
+
+  // Ignore responses from requests superseded by a newer one
+  const requestIdRef = useRef(0)
+
+  useEffect(() => {
+    const requestId = ++requestIdRef.current
+
+    setLoading(true)
+
+    Promise.allSettled(
+      SUPPORTED_ASSETS.map(async asset => {
+        const [buy, sell] = await Promise.all([
+          fetchP2PPrices(asset, from, "BUY"),
+          fetchP2PPrices(asset, to, "SELL")
+        ])
+        return { asset, buy, sell }
+      })
+    )
+      .then(results => {
+        if (requestId !== requestIdRef.current) return
+
+        const loaded: CrossRateMarket[] = []
+        const failed: CrossRateFailure[] = []
+
+        results.forEach((result, index) => {
+          if (result.status === "fulfilled") {
+            loaded.push(result.value)
+          } else {
+            console.warn(
+              `Failed to fetch ${SUPPORTED_ASSETS[index]} books:`,
+              result.reason
+            )
+            failed.push({
+              asset: SUPPORTED_ASSETS[index],
+              reason:
+                result.reason instanceof Error
+                  ? result.reason.message
+                  : "Failed to fetch offers"
+            })
+          }
+        })
+
+        setMarkets(loaded)
+        setFailures(failed)
+        setLastUpdated(new Date())
+      })
+      .finally(() => {
+        if (requestId === requestIdRef.current) setLoading(false)
+      })
+  }, [from, to, refreshCount])
+
+  const refresh = useCallback(() => setRefreshCount(count => count + 1), [])
+
+  return { markets, failures, loading, lastUpdated, refresh }
+}
@@ -0,0 +1,18 @@
+import { useState, useEffect } from "react"
+
+/**
+ * Custom hook that follows a value once it has stopped changing, so
+ * expensive work keyed on it runs after typing pauses, not on every key
+ * @param value - The value to follow
+ * @param delayMs - How long the value must stay unchanged (default: 300)
+ */
+export function useDebouncedValue<T>(value: T, delayMs: number = 300): T {
+  const [debounced, setDebounced] = useState(value)
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebounced(value), delayMs)
+    return () => clearTimeout(timeout)
+  }, [value, delayMs])
+
+  return debounced
+}
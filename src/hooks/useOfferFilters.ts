@@ -0,0 +1,41 @@
+import { useState, useEffect } from "react"
+import { OfferFilters } from "@/lib/types"
+import { parseOfferFilters, writeOfferFilters } from "@/lib/filters"
+
+interface UseOfferFiltersReturn {
+  filters: OfferFilters
+  setFilters: (filters: OfferFilters) => void
+}
+
+/**
+ * Custom hook for the shared filter bar's filters, kept in the URL query
+ * alongside the offer table's state so a filtered view can be reloaded or
+ * shared
+ */
+export function useOfferFilters(): UseOfferFiltersReturn {
+  const [filters, setFilters] = useState<OfferFilters>({})
+  // Don't write the URL until it has been read, or no filters replace it
+  const [loaded, setLoaded] = useState(false)
+
+  useEffect(() => {
+    setFilters(parseOfferFilters(new URLSearchParams(window.location.search)))
+    setLoaded(true)
+  }, [])
+
+  useEffect(() => {
+    if (!loaded) return
+
+    const params = writeOfferFilters(
+      new URLSearchParams(window.location.search),
+      filters
+    )
+    const query = params.toString()
+    window.history.replaceState(
+      null,
+      "",
+      `${window.location.pathname}${query ? `?${query}` : ""}`
+    )
+  }, [filters, loaded])
+
+  return { filters, setFilters }
+}
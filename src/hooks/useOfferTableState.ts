@@ -0,0 +1,52 @@
+import { useState, useEffect, useCallback } from "react"
+import {
+  DEFAULT_OFFER_TABLE_STATE,
+  OfferTableState,
+  parseOfferTableState,
+  writeOfferTableState
+} from "@/lib/offer-table"
+
+interface UseOfferTableStateReturn {
+  state: OfferTableState
+  update: (changes: Partial<OfferTableState>) => void
+  reset: () => void
+}
+
+/**
+ * Custom hook for the offer table's sort, columns and page, kept
+ * in the URL query so a view can be reloaded or shared. Changing anything
+ * but the page goes back to the first page.
+ */
+export function useOfferTableState(): UseOfferTableStateReturn {
+  const [state, setState] = useState<OfferTableState>(DEFAULT_OFFER_TABLE_STATE)
+  // Don't write the URL until it has been read, or the defaults replace it
+  const [loaded, setLoaded] = useState(false)
+
+  useEffect(() => {
+    setState(parseOfferTableState(new URLSearchParams(window.location.search)))
+    setLoaded(true)
+  }, [])
+
+  useEffect(() => {
+    if (!loaded) return
+
+    const params = writeOfferTableState(
+      new URLSearchParams(window.location.search),
+      state
+    )
+    const query = params.toString()
+    window.history.replaceState(
+      null,
+      "",
+      `${window.location.pathname}${query ? `?${query}` : ""}`
+    )
+  }, [state, loaded])
+
+  const update = useCallback((changes: Partial<OfferTableState>) => {
+    setState(current => ({ ...current, page: 1, ...changes }))
+  }, [])
+
+  const reset = useCallback(() => setState(DEFAULT_OFFER_TABLE_STATE), [])
+
+  return { state, update, reset }
+}
@@ -0,0 +1,112 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { act, renderHook, waitFor } from "@testing-library/react"
+import { useP2PData } from "./useP2PData"
+import { fetchP2PPrices } from "@/lib/binance-api"
+import { PriceData } from "@/lib/types"
+import { makeOffer } from "@/test/offers"
+
+vi.mock("@/lib/binance-api", async importOriginal => ({
+  ...(await importOriginal<typeof import("@/lib/binance-api")>()),
+  fetchP2PPrices: vi.fn()
+}))
+
+const fetchPrices = vi.mocked(fetchP2PPrices)
+
+// Answers each side with offers, or fails it with the given reason
+function mockSides(buy: PriceData[] | unknown, sell: PriceData[] | unknown) {
+  fetchPrices.mockImplementation(async (_asset, _fiat, tradeType) => {
+    const result = tradeType === "BUY" ? buy : sell
+    if (Array.isArray(result)) return result
+    throw result
+  })
+}
+
+function renderP2PData() {
+  return renderHook(() => useP2PData("USDT", "VES", false))
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "warn").mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+  fetchPrices.mockReset()
+})
+
+describe("useP2PData", () => {
+  it("keeps the side that loaded when the other fails", async () => {
+    mockSides(
+      [makeOffer(50, 100, { tradeType: "BUY" })],
+      new Error("Server error: down")
+    )
+
+    const { result } = renderP2PData()
+    await waitFor(() => expect(result.current.loading).toBe(false))
+
+    expect(result.current.buyPrices).toHaveLength(1)
+    expect(result.current.sellPrices).toEqual([])
+    expect(result.current.bestBuy?.price).toBe(50)
+    expect(result.current.bestSell).toBeNull()
+    expect(result.current.errors).toEqual({
+      buy: null,
+      sell: "Server error: down"
+    })
+    expect(result.current.lastUpdated).toBeInstanceOf(Date)
+  })
+
+  it("keeps the previous snapshot of a side whose refresh fails", async () => {
+    mockSides(
+      [makeOffer(50, 100, { tradeType: "BUY" })],
+      [makeOffer(49, 100, { tradeType: "SELL" })]
+    )
+
+    const { result } = renderP2PData()
+    await waitFor(() => expect(result.current.loading).toBe(false))
+
+    mockSides(new Error("Network error: offline"), [
+      makeOffer(48, 100, { tradeType: "SELL" })
+    ])
+    await act(() => result.current.refresh())
+
+    expect(result.current.buyPrices.map(offer => offer.price)).toEqual([50])
+    expect(result.current.sellPrices.map(offer => offer.price)).toEqual([48])
+    expect(result.current.prices).toHaveLength(2)
+    expect(result.current.errors).toEqual({
+      buy: "Network error: offline",
+      sell: null
+    })
+  })
+
+  it("reports both sides and leaves lastUpdated unset when everything fails", async () => {
+    mockSides(new Error("Server error: down"), "not an error")
+
+    const { result } = renderP2PData()
+    await waitFor(() => expect(result.current.loading).toBe(false))
+
+    expect(result.current.prices).toEqual([])
+    expect(result.current.lastUpdated).toBeNull()
+    expect(result.current.errors).toEqual({
+      buy: "Server error: down",
+      sell: "Failed to fetch P2P data"
+    })
+  })
+
+  it("clears errors once a refresh succeeds", async () => {
+    mockSides(new Error("Server error: down"), new Error("Server error: down"))
+
+    const { result } = renderP2PData()
+    await waitFor(() => expect(result.current.loading).toBe(false))
+
+    mockSides(
+      [makeOffer(50, 100, { tradeType: "BUY" })],
+      [makeOffer(49, 100, { tradeType: "SELL" })]
+    )
+    await act(() => result.current.refresh())
+
+    expect(result.current.errors).toEqual({ buy: null, sell: null })
+    expect(result.current.bestSell?.price).toBe(49)
+    expect(result.current.lastUpdated).toBeInstanceOf(Date)
+  })
+})
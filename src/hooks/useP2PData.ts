@@ -1,10 +1,19 @@
-import { useState, useEffect, useCallback } from "react"
+import { useState, useEffect, useCallback, useMemo, useRef } from "react"
 import { PriceData, FilterOptions } from "@/lib/types"
-import {
-  fetchP2PPrices,
-  fetchBuySellPrices,
-  getBestPrices
-} from "@/lib/binance-api"
+import { fetchP2PPrices, getBestPrices } from "@/lib/binance-api"
+import { filterOffers } from "@/lib/filters"
+import { DEFAULT_EXCHANGE } from "@/lib/markets"
+
+export interface SideErrors {
+  buy: string | null
+  sell: string | null
+}
+
+interface MarketSnapshot {
+  buy: PriceData[]
+  sell: PriceData[]
+  updatedAt: Date | null
+}
 
 interface UseP2PDataReturn {
   prices: PriceData[]
@@ -13,140 +22,91 @@ interface UseP2PDataReturn {
   bestBuy: PriceData | null
   bestSell: PriceData | null
   loading: boolean
-  error: string | null
+  errors: SideErrors
+  lastUpdated: Date | null
   refresh: () => Promise<void>
   filterPrices: (options: FilterOptions) => PriceData[]
 }
 
 /**
- * Custom hook for managing Binance P2P data
+ * Custom hook for managing P2P data. Each refresh fetches one BUY and one
+ * SELL snapshot; everything else is derived from them. A side that fails
+ * keeps its previous snapshot and reports its own error.
  * @param asset - The cryptocurrency asset (default: 'USDT')
  * @param fiat - The fiat currency (default: 'VES')
  * @param autoRefresh - Whether to auto-refresh data (default: true)
  * @param refreshInterval - Refresh interval in milliseconds (default: 30000)
+ * @param exchange - Exchange id, or ALL_EXCHANGES (default: DEFAULT_EXCHANGE)
  */
 export function useP2PData(
   asset: string = "USDT",
   fiat: string = "VES",
   autoRefresh: boolean = true,
-  refreshInterval: number = 30000
+  refreshInterval: number = 30000,
+  exchange: string = DEFAULT_EXCHANGE
 ): UseP2PDataReturn {
-  const [prices, setPrices] = useState<PriceData[]>([])
-  const [buyPrices, setBuyPrices] = useState<PriceData[]>([])
-  const [sellPrices, setSellPrices] = useState<PriceData[]>([])
-  const [bestBuy, setBestBuy] = useState<PriceData | null>(null)
-  const [bestSell, setBestSell] = useState<PriceData | null>(null)
+  const [snapshot, setSnapshot] = useState<MarketSnapshot>({
+    buy: [],
+    sell: [],
+    updatedAt: null
+  })
   const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
+  const [errors, setErrors] = useState<SideErrors>({ buy: null, sell: null })
+
+  // Ignore responses from requests superseded by a newer one
+  const requestIdRef = useRef(0)
 
   const fetchData = useCallback(async () => {
-    try {
-      setLoading(true)
-      setError(null)
-
-      // Fetch data with individual error handling
-      let allPrices: PriceData[] = []
-      let buySellData = { buy: [] as PriceData[], sell: [] as PriceData[] }
-      let bestPrices = {
-        bestBuy: null as PriceData | null,
-        bestSell: null as PriceData | null
-      }
-
-      try {
-        allPrices = await fetchP2PPrices(asset, fiat, "BUY", 20, 1)
-      } catch (err) {
-        console.warn("Failed to fetch all prices:", err)
-      }
-
-      // Add small delay between requests to avoid rate limiting
-      await new Promise(resolve => setTimeout(resolve, 200))
-
-      try {
-        buySellData = await fetchBuySellPrices(asset, fiat, 20)
-      } catch (err) {
-        console.warn("Failed to fetch buy/sell data:", err)
-      }
-
-      // Add small delay between requests to avoid rate limiting
-      await new Promise(resolve => setTimeout(resolve, 200))
-
-      try {
-        bestPrices = await getBestPrices(asset, fiat)
-      } catch (err) {
-        console.warn("Failed to fetch best prices:", err)
-      }
-
-      // Set whatever data we have
-      setPrices(allPrices)
-      setBuyPrices(buySellData.buy)
-      setSellPrices(buySellData.sell)
-      setBestBuy(bestPrices.bestBuy)
-      setBestSell(bestPrices.bestSell)
-
-      // Only show error if we have no data at all
-      if (
-        allPrices.length === 0 &&
-        buySellData.buy.length === 0 &&
-        buySellData.sell.length === 0
-      ) {
-        setError("Unable to fetch any P2P data. Please try again later.")
-      } else {
-        setError(null)
-      }
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to fetch P2P data")
-      console.error("Error fetching P2P data:", err)
-    } finally {
-      setLoading(false)
+    const requestId = ++requestIdRef.current
+    setLoading(true)
+
+    const [buyResult, sellResult] = await Promise.allSettled([
+      fetchP2PPrices(asset, fiat, "BUY", 20, 1, {}, exchange),
+      fetchP2PPrices(asset, fiat, "SELL", 20, 1, {}, exchange)
+    ])
+
+    if (requestId !== requestIdRef.current) return
+
+    const getError = (result: PromiseSettledResult<PriceData[]>) => {
+      if (result.status === "fulfilled") return null
+      console.warn("Failed to fetch P2P prices:", result.reason)
+      return result.reason instanceof Error
+        ? result.reason.message
+        : "Failed to fetch P2P data"
     }
-  }, [asset, fiat])
+
+    setSnapshot(previous => ({
+      buy: buyResult.status === "fulfilled" ? buyResult.value : previous.buy,
+      sell:
+        sellResult.status === "fulfilled" ? sellResult.value : previous.sell,
+      updatedAt:
+        buyResult.status === "fulfilled" || sellResult.status === "fulfilled"
+          ? new Date()
+          : previous.updatedAt
+    }))
+    setErrors({ buy: getError(buyResult), sell: getError(sellResult) })
+    setLoading(false)
+  }, [asset, fiat, exchange])
+
+  // Drop the previous market's data when switching pairs or exchanges
+  useEffect(() => {
+    setSnapshot({ buy: [], sell: [], updatedAt: null })
+    setErrors({ buy: null, sell: null })
+  }, [asset, fiat, exchange])
+
+  const prices = useMemo(() => [...snapshot.buy, ...snapshot.sell], [snapshot])
+
+  const { bestBuy, bestSell } = useMemo(
+    () => getBestPrices(snapshot.buy, snapshot.sell),
+    [snapshot]
+  )
 
   const refresh = useCallback(async () => {
     await fetchData()
   }, [fetchData])
 
   const filterPrices = useCallback(
-    (options: FilterOptions): PriceData[] => {
-      let filtered = prices.filter(
-        price => price.tradeType === options.tradeType
-      )
-
-      if (options.paymentMethod) {
-        filtered = filtered.filter(price =>
-          price.paymentMethods.some(method =>
-            (method.payBank || method.payType)
-              .toLowerCase()
-              .includes(options.paymentMethod!.toLowerCase())
-          )
-        )
-      }
-
-      if (options.bank) {
-        filtered = filtered.filter(price =>
-          price.paymentMethods.some(method =>
-            (method.payBank || method.payType)
-              .toLowerCase()
-              .includes(options.bank!.toLowerCase())
-          )
-        )
-      }
-
-      if (options.minAmount) {
-        filtered = filtered.filter(price => price.amount >= options.minAmount!)
-      }
-
-      if (options.maxAmount) {
-        filtered = filtered.filter(price => price.amount <= options.maxAmount!)
-      }
-
-      return filtered.sort((a, b) => {
-        if (options.tradeType === "BUY") {
-          return a.price - b.price // Lowest price first for buying
-        } else {
-          return b.price - a.price // Highest price first for selling
-        }
-      })
-    },
+    (options: FilterOptions): PriceData[] => filterOffers(prices, options),
     [prices]
   )
 
@@ -165,12 +125,13 @@ export function useP2PData(
 
   return {
     prices,
-    buyPrices,
-    sellPrices,
+    buyPrices: snapshot.buy,
+    sellPrices: snapshot.sell,
     bestBuy,
     bestSell,
     loading,
-    error,
+    errors,
+    lastUpdated: snapshot.updatedAt,
     refresh,
     filterPrices
   }
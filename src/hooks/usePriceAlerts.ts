@@ -0,0 +1,191 @@
+import { useState, useEffect, useCallback, useRef } from "react"
+import { PriceData } from "@/lib/types"
+import {
+  AlertEvent,
+  AlertRule,
+  describeAlert,
+  getAlertValue,
+  isAlertConditionMet,
+  isOutOfCooldown
+} from "@/lib/alerts"
+
+const RULES_STORAGE_KEY = "camveo.alertRules"
+const LOG_STORAGE_KEY = "camveo.alertLog"
+const MAX_LOG_ENTRIES = 50
+
+type NotificationState = NotificationPermission | "unsupported"
+
+export interface UsePriceAlertsReturn {
+  rules: AlertRule[]
+  log: AlertEvent[]
+  notificationPermission: NotificationState
+  addRule: (rule: Omit<AlertRule, "id" | "asset" | "fiat" | "enabled">) => void
+  updateRule: (id: string, changes: Partial<AlertRule>) => void
+  removeRule: (id: string) => void
+  clearLog: () => void
+  requestNotificationPermission: () => Promise<void>
+}
+
+/**
+ * Reads a JSON value from localStorage, falling back when missing or corrupt
+ */
+function loadStored<T>(key: string, fallback: T): T {
+  try {
+    const stored = window.localStorage.getItem(key)
+    return stored ? (JSON.parse(stored) as T) : fallback
+  } catch {
+    return fallback
+  }
+}
+
+/**
+ * Custom hook for price alerts on the current pair. Rules and the alert log
+ * are persisted in localStorage and rules are evaluated on every refresh.
+ * @param asset - The cryptocurrency asset of the current pair
+ * @param fiat - The fiat currency of the current pair
+ * @param buyPrices - Current BUY offers
+ * @param sellPrices - Current SELL offers
+ * @param lastUpdated - When the offers were fetched; each change is a refresh
+ */
+export function usePriceAlerts(
+  asset: string,
+  fiat: string,
+  buyPrices: PriceData[],
+  sellPrices: PriceData[],
+  lastUpdated: Date | null
+): UsePriceAlertsReturn {
+  const [allRules, setAllRules] = useState<AlertRule[]>([])
+  const [log, setLog] = useState<AlertEvent[]>([])
+  const [notificationPermission, setNotificationPermission] =
+    useState<NotificationState>("unsupported")
+
+  const [loaded, setLoaded] = useState(false)
+
+  // Consecutive matching refreshes per rule, reset when a rule stops matching
+  const matchCountsRef = useRef<Record<string, number>>({})
+  const rulesRef = useRef(allRules)
+  rulesRef.current = allRules
+  // The market as of the latest render, read once per refresh
+  const marketRef = useRef({ asset, fiat, buyPrices, sellPrices })
+  marketRef.current = { asset, fiat, buyPrices, sellPrices }
+
+  // localStorage and Notification only exist in the browser
+  useEffect(() => {
+    setAllRules(loadStored(RULES_STORAGE_KEY, []))
+    setLog(loadStored(LOG_STORAGE_KEY, []))
+    setNotificationPermission(
+      "Notification" in window ? Notification.permission : "unsupported"
+    )
+    setLoaded(true)
+  }, [])
+
+  useEffect(() => {
+    if (!loaded) return
+    window.localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(allRules))
+  }, [allRules, loaded])
+
+  useEffect(() => {
+    if (!loaded) return
+    window.localStorage.setItem(LOG_STORAGE_KEY, JSON.stringify(log))
+  }, [log, loaded])
+
+  // Evaluate the current pair's rules once per refresh
+  useEffect(() => {
+    if (!lastUpdated) return
+
+    const { asset, fiat, buyPrices, sellPrices } = marketRef.current
+    const market = { buy: buyPrices, sell: sellPrices }
+    const events: AlertEvent[] = []
+
+    const nextRules = rulesRef.current.map(rule => {
+      if (!rule.enabled || rule.asset !== asset || rule.fiat !== fiat) {
+        return rule
+      }
+
+      const value = getAlertValue(rule, market)
+      if (value === null || !isAlertConditionMet(rule, value)) {
+        matchCountsRef.current[rule.id] = 0
+        return rule
+      }
+
+      const matches = (matchCountsRef.current[rule.id] ?? 0) + 1
+      matchCountsRef.current[rule.id] = matches
+
+      if (matches < rule.confirmations || !isOutOfCooldown(rule, lastUpdated)) {
+        return rule
+      }
+
+      events.push({
+        ruleId: rule.id,
+        triggeredAt: lastUpdated.toISOString(),
+        message: describeAlert(rule, value),
+        value
+      })
+      return { ...rule, lastTriggeredAt: lastUpdated.toISOString() }
+    })
+
+    if (events.length === 0) return
+
+    setAllRules(nextRules)
+    setLog(entries => [...events, ...entries].slice(0, MAX_LOG_ENTRIES))
+
+    if ("Notification" in window && Notification.permission === "granted") {
+      events.forEach(event => {
+        new Notification("P2P price alert", {
+          body: event.message,
+          tag: event.ruleId
+        })
+      })
+    }
+  }, [lastUpdated])
+
+  const addRule = useCallback(
+    (rule: Omit<AlertRule, "id" | "asset" | "fiat" | "enabled">) => {
+      setAllRules(rules => [
+        ...rules,
+        {
+          ...rule,
+          id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+          asset,
+          fiat,
+          enabled: true
+        }
+      ])
+    },
+    [asset, fiat]
+  )
+
+  const updateRule = useCallback((id: string, changes: Partial<AlertRule>) => {
+    setAllRules(rules =>
+      rules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule))
+    )
+  }, [])
+
+  const removeRule = useCallback((id: string) => {
+    setAllRules(rules => rules.filter(rule => rule.id !== id))
+    delete matchCountsRef.current[id]
+  }, [])
+
+  const clearLog = useCallback(() => setLog([]), [])
+
+  const requestNotificationPermission = useCallback(async () => {
+    if (!("Notification" in window)) return
+    setNotificationPermission(await Notification.requestPermission())
+  }, [])
+
+  return {
+    rules: allRules.filter(rule => rule.asset === asset && rule.fiat === fiat),
+    log: log.filter(event =>
+      allRules.some(
+        rule =>
+          rule.id === event.ruleId && rule.asset === asset && rule.fiat === fiat
+      )
+    ),
+    notificationPermission,
+    addRule,
+    updateRule,
+    removeRule,
+    clearLog,
+    requestNotificationPermission
+  }
+}
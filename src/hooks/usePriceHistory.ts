@@ -0,0 +1,72 @@
+import { useState, useEffect, useRef } from "react"
+import { fetchPriceHistory } from "@/lib/binance-api"
+import { HistoryInterval, HistoryPoint, mergeHistorySides } from "@/lib/history"
+
+export type HistoryWindow = "1h" | "24h" | "7d"
+
+export const HISTORY_WINDOWS: Record<
+  HistoryWindow,
+  { durationMs: number; interval: HistoryInterval }
+> = {
+  "1h": { durationMs: 60 * 60 * 1000, interval: "1m" },
+  "24h": { durationMs: 24 * 60 * 60 * 1000, interval: "5m" },
+  "7d": { durationMs: 7 * 24 * 60 * 60 * 1000, interval: "1h" }
+}
+
+interface UsePriceHistoryReturn {
+  points: HistoryPoint[]
+  loading: boolean
+  error: string | null
+}
+
+/**
+ * Custom hook for loading the recorded BUY/SELL history of a pair
+ * @param asset - The cryptocurrency asset (e.g., 'USDT')
+ * @param fiat - The fiat currency (e.g., 'VES')
+ * @param historyWindow - Time window to load, ending now
+ * @param refreshToken - Reloads the history whenever it changes
+ */
+export function usePriceHistory(
+  asset: string,
+  fiat: string,
+  historyWindow: HistoryWindow,
+  refreshToken?: unknown
+): UsePriceHistoryReturn {
+  const [points, setPoints] = useState<HistoryPoint[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // Ignore responses from requests superseded by a newer one
+  const requestIdRef = useRef(0)
+
+  useEffect(() => {
+    const requestId = ++requestIdRef.current
+    const { durationMs, interval } = HISTORY_WINDOWS[historyWindow]
+    const to = new Date()
+    const from = new Date(to.getTime() - durationMs)
+
+    setLoading(true)
+
+    Promise.all([
+      fetchPriceHistory(asset, fiat, "BUY", interval, from, to),
+      fetchPriceHistory(asset, fiat, "SELL", interval, from, to)
+    ])
+      .then(([buy, sell]) => {
+        if (requestId !== requestIdRef.current) return
+        setPoints(mergeHistorySides(buy.buckets, sell.buckets))
+        setError(null)
+      })
+      .catch(err => {
+        if (requestId !== requestIdRef.current) return
+        console.warn("Failed to fetch price history:", err)
+        setError(
+          err instanceof Error ? err.message : "Failed to fetch price history"
+        )
+      })
+      .finally(() => {
+        if (requestId === requestIdRef.current) setLoading(false)
+      })
+  }, [asset, fiat, historyWindow, refreshToken])
+
+  return { points, loading, error }
+}
@@ -0,0 +1,79 @@
+import { useState, useEffect, useRef } from "react"
+import { fetchReferenceRates, ReferenceRatesResult } from "@/lib/binance-api"
+import { isUsdPegged, ReferenceRate } from "@/lib/reference-rates"
+
+// Reference rates are published at most a few times a day
+const REFRESH_INTERVAL_MS = 10 * 60 * 1000
+
+interface UseReferenceRatesReturn {
+  rates: ReferenceRate[]
+  errors: ReferenceRatesResult["errors"]
+  loading: boolean
+}
+
+/**
+ * Custom hook for loading official and market reference rates of a fiat.
+ * Rates are quoted per US dollar, so nothing is loaded for other assets.
+ * @param asset - The cryptocurrency asset (e.g., 'USDT')
+ * @param fiat - The fiat currency (e.g., 'VES')
+ */
+export function useReferenceRates(
+  asset: string,
+  fiat: string
+): UseReferenceRatesReturn {
+  const [result, setResult] = useState<ReferenceRatesResult>({
+    rates: [],
+    errors: []
+  })
+  const [loading, setLoading] = useState(false)
+
+  // Ignore responses from requests superseded by a newer one
+  const requestIdRef = useRef(0)
+
+  useEffect(() => {
+    const requestId = ++requestIdRef.current
+    setResult({ rates: [], errors: [] })
+
+    if (!isUsdPegged(asset)) {
+      setLoading(false)
+      return
+    }
+
+    const load = () => {
+      setLoading(true)
+      fetchReferenceRates(fiat)
+        .then(next => {
+          if (requestId !== requestIdRef.current) return
+          next.errors.forEach(({ provider, error }) =>
+            console.warn(`Failed to fetch ${provider} rate:`, error)
+          )
+          setResult(next)
+        })
+        .catch(err => {
+          if (requestId !== requestIdRef.current) return
+          console.warn("Failed to fetch reference rates:", err)
+          setResult({
+            rates: [],
+            errors: [
+              {
+                provider: "Reference rates",
+                error:
+                  err instanceof Error
+                    ? err.message
+                    : "Failed to fetch reference rates"
+              }
+            ]
+          })
+        })
+        .finally(() => {
+          if (requestId === requestIdRef.current) setLoading(false)
+        })
+    }
+
+    load()
+    const interval = setInterval(load, REFRESH_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [asset, fiat])
+
+  return { ...result, loading }
+}
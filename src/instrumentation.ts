@@ -0,0 +1,12 @@
+/**
+ * Starts the server-side alert runner when P2P_ALERTS_RUNNER=1
+ */
+export async function register() {
+  if (
+    process.env.NEXT_RUNTIME === "nodejs" &&
+    process.env.P2P_ALERTS_RUNNER === "1"
+  ) {
+    const { startAlertRunner } = await import("./lib/alert-runner")
+    startAlertRunner()
+  }
+}
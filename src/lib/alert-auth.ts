@@ -0,0 +1,38 @@
+import { createHash, timingSafeEqual } from "crypto"
+import { NextRequest, NextResponse } from "next/server"
+
+const digest = (value: string) => createHash("sha256").update(value).digest()
+
+/**
+ * Checks the shared secret that guards the alert routes: requests must send
+ * `Authorization: Bearer <P2P_ALERTS_TOKEN>`. The routes are closed while no
+ * token is configured.
+ * @returns NextResponse | null - The error response, or null when allowed
+ */
+export function authorizeAlertsRequest(
+  request: NextRequest
+): NextResponse | null {
+  const token = process.env.P2P_ALERTS_TOKEN
+
+  if (!token) {
+    return NextResponse.json(
+      {
+        error: "Alert routes are disabled. Set P2P_ALERTS_TOKEN to enable them"
+      },
+      { status: 403 }
+    )
+  }
+
+  const provided =
+    request.headers.get("authorization")?.match(/^Bearer (.+)$/)?.[1] ?? ""
+
+  // Compare digests so neither the length nor the content leaks via timing
+  if (!timingSafeEqual(digest(provided), digest(token))) {
+    return NextResponse.json(
+      { error: "Missing or invalid alerts token" },
+      { status: 401, headers: { "WWW-Authenticate": "Bearer" } }
+    )
+  }
+
+  return null
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it, vi } from "vitest"
+import { makeOffer } from "@/test/offers"
+import { WebhookAlertRule } from "./alert-store"
+import { runAlertCheck } from "./alert-runner"
+import { sendWebhook } from "./webhooks"
+
+const rule: WebhookAlertRule = {
+  id: "rule-1",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  asset: "USDT",
+  fiat: "VES",
+  condition: "BUY_BELOW",
+  threshold: 50,
+  cooldownMinutes: 15,
+  confirmations: 1,
+  enabled: true,
+  webhook: { format: "json", url: "https://hooks.example.com/alert" }
+}
+
+vi.mock("./alert-store", () => ({
+  listAlertRules: vi.fn(async () => [rule]),
+  updateAlertRule: vi.fn(async () => rule)
+}))
+
+vi.mock("./exchange-search", () => ({
+  searchExchange: vi.fn(async () => ({
+    value: { data: [makeOffer(40, 100)] }
+  }))
+}))
+
+vi.mock("./webhooks", () => ({
+  sendWebhook: vi.fn(() => new Promise(resolve => setTimeout(resolve, 10)))
+}))
+
+describe("runAlertCheck", () => {
+  it("joins a check in progress instead of sending its webhooks again", async () => {
+    const [scheduled, manual] = await Promise.all([
+      runAlertCheck(),
+      runAlertCheck()
+    ])
+
+    expect(sendWebhook).toHaveBeenCalledTimes(1)
+    expect(manual).toBe(scheduled)
+    expect(manual).toEqual([
+      { ruleId: "rule-1", value: 40, triggered: true, delivered: true }
+    ])
+  })
+})
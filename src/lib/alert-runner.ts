@@ -0,0 +1,235 @@
+import { P2PSearchFiltersSchema, PriceData } from "./types"
+import { getBestPrices } from "./binance-api"
+import { searchExchange } from "./exchange-search"
+import { binanceAdapter } from "./binance-adapter"
+import { matchesPaymentMethod } from "./filters"
+import {
+  AlertEvent,
+  AlertMarket,
+  describeAlert,
+  getAlertValue,
+  getPriceMove,
+  isAlertConditionMet,
+  isOutOfCooldown,
+  PriceSample
+} from "./alerts"
+import { sendWebhook } from "./webhooks"
+import {
+  listAlertRules,
+  updateAlertRule,
+  WebhookAlertRule
+} from "./alert-store"
+
+const DEFAULT_INTERVAL_MS = 60000
+
+export interface AlertCheckResult {
+  ruleId: string
+  value: number | null
+  triggered: boolean
+  delivered: boolean
+  error?: string
+}
+
+// Runner state lives in memory: consecutive matches and the price samples of
+// MOVE_ABOVE rules start over when the server restarts
+const matchCounts = new Map<string, number>()
+const moveSamples = new Map<string, PriceSample[]>()
+// The check in progress, shared by the schedule and manual runs so that a
+// rule is never evaluated (and its webhook sent) by two checks at once
+let runningCheck: Promise<AlertCheckResult[]> | null = null
+
+/**
+ * Fetches the first page of both sides of a pair through the shared cache
+ */
+async function fetchMarket(asset: string, fiat: string): Promise<AlertMarket> {
+  const [buy, sell] = await Promise.all(
+    (["BUY", "SELL"] as const).map(async tradeType => {
+      const { value } = await searchExchange(binanceAdapter, {
+        asset,
+        fiat,
+        tradeType,
+        page: 1,
+        rows: 20,
+        filters: P2PSearchFiltersSchema.parse({})
+      })
+      return value.data
+    })
+  )
+
+  return { buy, sell }
+}
+
+/**
+ * Records the current best price of a MOVE_ABOVE rule's side and returns its
+ * percentage move within the rule's window
+ */
+function trackPriceMove(
+  rule: WebhookAlertRule,
+  market: AlertMarket,
+  now: Date
+): number | null {
+  const scope = (offers: PriceData[]) =>
+    rule.paymentMethod
+      ? offers.filter(offer => matchesPaymentMethod(offer, rule.paymentMethod!))
+      : offers
+
+  const { bestBuy, bestSell } = getBestPrices(
+    scope(market.buy),
+    scope(market.sell)
+  )
+  const best = rule.side === "SELL" ? bestSell : bestBuy
+  const windowMinutes = rule.windowMinutes ?? 0
+  const since = now.getTime() - windowMinutes * 60 * 1000
+
+  const samples = (moveSamples.get(rule.id) ?? []).filter(
+    sample => sample.time >= since
+  )
+  if (best) samples.push({ time: now.getTime(), value: best.price })
+  moveSamples.set(rule.id, samples)
+
+  return getPriceMove(samples, windowMinutes, now)
+}
+
+function describeWebhookAlert(rule: WebhookAlertRule, value: number): string {
+  if (rule.condition !== "MOVE_ABOVE") {
+    return describeAlert({ ...rule, condition: rule.condition }, value)
+  }
+
+  const scope = rule.paymentMethod ? ` via ${rule.paymentMethod}` : ""
+  const side = rule.side === "SELL" ? "sell" : "buy"
+  return `${rule.asset}/${rule.fiat} best ${side}${scope} moved ${
+    value > 0 ? "+" : ""
+  }${value.toFixed(2)}% in ${rule.windowMinutes} min`
+}
+
+/**
+ * Evaluates one rule against the market and delivers its webhook when the
+ * condition has held for enough consecutive checks outside the cooldown
+ */
+async function checkRule(
+  rule: WebhookAlertRule,
+  market: AlertMarket,
+  now: Date
+): Promise<AlertCheckResult> {
+  const value =
+    rule.condition === "MOVE_ABOVE"
+      ? trackPriceMove(rule, market, now)
+      : getAlertValue({ ...rule, condition: rule.condition }, market)
+
+  const met =
+    value !== null &&
+    (rule.condition === "MOVE_ABOVE"
+      ? Math.abs(value) > rule.threshold
+      : isAlertConditionMet({ ...rule, condition: rule.condition }, value))
+
+  const matches = met ? (matchCounts.get(rule.id) ?? 0) + 1 : 0
+  matchCounts.set(rule.id, matches)
+
+  if (!met || matches < rule.confirmations || !isOutOfCooldown(rule, now)) {
+    return { ruleId: rule.id, value, triggered: false, delivered: false }
+  }
+
+  const event: AlertEvent = {
+    ruleId: rule.id,
+    triggeredAt: now.toISOString(),
+    message: describeWebhookAlert(rule, value!),
+    value: value!
+  }
+
+  try {
+    await sendWebhook(rule.webhook, event, rule)
+  } catch (error) {
+    // Not marked as triggered, so delivery is retried on the next check
+    console.error(`Alert webhook for rule ${rule.id} failed:`, error)
+    return {
+      ruleId: rule.id,
+      value,
+      triggered: true,
+      delivered: false,
+      error: error instanceof Error ? error.message : "Webhook delivery failed"
+    }
+  }
+
+  await updateAlertRule(rule.id, { lastTriggeredAt: event.triggeredAt })
+  return { ruleId: rule.id, value, triggered: true, delivered: true }
+}
+
+/**
+ * Checks all enabled rules. Each pair is fetched once; a pair that fails to
+ * load fails only its own rules.
+ */
+async function checkAllRules(now: Date): Promise<AlertCheckResult[]> {
+  const rules = (await listAlertRules()).filter(rule => rule.enabled)
+
+  const rulesByPair = new Map<string, WebhookAlertRule[]>()
+  rules.forEach(rule => {
+    const key = `${rule.asset}-${rule.fiat}`
+    rulesByPair.set(key, [...(rulesByPair.get(key) ?? []), rule])
+  })
+
+  const results = await Promise.all(
+    [...rulesByPair.values()].map(async pairRules => {
+      const { asset, fiat } = pairRules[0]
+
+      let market: AlertMarket
+      try {
+        market = await fetchMarket(asset, fiat)
+      } catch (error) {
+        console.error(`Alert check failed to load ${asset}/${fiat}:`, error)
+        return pairRules.map(rule => ({
+          ruleId: rule.id,
+          value: null,
+          triggered: false,
+          delivered: false,
+          error: error instanceof Error ? error.message : "Market unavailable"
+        }))
+      }
+
+      const pairResults: AlertCheckResult[] = []
+      for (const rule of pairRules) {
+        pairResults.push(await checkRule(rule, market, now))
+      }
+      return pairResults
+    })
+  )
+
+  return results.flat()
+}
+
+/**
+ * Runs one check of all enabled rules. Checks never overlap: while one is in
+ * progress, callers get its results instead of starting another.
+ * @param now - Evaluation time (default: now; ignored when joining a check)
+ * @returns Promise<AlertCheckResult[]> - One result per enabled rule
+ */
+export function runAlertCheck(
+  now: Date = new Date()
+): Promise<AlertCheckResult[]> {
+  runningCheck ??= checkAllRules(now).finally(() => {
+    runningCheck = null
+  })
+  return runningCheck
+}
+
+/**
+ * Starts polling the alert rules on a schedule. Checks never overlap, with
+ * each other or with manual runs: a tick during a check joins it.
+ * @param intervalMs - Time between checks (default: P2P_ALERTS_INTERVAL_MS or 60s)
+ * @returns () => void - Stops the runner
+ */
+export function startAlertRunner(
+  intervalMs: number = Number(
+    process.env.P2P_ALERTS_INTERVAL_MS ?? DEFAULT_INTERVAL_MS
+  )
+): () => void {
+  const timer = setInterval(async () => {
+    try {
+      await runAlertCheck()
+    } catch (error) {
+      console.error("Alert check failed:", error)
+    }
+  }, intervalMs)
+
+  console.log(`Alert runner started, checking every ${intervalMs}ms`)
+  return () => clearInterval(timer)
+}
@@ -0,0 +1,137 @@
+import { promises as fs } from "fs"
+import path from "path"
+import { randomUUID } from "crypto"
+import { z } from "zod"
+import { isSupportedAsset, isSupportedFiat } from "./markets"
+import { WebhookTargetSchema } from "./webhooks"
+
+const ALERTS_FILE =
+  process.env.P2P_ALERTS_FILE ??
+  path.join(process.cwd(), ".data", "alerts.json")
+
+// Fields shared by rule creation and updates; defaults are only applied on
+// creation, as zod would otherwise fill them into partial updates
+const RuleFieldsSchema = z.object({
+  asset: z.string().refine(isSupportedAsset, "Unsupported asset"),
+  fiat: z.string().refine(isSupportedFiat, "Unsupported fiat"),
+  // MOVE_ABOVE fires when the best price of `side` moves more than
+  // `threshold` percent (either direction) within `windowMinutes`
+  condition: z.enum(["BUY_BELOW", "SELL_ABOVE", "SPREAD_ABOVE", "MOVE_ABOVE"]),
+  threshold: z.number().positive(),
+  side: z.enum(["BUY", "SELL"]).optional(),
+  windowMinutes: z.number().int().min(1).max(1440).optional(),
+  paymentMethod: z.string().min(1).optional(),
+  cooldownMinutes: z.number().min(0),
+  confirmations: z.number().int().min(1).max(100),
+  enabled: z.boolean(),
+  webhook: WebhookTargetSchema
+})
+
+export const WebhookAlertRuleInputSchema = RuleFieldsSchema.extend({
+  cooldownMinutes: RuleFieldsSchema.shape.cooldownMinutes.default(15),
+  confirmations: RuleFieldsSchema.shape.confirmations.default(1),
+  enabled: RuleFieldsSchema.shape.enabled.default(true)
+}).refine(rule => rule.condition !== "MOVE_ABOVE" || rule.windowMinutes, {
+  message: "windowMinutes is required for MOVE_ABOVE rules",
+  path: ["windowMinutes"]
+})
+
+export const WebhookAlertRuleUpdateSchema = RuleFieldsSchema.partial()
+
+export type WebhookAlertRuleInput = z.infer<typeof WebhookAlertRuleInputSchema>
+
+export interface WebhookAlertRule extends WebhookAlertRuleInput {
+  id: string
+  createdAt: string // ISO 8601
+  lastTriggeredAt?: string // ISO 8601
+}
+
+// Writes are chained so concurrent requests never interleave read-modify-write
+let writeQueue: Promise<unknown> = Promise.resolve()
+
+async function readRules(): Promise<WebhookAlertRule[]> {
+  try {
+    return JSON.parse(await fs.readFile(ALERTS_FILE, "utf8"))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return []
+    throw error
+  }
+}
+
+/**
+ * Applies a change to the stored rules, replacing the file atomically
+ */
+function updateRules<T>(
+  change: (rules: WebhookAlertRule[]) => {
+    rules: WebhookAlertRule[]
+    result: T
+  }
+): Promise<T> {
+  const next = writeQueue.then(async () => {
+    const { rules, result } = change(await readRules())
+    const tempFile = `${ALERTS_FILE}.tmp`
+
+    await fs.mkdir(path.dirname(ALERTS_FILE), { recursive: true })
+    await fs.writeFile(tempFile, JSON.stringify(rules, null, 2), "utf8")
+    await fs.rename(tempFile, ALERTS_FILE)
+    return result
+  })
+
+  writeQueue = next.catch(() => undefined)
+  return next
+}
+
+export async function listAlertRules(): Promise<WebhookAlertRule[]> {
+  await writeQueue
+  return readRules()
+}
+
+export async function getAlertRule(
+  id: string
+): Promise<WebhookAlertRule | null> {
+  const rules = await listAlertRules()
+  return rules.find(rule => rule.id === id) ?? null
+}
+
+export function createAlertRule(
+  input: WebhookAlertRuleInput
+): Promise<WebhookAlertRule> {
+  const rule: WebhookAlertRule = {
+    ...input,
+    id: randomUUID(),
+    createdAt: new Date().toISOString()
+  }
+
+  return updateRules(rules => ({ rules: [...rules, rule], result: rule }))
+}
+
+/**
+ * Updates a stored rule
+ * @returns Promise<WebhookAlertRule | null> - The updated rule, null if not found
+ */
+export function updateAlertRule(
+  id: string,
+  changes: Partial<Omit<WebhookAlertRule, "id" | "createdAt">>
+): Promise<WebhookAlertRule | null> {
+  return updateRules(rules => {
+    const index = rules.findIndex(rule => rule.id === id)
+    if (index === -1) return { rules, result: null }
+
+    const updated = { ...rules[index], ...changes }
+    return {
+      rules: rules.map((rule, i) => (i === index ? updated : rule)),
+      result: updated
+    }
+  })
+}
+
+/**
+ * Deletes a stored rule
+ * @returns Promise<boolean> - false if the rule was not found
+ */
+export function deleteAlertRule(id: string): Promise<boolean> {
+  return updateRules(rules => {
+    const remaining = rules.filter(rule => rule.id !== id)
+    return { rules: remaining, result: remaining.length < rules.length }
+  })
+}
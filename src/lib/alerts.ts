@@ -0,0 +1,142 @@
+import { PriceData } from "./types"
+import { getBestPrices } from "./binance-api"
+import { matchesPaymentMethod } from "./filters"
+import { calculateSpread } from "./price-stats"
+
+export type AlertCondition = "BUY_BELOW" | "SELL_ABOVE" | "SPREAD_ABOVE"
+
+export const ALERT_CONDITION_LABELS: Record<AlertCondition, string> = {
+  BUY_BELOW: "Best buy price below",
+  SELL_ABOVE: "Best sell price above",
+  SPREAD_ABOVE: "Spread above (%)"
+}
+
+export interface AlertRule {
+  id: string
+  asset: string
+  fiat: string
+  condition: AlertCondition
+  threshold: number // price in fiat, or percentage for spread rules
+  paymentMethod?: string // only consider offers accepting this bank/method
+  cooldownMinutes: number // minimum time between two triggers
+  confirmations: number // consecutive matching refreshes before triggering
+  enabled: boolean
+  lastTriggeredAt?: string // ISO 8601
+}
+
+export interface AlertEvent {
+  ruleId: string
+  triggeredAt: string // ISO 8601
+  message: string
+  value: number
+}
+
+export interface AlertMarket {
+  buy: PriceData[]
+  sell: PriceData[]
+}
+
+/**
+ * Computes the value an alert rule watches (best price or spread %) over the
+ * offers in its payment method scope
+ * @returns number | null - null when the scoped market has no data
+ */
+export function getAlertValue(
+  rule: Pick<AlertRule, "condition" | "paymentMethod">,
+  market: AlertMarket
+): number | null {
+  const scope = (offers: PriceData[]) =>
+    rule.paymentMethod
+      ? offers.filter(offer => matchesPaymentMethod(offer, rule.paymentMethod!))
+      : offers
+
+  const { bestBuy, bestSell } = getBestPrices(
+    scope(market.buy),
+    scope(market.sell)
+  )
+
+  switch (rule.condition) {
+    case "BUY_BELOW":
+      return bestBuy?.price ?? null
+    case "SELL_ABOVE":
+      return bestSell?.price ?? null
+    case "SPREAD_ABOVE":
+      return bestBuy && bestSell
+        ? calculateSpread(bestBuy.price, bestSell.price).spreadPercentage
+        : null
+  }
+}
+
+/**
+ * Checks whether a watched value meets a rule's condition
+ */
+export function isAlertConditionMet(
+  rule: Pick<AlertRule, "condition" | "threshold">,
+  value: number
+): boolean {
+  return rule.condition === "BUY_BELOW"
+    ? value < rule.threshold
+    : value > rule.threshold
+}
+
+/**
+ * Checks whether a rule is out of its cooldown period
+ */
+export function isOutOfCooldown(
+  rule: Pick<AlertRule, "cooldownMinutes" | "lastTriggeredAt">,
+  now: Date = new Date()
+): boolean {
+  if (!rule.lastTriggeredAt) return true
+
+  return (
+    now.getTime() - Date.parse(rule.lastTriggeredAt) >=
+    rule.cooldownMinutes * 60 * 1000
+  )
+}
+
+/**
+ * Describes a triggered alert for notifications and the alert log
+ */
+export function describeAlert(
+  rule: Pick<
+    AlertRule,
+    "asset" | "fiat" | "condition" | "threshold" | "paymentMethod"
+  >,
+  value: number
+): string {
+  const scope = rule.paymentMethod ? ` via ${rule.paymentMethod}` : ""
+  const pair = `${rule.asset}/${rule.fiat}`
+
+  switch (rule.condition) {
+    case "BUY_BELOW":
+      return `${pair} best buy${scope} is ${value.toFixed(2)}, below ${rule.threshold}`
+    case "SELL_ABOVE":
+      return `${pair} best sell${scope} is ${value.toFixed(2)}, above ${rule.threshold}`
+    case "SPREAD_ABOVE":
+      return `${pair} spread${scope} is ${value.toFixed(2)}%, above ${rule.threshold}%`
+  }
+}
+
+export interface PriceSample {
+  time: number // epoch ms
+  value: number
+}
+
+/**
+ * Computes the percentage move of a price over the samples taken within the
+ * last `windowMinutes`, from the oldest sample in the window to the latest
+ * @returns number | null - Signed move in %, null with fewer than 2 samples
+ */
+export function getPriceMove(
+  samples: PriceSample[],
+  windowMinutes: number,
+  now: Date = new Date()
+): number | null {
+  const since = now.getTime() - windowMinutes * 60 * 1000
+  const inWindow = samples.filter(sample => sample.time >= since)
+  if (inWindow.length < 2) return null
+
+  const first = inWindow[0].value
+  const last = inWindow[inWindow.length - 1].value
+  return first > 0 ? ((last - first) / first) * 100 : null
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest"
+import recorded from "../../fixtures/exchanges/binance-search.json"
+import { binanceAdapter } from "./binance-adapter"
+import { ExchangeApiError, ExchangeResponseError } from "./exchange-adapters"
+import { makeQuery } from "@/test/queries"
+
+describe("binanceAdapter.parsePage", () => {
+  it("converts the recorded ads and drops the one without a price", () => {
+    const page = binanceAdapter.parsePage(recorded, makeQuery())
+
+    expect(page.total).toBe(4)
+    expect(page.data.map(offer => offer.price)).toEqual([52.35, 52.4, 52.52])
+    expect(page.diagnostics).toEqual({
+      received: 4,
+      accepted: 3,
+      rejected: [
+        {
+          index: 2,
+          adId: "11562788334021582851",
+          reasons: ["adv.price: Expected a positive numeric string"]
+        }
+      ]
+    })
+  })
+
+  it("maps an ad's limits, advertiser and payment methods", () => {
+    const [offer] = binanceAdapter.parsePage(recorded, makeQuery()).data
+
+    expect(offer).toMatchObject({
+      adId: "11562788334021582848",
+      source: "binance",
+      amount: 1520.4,
+      tradeType: "BUY",
+      paymentMethods: [{ payType: "Banesco" }, { payType: "PagoMovil" }],
+      advertiser: {
+        name: "CambiosRapidos",
+        completionRate: 98.76,
+        userType: "merchant"
+      }
+    })
+    expect(offer.limits.minFiat).toBe(1000)
+    expect(offer.limits.minAmount).toBeCloseTo(1000 / 52.35)
+  })
+
+  it("raises the exchange's message when the search fails", () => {
+    expect(() =>
+      binanceAdapter.parsePage(
+        { code: "000002", message: "illegal parameter", success: false },
+        makeQuery()
+      )
+    ).toThrow(new ExchangeApiError("Binance API error: illegal parameter"))
+  })
+
+  it("rejects a response without the expected envelope", () => {
+    expect(() =>
+      binanceAdapter.parsePage({ unexpected: true }, makeQuery())
+    ).toThrow(ExchangeResponseError)
+  })
+})
@@ -0,0 +1,205 @@
+import { z } from "zod"
+import { PriceData } from "./types"
+import {
+  ExchangeAdapter,
+  ExchangeApiError,
+  ExchangeQuery,
+  fetchExchangeJson,
+  NumericString,
+  parseAds,
+  parseEnvelope,
+  PositiveNumericString,
+  toOrderLimits
+} from "./exchange-adapters"
+
+const BINANCE_P2P_API_BASE = "https://p2p.binance.com/bapi/c2c/v2"
+
+// Binance's standard payment window, for ads that do not publish one
+const DEFAULT_PAY_TIME_LIMIT = 15
+
+export interface BinanceSearchPayload {
+  page: number
+  rows: number
+  payTypes: string[]
+  asset: string
+  tradeType: string
+  fiat: string
+  publisherType: string | null
+  transAmount?: number
+  countries?: string[]
+}
+
+// Fields the app reads are required; the rest are nullish so an unrelated
+// upstream change does not reject every ad
+export const BinanceP2PAdSchema = z.object({
+  adv: z.object({
+    advNo: z.string().min(1),
+    classify: z.string().nullish(),
+    tradeType: z.enum(["BUY", "SELL"]),
+    asset: z.string().nullish(),
+    fiatUnit: z.string().nullish(),
+    fiatSymbol: z.string().nullish(),
+    price: PositiveNumericString,
+    initAmount: NumericString.nullish(),
+    surplusAmount: NumericString,
+    maxSingleTransAmount: NumericString,
+    minSingleTransAmount: NumericString,
+    buyerKycLimit: NumericString.nullish(),
+    buyerRegDaysLimit: NumericString.nullish(),
+    buyerBtcPositionLimit: NumericString.nullish(),
+    remarks: z.string().nullish(),
+    autoReplyMsg: z.string().nullish(),
+    payTimeLimit: z.number().nullish(),
+    tradeMethods: z.array(
+      z.object({
+        payId: z.union([z.string(), z.number()]).nullish(),
+        payMethodId: z.string().nullish(),
+        payType: z.string().min(1),
+        payAccount: z.string().nullish(),
+        payBank: z.string().nullish(),
+        paySubBank: z.string().nullish(),
+        identifier: z.string().nullish(),
+        iconUrlColor: z.string().nullish()
+      })
+    ),
+    userTradeCount: z.string().nullish(),
+    userTradeCountSwitchRate: z.string().nullish(),
+    userBuyTradeCount: z.string().nullish(),
+    userSellTradeCount: z.string().nullish(),
+    userGrade: z.number().nullish(),
+    userIdentityIdentifyLevel: z.string().nullish(),
+    tags: z.array(z.string()).nullish()
+  }),
+  advertiser: z.object({
+    userNo: z.string().nullish(),
+    realName: z.string().nullish(),
+    nickName: z.string().nullish(),
+    margin: z.string().nullish(),
+    marginUnit: z.string().nullish(),
+    orderCount: z.union([NumericString, z.number()]),
+    monthOrderCount: z.union([NumericString, z.number()]).nullish(),
+    monthFinishRate: z.union([NumericString, z.number()]),
+    positiveRate: z.union([NumericString, z.number()]),
+    advConfirmTime: z.number().nullish(),
+    email: z.string().nullish(),
+    userType: z.string().nullish(),
+    tagIconUrls: z.array(z.string()).nullish(),
+    userGrade: z.number().nullish(),
+    userIdentityIdentifyLevel: z.union([z.string(), z.number()]).nullish(),
+    userIdentityIdentifyLevelStr: z.string().nullish(),
+    isAdd: z.boolean().nullish()
+  })
+})
+
+/**
+ * Search response envelope. Ads are validated one by one afterwards, so a
+ * malformed ad is dropped instead of failing the whole page.
+ */
+export const BinanceP2PResponseSchema = z.object({
+  code: z.string().nullish(),
+  message: z.string().nullish(),
+  messageDetail: z.string().nullish(),
+  data: z.array(z.unknown()).nullish(),
+  total: z.number().nullish(),
+  success: z.boolean()
+})
+
+export type BinanceP2PAd = z.infer<typeof BinanceP2PAdSchema>
+
+/**
+ * Builds Binance's search payload. Binance's tradeType is the side the user
+ * takes, so it is sent as is.
+ */
+export function toBinancePayload(query: ExchangeQuery): BinanceSearchPayload {
+  return {
+    page: query.page,
+    rows: query.rows,
+    asset: query.asset,
+    tradeType: query.tradeType,
+    fiat: query.fiat,
+    ...query.filters
+  }
+}
+
+/**
+ * Transforms a validated Binance ad into our PriceData format
+ */
+export function toPriceData(
+  ad: BinanceP2PAd,
+  tradeType: "BUY" | "SELL"
+): PriceData {
+  const price = Number(ad.adv.price)
+  const amount = Number(ad.adv.surplusAmount)
+
+  return {
+    adId: ad.adv.advNo,
+    source: "binance",
+    price,
+    amount,
+    limits: toOrderLimits(
+      price,
+      amount,
+      Number(ad.adv.minSingleTransAmount),
+      Number(ad.adv.maxSingleTransAmount)
+    ),
+    paymentMethods: ad.adv.tradeMethods.map(method => ({
+      payType: method.payType,
+      payBank: method.payBank ?? undefined,
+      paySubBank: method.paySubBank ?? undefined,
+      payAccount: method.payAccount ?? undefined
+    })),
+    advertiser: {
+      name: ad.advertiser.nickName || ad.advertiser.realName || "Anonymous",
+      rating: Number(ad.advertiser.positiveRate) * 100,
+      orderCount: Number(ad.advertiser.orderCount),
+      completionRate: Number(ad.advertiser.monthFinishRate) * 100,
+      userType: ad.advertiser.userType ?? "user",
+      monthOrderCount: Number(ad.advertiser.monthOrderCount ?? 0),
+      advConfirmTime: ad.advertiser.advConfirmTime ?? undefined,
+      identityLevel:
+        Number(ad.advertiser.userIdentityIdentifyLevel ?? 0) || undefined
+    },
+    payTimeLimit: ad.adv.payTimeLimit ?? DEFAULT_PAY_TIME_LIMIT,
+    buyerKycLimit: Number(ad.adv.buyerKycLimit ?? 0) > 0,
+    buyerRegDaysLimit: Number(ad.adv.buyerRegDaysLimit ?? 0),
+    tags: ad.adv.tags ?? [],
+    tradeType
+  }
+}
+
+export const binanceAdapter: ExchangeAdapter = {
+  id: "binance",
+  name: "Binance",
+  fetchPage(query) {
+    return fetchExchangeJson(
+      "Binance",
+      `${BINANCE_P2P_API_BASE}/friendly/c2c/adv/search`,
+      { method: "POST", body: JSON.stringify(toBinancePayload(query)) }
+    )
+  },
+  parsePage(raw, query) {
+    const { success, message, messageDetail, data, total } = parseEnvelope(
+      "Binance",
+      BinanceP2PResponseSchema,
+      raw
+    )
+
+    if (!success) {
+      throw new ExchangeApiError(
+        `Binance API error: ${message || messageDetail || "Unknown error"}`
+      )
+    }
+
+    const ads = data ?? []
+    return {
+      success: true,
+      total: total ?? ads.length,
+      ...parseAds(
+        ads,
+        BinanceP2PAdSchema,
+        ad => toPriceData(ad, query.tradeType),
+        ad => (ad as { adv?: { advNo?: unknown } } | null)?.adv?.advNo
+      )
+    }
+  }
+}
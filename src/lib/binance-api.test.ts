@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import axios, { AxiosError, AxiosResponse } from "axios"
+import { fetchP2PPrices, RateLimitError } from "./binance-api"
+
+function rateLimited(retryAfter: string): AxiosError {
+  return new AxiosError(
+    "Request failed with status code 429",
+    "ERR_BAD_REQUEST",
+    undefined,
+    undefined,
+    {
+      status: 429,
+      headers: { "retry-after": retryAfter },
+      data: { error: "Too many requests" }
+    } as unknown as AxiosResponse
+  )
+}
+
+const emptySearch = {
+  data: {
+    success: true,
+    total: 0,
+    data: [],
+    diagnostics: { received: 0, accepted: 0, rejected: [] }
+  }
+}
+
+beforeEach(() => {
+  vi.useFakeTimers()
+  vi.spyOn(console, "log").mockImplementation(() => {})
+  vi.spyOn(console, "error").mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.restoreAllMocks()
+})
+
+describe("fetchP2PPrices retries", () => {
+  it("waits out the server's Retry-After before retrying", async () => {
+    const post = vi
+      .spyOn(axios, "post")
+      .mockRejectedValueOnce(rateLimited("5"))
+      .mockResolvedValueOnce(emptySearch)
+
+    const prices = fetchP2PPrices()
+    await vi.advanceTimersByTimeAsync(4000)
+    expect(post).toHaveBeenCalledTimes(1)
+
+    await vi.advanceTimersByTimeAsync(1000)
+    await expect(prices).resolves.toEqual([])
+    expect(post).toHaveBeenCalledTimes(2)
+  })
+
+  it("gives up right away when asked to wait too long", async () => {
+    const post = vi.spyOn(axios, "post").mockRejectedValue(rateLimited("120"))
+
+    const error = await fetchP2PPrices().catch(error => error)
+
+    expect(error).toBeInstanceOf(RateLimitError)
+    expect(error.message).toBe("Rate limited: Too many requests")
+    expect(error.retryAfterMs).toBe(120000)
+    expect(post).toHaveBeenCalledTimes(1)
+  })
+})
@@ -1,10 +1,54 @@
 import axios from "axios"
-import { PriceData } from "./types"
+import { P2PSearchFilters, PriceData } from "./types"
+import { P2PSearchResponse } from "./p2p-response"
+import { DEFAULT_EXCHANGE } from "./markets"
+import { HistoryInterval, HistoryResponse } from "./history"
+import { RateProvidersResponse, ReferenceRate } from "./reference-rates"
 
 const API_BASE = "/api/p2p"
 
+// Longest Retry-After a request waits out before giving up
+const MAX_RETRY_AFTER_MS = 30000
+
+/**
+ * Raised when the proxy throttles a request; carries how long to wait
+ */
+export class RateLimitError extends Error {
+  constructor(
+    message: string,
+    public retryAfterMs: number
+  ) {
+    super(message)
+  }
+}
+
+/**
+ * Reads a Retry-After header (seconds or an HTTP date) in milliseconds
+ */
+function parseRetryAfter(value: unknown): number | null {
+  if (typeof value !== "string" || value.trim() === "") return null
+
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+/**
+ * Returns how long the server asked us to wait before retrying, if it did
+ */
+function getRetryAfterMs(error: unknown): number | null {
+  if (error instanceof RateLimitError) return error.retryAfterMs
+  if (axios.isAxiosError(error) && error.response?.status === 429) {
+    return parseRetryAfter(error.response.headers["retry-after"])
+  }
+  return null
+}
+
 /**
- * Retry function for API calls
+ * Retry function for API calls. A throttled request waits as long as the
+ * server's Retry-After asks, or fails right away if that is too long.
  */
 async function retryRequest<T>(
   requestFn: () => Promise<T>,
@@ -15,25 +59,114 @@ async function retryRequest<T>(
     try {
       return await requestFn()
     } catch (error) {
-      if (attempt === maxRetries) {
+      const retryAfterMs = getRetryAfterMs(error)
+      if (
+        attempt === maxRetries ||
+        (retryAfterMs !== null && retryAfterMs > MAX_RETRY_AFTER_MS)
+      ) {
         throw error
       }
+
+      const wait = Math.max(delay, retryAfterMs ?? 0)
       console.log(
-        `Request failed, retrying in ${delay}ms... (attempt ${attempt}/${maxRetries})`
+        `Request failed, retrying in ${wait}ms... (attempt ${attempt}/${maxRetries})`
       )
-      await new Promise(resolve => setTimeout(resolve, delay))
+      await new Promise(resolve => setTimeout(resolve, wait))
     }
   }
   throw new Error("Max retries exceeded")
 }
 
 /**
- * Fetches P2P advertisements from Binance
+ * Posts a search to the P2P proxy and maps failures to readable errors
+ */
+async function searchP2P<T extends P2PSearchResponse>(params: {
+  asset: string
+  fiat: string
+  tradeType: "BUY" | "SELL"
+  rows: number
+  page: number
+  depth?: { targetVolume?: number; maxPages: number }
+  filters?: P2PSearchFilters
+  exchange: string // adapter id, or ALL_EXCHANGES
+}): Promise<T> {
+  const { filters, exchange, ...rest } = params
+
+  try {
+    console.log("Fetching P2P prices:", params)
+
+    // tradeType is the side the user takes; adapters map it per exchange
+    const response = await axios.post<T>(
+      `${API_BASE}/${exchange}`,
+      { ...rest, ...filters },
+      {
+        timeout: params.depth ? 60000 : 15000 // depth walks several pages
+      }
+    )
+
+    const { total, diagnostics } = response.data
+    console.log("API response received:", {
+      total,
+      dataLength: response.data.data.length
+    })
+
+    // The proxy already dropped these; surface them for debugging
+    if (diagnostics.rejected.length > 0) {
+      console.warn(
+        `${diagnostics.rejected.length} of ${diagnostics.received} ads were rejected:`,
+        diagnostics.rejected
+      )
+    }
+
+    return response.data
+  } catch (error) {
+    console.error("Error in fetchP2PPrices:", error)
+
+    if (axios.isAxiosError(error)) {
+      if (error.response?.status === 429) {
+        throw new RateLimitError(
+          `Rate limited: ${error.response.data?.error || error.message}`,
+          getRetryAfterMs(error) ?? 0
+        )
+      }
+      if (error.response?.status === 500) {
+        throw new Error(
+          `Server error: ${error.response.data?.error || error.message}`
+        )
+      }
+      if (error.response?.status === 502) {
+        throw new Error(
+          `Upstream error: ${error.response.data?.error || error.message}`
+        )
+      }
+      if (error.response?.status === 400) {
+        throw new Error(
+          `Bad request: ${error.response.data?.error || error.message}`
+        )
+      }
+      if (error.code === "ECONNABORTED") {
+        throw new Error("Request timeout - please try again")
+      }
+      throw new Error(`Network error: ${error.message}`)
+    }
+    if (error instanceof Error) {
+      throw new Error(`API error: ${error.message}`)
+    }
+    throw new Error("Unknown error occurred while fetching P2P prices")
+  }
+}
+
+/**
+ * Fetches P2P advertisements from one exchange or all of them
  * @param asset - The cryptocurrency asset (e.g., 'USDT')
  * @param fiat - The fiat currency (e.g., 'VES' for Venezuelan Bolivar)
  * @param tradeType - The trade type ('BUY' or 'SELL')
  * @param rows - Number of results to return (default: 20)
  * @param page - Page number (default: 1)
+ * @param filters - Filters the exchange applies before paging, e.g.,
+ * payTypes to get a full page of offers for one bank (default: none)
+ * @param exchange - Exchange id, or ALL_EXCHANGES to merge every enabled
+ * exchange (default: DEFAULT_EXCHANGE)
  * @returns Promise<PriceData[]> - Array of processed price data
  */
 export async function fetchP2PPrices(
@@ -41,187 +174,191 @@ export async function fetchP2PPrices(
   fiat: string = "VES",
   tradeType: "BUY" | "SELL" = "BUY",
   rows: number = 20,
-  page: number = 1
+  page: number = 1,
+  filters: P2PSearchFilters = {},
+  exchange: string = DEFAULT_EXCHANGE
 ): Promise<PriceData[]> {
   return retryRequest(async () => {
-    try {
-      console.log("Fetching P2P prices:", {
-        asset,
-        fiat,
-        tradeType,
-        rows,
-        page
-      })
+    const response = await searchP2P({
+      asset,
+      fiat,
+      tradeType,
+      rows,
+      page,
+      filters,
+      exchange
+    })
+    return response.data
+  })
+}
 
-      // For BUY requests, we need to look for SELL offers (people selling USDT)
-      // For SELL requests, we need to look for BUY offers (people buying USDT)
-      const binanceTradeType = tradeType === "BUY" ? "SELL" : "BUY"
+export interface MarketDepth {
+  prices: PriceData[]
+  pages: number // pages walked
+  volume: number // cumulative asset available across the offers
+  targetReached: boolean
+  exhausted: boolean // the whole book was fetched
+}
 
-      const response = await axios.post(
-        API_BASE,
-        {
-          page,
-          rows,
-          payTypes: [],
-          asset,
-          tradeType: binanceTradeType,
-          fiat,
-          publisherType: null
-        },
-        {
-          timeout: 15000 // 15 second timeout
-        }
-      )
+/**
+ * Fetches offers page by page until enough volume is available
+ * @param asset - The cryptocurrency asset (e.g., 'USDT')
+ * @param fiat - The fiat currency (e.g., 'VES')
+ * @param tradeType - The trade type ('BUY' or 'SELL')
+ * @param targetVolume - Cumulative asset amount to reach (default: whole book)
+ * @param maxPages - Maximum number of 20-offer pages to walk (default: 10)
+ * @param filters - Filters the exchange applies before paging (default: none)
+ * @param exchange - Exchange id, or ALL_EXCHANGES (default: DEFAULT_EXCHANGE)
+ * @returns Promise<MarketDepth> - Offers and how far the walk got
+ */
+export async function fetchP2PDepth(
+  asset: string = "USDT",
+  fiat: string = "VES",
+  tradeType: "BUY" | "SELL" = "BUY",
+  targetVolume?: number,
+  maxPages: number = 10,
+  filters: P2PSearchFilters = {},
+  exchange: string = DEFAULT_EXCHANGE
+): Promise<MarketDepth> {
+  return retryRequest(async () => {
+    const response = await searchP2P<
+      P2PSearchResponse & { depth: Omit<MarketDepth, "prices"> }
+    >({
+      asset,
+      fiat,
+      tradeType,
+      rows: 20,
+      page: 1,
+      depth: { targetVolume, maxPages },
+      filters,
+      exchange
+    })
 
-      console.log("API response received:", {
-        success: response.data.success,
-        total: response.data.total,
-        dataLength: response.data.data?.length || 0
-      })
+    return { ...response.depth, prices: response.data }
+  })
+}
 
-      if (!response.data.success) {
-        throw new Error(
-          `Binance API error: ${response.data.message || "Unknown error"}`
+/**
+ * Picks the best prices from a market snapshot (lowest for buy, highest for sell)
+ * @param buy - Offers to buy the asset
+ * @param sell - Offers to sell the asset
+ * @returns { bestBuy: PriceData | null, bestSell: PriceData | null }
+ */
+export function getBestPrices(
+  buy: PriceData[],
+  sell: PriceData[]
+): { bestBuy: PriceData | null; bestSell: PriceData | null } {
+  const bestBuy =
+    buy.length > 0
+      ? buy.reduce((best, current) =>
+          current.price < best.price ? current : best
         )
-      }
+      : null
 
-      // Transform the data into our PriceData format
-      return response.data.data.map(
-        (ad: {
-          adv: {
-            price: string
-            surplusAmount: string
-            tradeType: string
-            tradeMethods: { payType: string }[]
-          }
-          advertiser: {
-            nickName?: string
-            realName?: string
-            positiveRate: string
-            orderCount: string
-            monthFinishRate: string
-          }
-        }) => ({
-          price: parseFloat(ad.adv.price),
-          amount: parseFloat(ad.adv.surplusAmount),
-          paymentMethods: ad.adv.tradeMethods.map(
-            (method: {
-              payType: string
-              payBank?: string
-              paySubBank?: string
-              payAccount?: string
-            }) => ({
-              payType: method.payType,
-              payBank: method.payBank,
-              paySubBank: method.paySubBank,
-              payAccount: method.payAccount
-            })
-          ),
-          advertiser: {
-            name:
-              ad.advertiser.nickName || ad.advertiser.realName || "Anonymous",
-            rating: parseFloat(ad.advertiser.positiveRate) * 100,
-            orderCount: parseInt(ad.advertiser.orderCount),
-            completionRate: parseFloat(ad.advertiser.monthFinishRate) * 100
-          },
-          tradeType: ad.adv.tradeType as "BUY" | "SELL"
-        })
-      )
-    } catch (error) {
-      console.error("Error in fetchP2PPrices:", error)
+  const bestSell =
+    sell.length > 0
+      ? sell.reduce((best, current) =>
+          current.price > best.price ? current : best
+        )
+      : null
 
-      if (axios.isAxiosError(error)) {
-        if (error.response?.status === 500) {
-          throw new Error(
-            `Server error: ${error.response.data?.error || error.message}`
-          )
-        }
-        if (error.response?.status === 400) {
-          throw new Error(
-            `Bad request: ${error.response.data?.error || error.message}`
-          )
-        }
-        if (error.code === "ECONNABORTED") {
-          throw new Error("Request timeout - please try again")
-        }
-        throw new Error(`Network error: ${error.message}`)
-      }
-      if (error instanceof Error) {
-        throw new Error(`API error: ${error.message}`)
-      }
-      throw new Error("Unknown error occurred while fetching P2P prices")
-    }
-  })
+  return { bestBuy, bestSell }
 }
 
 /**
- * Fetches both buy and sell prices for comparison
+ * Fetches recorded price history for one side of a pair
  * @param asset - The cryptocurrency asset (e.g., 'USDT')
  * @param fiat - The fiat currency (e.g., 'VES')
- * @param rows - Number of results per type (default: 10)
- * @returns Promise<{ buy: PriceData[], sell: PriceData[] }>
+ * @param tradeType - The trade type ('BUY' or 'SELL')
+ * @param interval - Bucket width ('1m', '5m' or '1h')
+ * @param from - Start of the range
+ * @param to - End of the range (default: now)
+ * @returns Promise<HistoryResponse> - OHLC buckets for the range
  */
-export async function fetchBuySellPrices(
-  asset: string = "USDT",
-  fiat: string = "VES",
-  rows: number = 10
-): Promise<{ buy: PriceData[]; sell: PriceData[] }> {
+export async function fetchPriceHistory(
+  asset: string,
+  fiat: string,
+  tradeType: "BUY" | "SELL",
+  interval: HistoryInterval,
+  from: Date,
+  to: Date = new Date()
+): Promise<HistoryResponse> {
   return retryRequest(async () => {
     try {
-      const [buyPrices, sellPrices] = await Promise.all([
-        fetchP2PPrices(asset, fiat, "BUY", rows, 1),
-        fetchP2PPrices(asset, fiat, "SELL", rows, 1)
-      ])
-
-      return {
-        buy: buyPrices,
-        sell: sellPrices
-      }
+      const response = await axios.get<HistoryResponse>(`${API_BASE}/history`, {
+        params: {
+          asset,
+          fiat,
+          tradeType,
+          interval,
+          from: from.toISOString(),
+          to: to.toISOString()
+        },
+        timeout: 15000
+      })
+      return response.data
     } catch (error) {
-      throw new Error(
-        `Failed to fetch buy/sell prices: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`
-      )
+      if (axios.isAxiosError(error)) {
+        throw new Error(
+          `History error: ${error.response?.data?.error || error.message}`
+        )
+      }
+      throw error
     }
   })
 }
 
+export interface ReferenceRatesResult {
+  rates: ReferenceRate[]
+  errors: { provider: string; error: string }[] // providers that failed
+}
+
 /**
- * Gets the best prices (lowest for buy, highest for sell)
- * @param asset - The cryptocurrency asset
- * @param fiat - The fiat currency
- * @returns Promise<{ bestBuy: PriceData | null, bestSell: PriceData | null }>
+ * Fetches the reference rates of every enabled provider quoting a fiat.
+ * Providers are fetched independently, so one failing does not hide others.
+ * @param fiat - The fiat currency (e.g., 'VES')
+ * @returns Promise<ReferenceRatesResult> - Rates and per-provider errors
  */
-export async function getBestPrices(
-  asset: string = "USDT",
-  fiat: string = "VES"
-): Promise<{ bestBuy: PriceData | null; bestSell: PriceData | null }> {
-  return retryRequest(async () => {
-    try {
-      const { buy, sell } = await fetchBuySellPrices(asset, fiat, 15)
-
-      const bestBuy =
-        buy.length > 0
-          ? buy.reduce((best, current) =>
-              current.price < best.price ? current : best
-            )
-          : null
-
-      const bestSell =
-        sell.length > 0
-          ? sell.reduce((best, current) =>
-              current.price > best.price ? current : best
-            )
-          : null
-
-      return { bestBuy, bestSell }
-    } catch (error) {
-      throw new Error(
-        `Failed to get best prices: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`
-      )
+export async function fetchReferenceRates(
+  fiat: string
+): Promise<ReferenceRatesResult> {
+  const getErrorMessage = (error: unknown) =>
+    axios.isAxiosError(error)
+      ? error.response?.data?.error || error.message
+      : error instanceof Error
+        ? error.message
+        : "Failed to fetch reference rate"
+
+  const { data } = await axios.get<RateProvidersResponse>("/api/rates", {
+    params: { fiat },
+    timeout: 15000
+  })
+
+  const results = await Promise.allSettled(
+    data.providers.map(provider =>
+      retryRequest(async () => {
+        const response = await axios.get<ReferenceRate>(
+          `/api/rates/${provider.id}`,
+          { params: { fiat }, timeout: 15000 }
+        )
+        return response.data
+      })
+    )
+  )
+
+  const rates: ReferenceRate[] = []
+  const errors: ReferenceRatesResult["errors"] = []
+
+  results.forEach((result, index) => {
+    if (result.status === "fulfilled") {
+      rates.push(result.value)
+    } else {
+      errors.push({
+        provider: data.providers[index].name,
+        error: getErrorMessage(result.reason)
+      })
     }
   })
+
+  return { rates, errors }
 }
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest"
+import recorded from "../../fixtures/exchanges/bybit-items.json"
+import { bybitAdapter } from "./bybit-adapter"
+import { ExchangeApiError, ExchangeResponseError } from "./exchange-adapters"
+import { makeQuery } from "@/test/queries"
+
+describe("bybitAdapter.parsePage", () => {
+  it("converts the recorded items and drops the one without a price", () => {
+    const page = bybitAdapter.parsePage(recorded, makeQuery())
+
+    expect(page.total).toBe(3)
+    expect(page.data.map(offer => offer.price)).toEqual([52.28, 52.5])
+    expect(page.diagnostics.received).toBe(3)
+    expect(page.diagnostics.accepted).toBe(2)
+    expect(page.diagnostics.rejected).toHaveLength(1)
+    expect(page.diagnostics.rejected[0]).toMatchObject({
+      index: 2,
+      adId: "1785512345678901250"
+    })
+    expect(page.diagnostics.rejected[0].reasons).toContainEqual(
+      expect.stringMatching(/^price:/)
+    )
+  })
+
+  it("uses the recent completion rate for the rating and caps limits by availability", () => {
+    const [offer] = bybitAdapter.parsePage(recorded, makeQuery()).data
+
+    expect(offer).toMatchObject({
+      adId: "1785512345678901248",
+      source: "bybit",
+      amount: 2100.5,
+      paymentMethods: [{ payType: "14" }, { payType: "64" }],
+      advertiser: {
+        name: "BybitVES_Pro",
+        rating: 99,
+        completionRate: 99,
+        userType: "merchant"
+      }
+    })
+    expect(offer.limits.maxAmount).toBeCloseTo(100000 / 52.28)
+  })
+
+  it("raises the exchange's message when the search fails", () => {
+    expect(() =>
+      bybitAdapter.parsePage(
+        { ret_code: 10006, ret_msg: "Too many visits", result: null },
+        makeQuery()
+      )
+    ).toThrow(new ExchangeApiError("Bybit API error: Too many visits"))
+  })
+
+  it("rejects a response without the expected envelope", () => {
+    expect(() =>
+      bybitAdapter.parsePage({ ret_msg: "SUCCESS" }, makeQuery())
+    ).toThrow(ExchangeResponseError)
+  })
+})
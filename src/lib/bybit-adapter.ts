@@ -0,0 +1,139 @@
+import { z } from "zod"
+import { PriceData } from "./types"
+import {
+  ExchangeAdapter,
+  ExchangeApiError,
+  ExchangeQuery,
+  fetchExchangeJson,
+  NumericString,
+  parseAds,
+  parseEnvelope,
+  PositiveNumericString,
+  toOrderLimits
+} from "./exchange-adapters"
+
+const BYBIT_P2P_API_BASE = "https://api2.bybit.com/fiat/otc"
+
+// Bybit's standard payment window, for ads that do not publish one
+const DEFAULT_PAY_TIME_LIMIT = 15
+
+export const BybitP2PAdSchema = z.object({
+  id: z.string().min(1),
+  nickName: z.string().nullish(),
+  price: PositiveNumericString,
+  lastQuantity: NumericString, // amount still available
+  minAmount: NumericString, // fiat order limits
+  maxAmount: NumericString,
+  payments: z.array(z.string().min(1)), // payment method ids
+  recentOrderNum: z.number(),
+  recentExecuteRate: z.number(), // percent of recent orders completed
+  authTag: z.array(z.string()).nullish(), // verified advertiser badges
+  paymentPeriod: z.number().nullish() // minutes
+})
+
+export const BybitP2PResponseSchema = z.object({
+  ret_code: z.number(),
+  ret_msg: z.string().nullish(),
+  result: z
+    .object({
+      count: z.number().nullish(),
+      items: z.array(z.unknown()).nullish()
+    })
+    .nullish()
+})
+
+export type BybitP2PAd = z.infer<typeof BybitP2PAdSchema>
+
+/**
+ * Builds Bybit's search payload. Bybit's side is "1" for ads the user buys
+ * from and "0" for ads the user sells to; country filters are not supported.
+ */
+export function toBybitPayload(query: ExchangeQuery) {
+  return {
+    userId: "",
+    tokenId: query.asset,
+    currencyId: query.fiat,
+    payment: query.filters.payTypes,
+    side: query.tradeType === "BUY" ? "1" : "0",
+    size: String(query.rows),
+    page: String(query.page),
+    amount: query.filters.transAmount?.toString() ?? "",
+    authMaker: query.filters.publisherType === "merchant",
+    canTrade: false
+  }
+}
+
+/**
+ * Transforms a validated Bybit ad into our PriceData format. Bybit publishes
+ * no rating, so its recent completion rate stands in for it.
+ */
+export function toPriceData(
+  ad: BybitP2PAd,
+  tradeType: "BUY" | "SELL"
+): PriceData {
+  const price = Number(ad.price)
+  const amount = Number(ad.lastQuantity)
+
+  return {
+    adId: ad.id,
+    source: "bybit",
+    price,
+    amount,
+    limits: toOrderLimits(
+      price,
+      amount,
+      Number(ad.minAmount),
+      Number(ad.maxAmount)
+    ),
+    paymentMethods: ad.payments.map(payType => ({ payType })),
+    advertiser: {
+      name: ad.nickName || "Anonymous",
+      rating: ad.recentExecuteRate,
+      orderCount: ad.recentOrderNum,
+      completionRate: ad.recentExecuteRate,
+      userType: (ad.authTag ?? []).length > 0 ? "merchant" : "user",
+      monthOrderCount: ad.recentOrderNum
+    },
+    payTimeLimit: ad.paymentPeriod ?? DEFAULT_PAY_TIME_LIMIT,
+    buyerKycLimit: false,
+    buyerRegDaysLimit: 0,
+    tags: [],
+    tradeType
+  }
+}
+
+export const bybitAdapter: ExchangeAdapter = {
+  id: "bybit",
+  name: "Bybit",
+  fetchPage(query) {
+    return fetchExchangeJson("Bybit", `${BYBIT_P2P_API_BASE}/item/online`, {
+      method: "POST",
+      body: JSON.stringify(toBybitPayload(query))
+    })
+  },
+  parsePage(raw, query) {
+    const { ret_code, ret_msg, result } = parseEnvelope(
+      "Bybit",
+      BybitP2PResponseSchema,
+      raw
+    )
+
+    if (ret_code !== 0) {
+      throw new ExchangeApiError(
+        `Bybit API error: ${ret_msg || "Unknown error"}`
+      )
+    }
+
+    const ads = result?.items ?? []
+    return {
+      success: true,
+      total: result?.count ?? ads.length,
+      ...parseAds(
+        ads,
+        BybitP2PAdSchema,
+        ad => toPriceData(ad, query.tradeType),
+        ad => (ad as { id?: unknown } | null)?.id
+      )
+    }
+  }
+}
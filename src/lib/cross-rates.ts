@@ -0,0 +1,143 @@
+import { PriceData, TrustFilters } from "./types"
+import {
+  calculateBestTradingRoute,
+  calculateRouteWithinBudget,
+  TradingRoute
+} from "./trading-calculator"
+import { getBestPrices } from "./binance-api"
+import { ROUTE_OBJECTIVES, RouteObjective } from "./route-scoring"
+
+/**
+ * The two books a conversion through one intermediate asset trades on
+ */
+export interface CrossRateMarket {
+  asset: string
+  buy: PriceData[] // offers to buy the asset with the source fiat
+  sell: PriceData[] // offers to sell the asset for the target fiat
+}
+
+export interface CrossRateOptions {
+  maxOffers?: number
+  trustFilters?: TrustFilters
+  objective?: RouteObjective
+}
+
+export interface CrossRatePath {
+  asset: string
+  buyRoute: TradingRoute // source fiat → asset
+  sellRoute: TradingRoute // asset → target fiat
+  amountIn: number // source fiat spent
+  assetAmount: number
+  amountOut: number // target fiat received
+  effectiveRate: number // target fiat received per unit of source fiat
+  topOfBookRate: number // rate at the best price of both books
+  slippagePercentage: number // effective rate shortfall vs top of book
+}
+
+export interface CrossRateFailure {
+  asset: string
+  reason: string
+}
+
+export interface CrossRateComparison {
+  from: string
+  to: string
+  amount: number
+  paths: CrossRatePath[] // best effective rate first
+  failures: CrossRateFailure[]
+}
+
+/**
+ * Converts an amount of one fiat into another through each intermediate
+ * asset: the best route buying the asset with the whole amount, then the
+ * best route selling what was bought. Paths are ranked by the effective
+ * rate, so depth and order limits count, not just the top of each book.
+ * @param markets - Books for each intermediate asset
+ * @param from - Source fiat (e.g., 'VES')
+ * @param to - Target fiat (e.g., 'COP')
+ * @param amount - Source fiat to convert
+ * @param options - Route options; routes are the cheapest by default
+ * @returns CrossRateComparison - Ranked paths and the assets that failed
+ */
+export function compareCrossRates(
+  markets: CrossRateMarket[],
+  from: string,
+  to: string,
+  amount: number,
+  {
+    maxOffers = 5,
+    trustFilters = {},
+    objective = ROUTE_OBJECTIVES.cheapest
+  }: CrossRateOptions = {}
+): CrossRateComparison {
+  const paths: CrossRatePath[] = []
+  const failures: CrossRateFailure[] = []
+
+  markets.forEach(market => {
+    const { asset } = market
+    const { bestBuy, bestSell } = getBestPrices(market.buy, market.sell)
+
+    if (!bestBuy || !bestSell) {
+      failures.push({
+        asset,
+        reason: `No ${!bestBuy ? `${asset}/${from} buy` : `${asset}/${to} sell`} offers`
+      })
+      return
+    }
+
+    try {
+      const { bestRoute: buyRoute } = calculateRouteWithinBudget(
+        assetAmount =>
+          calculateBestTradingRoute(
+            market.buy,
+            assetAmount,
+            maxOffers,
+            undefined,
+            { asset, fiat: from },
+            trustFilters,
+            objective
+          ),
+        amount,
+        bestBuy.price
+      )
+      const { bestRoute: sellRoute } = calculateBestTradingRoute(
+        market.sell,
+        buyRoute.totalAmount,
+        maxOffers,
+        undefined,
+        { asset, fiat: to },
+        trustFilters,
+        objective
+      )
+
+      const topOfBookRate = bestSell.price / bestBuy.price
+      const effectiveRate = sellRoute.totalCost / buyRoute.totalCost
+
+      paths.push({
+        asset,
+        buyRoute,
+        sellRoute,
+        amountIn: buyRoute.totalCost,
+        assetAmount: buyRoute.totalAmount,
+        amountOut: sellRoute.totalCost,
+        effectiveRate,
+        topOfBookRate,
+        slippagePercentage:
+          ((topOfBookRate - effectiveRate) / topOfBookRate) * 100
+      })
+    } catch (error) {
+      failures.push({
+        asset,
+        reason: error instanceof Error ? error.message : "No route found"
+      })
+    }
+  })
+
+  return {
+    from,
+    to,
+    amount,
+    paths: paths.sort((a, b) => b.effectiveRate - a.effectiveRate),
+    failures
+  }
+}
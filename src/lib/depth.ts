@@ -0,0 +1,51 @@
+import { PriceData } from "./types"
+
+/**
+ * One price level of a cumulative depth curve
+ */
+export interface DepthStep {
+  price: number
+  amount: number // asset available at this price level
+  cumulative: number // asset available at this price or better
+  offers: PriceData[] // advertisers contributing to this level
+}
+
+/**
+ * Builds the cumulative depth curve of one side of the book, best price
+ * first (ascending for BUY, descending for SELL). Offers at the same price
+ * are merged into a single step.
+ * @param offers - Offers of one side
+ * @param tradeType - Side of the offers
+ * @returns DepthStep[] - Price levels from best to worst
+ */
+export function buildDepthSteps(
+  offers: PriceData[],
+  tradeType: "BUY" | "SELL"
+): DepthStep[] {
+  const sorted = [...offers].sort((a, b) =>
+    tradeType === "BUY" ? a.price - b.price : b.price - a.price
+  )
+
+  const steps: DepthStep[] = []
+  let cumulative = 0
+
+  sorted.forEach(offer => {
+    cumulative += offer.amount
+    const last = steps[steps.length - 1]
+
+    if (last && last.price === offer.price) {
+      last.amount += offer.amount
+      last.cumulative = cumulative
+      last.offers.push(offer)
+    } else {
+      steps.push({
+        price: offer.price,
+        amount: offer.amount,
+        cumulative,
+        offers: [offer]
+      })
+    }
+  })
+
+  return steps
+}
@@ -0,0 +1,185 @@
+import { z } from "zod"
+import { P2PSearchFiltersSchema, PriceData } from "./types"
+import { P2PDiagnostics, P2PSearchResponse, RejectedAd } from "./p2p-response"
+
+/**
+ * Returns how long an exchange may take to answer, from
+ * P2P_EXCHANGE_TIMEOUT_MS (default 15 seconds)
+ */
+export function getExchangeTimeoutMs(): number {
+  return Number(process.env.P2P_EXCHANGE_TIMEOUT_MS ?? 15000)
+}
+
+// Exchanges send numbers as strings; these must parse to finite numbers
+export const NumericString = z
+  .string()
+  .refine(
+    value => value.trim() !== "" && Number.isFinite(Number(value)),
+    "Expected a numeric string"
+  )
+
+export const PositiveNumericString = z
+  .string()
+  .refine(
+    value => Number.isFinite(Number(value)) && Number(value) > 0,
+    "Expected a positive numeric string"
+  )
+
+export type ExchangeSearchFilters = z.output<typeof P2PSearchFiltersSchema>
+
+/**
+ * One page of a P2P search in exchange-neutral terms
+ */
+export interface ExchangeQuery {
+  asset: string
+  fiat: string
+  tradeType: "BUY" | "SELL" // the side the user takes
+  page: number // 1-based
+  rows: number
+  filters: ExchangeSearchFilters
+}
+
+/**
+ * A P2P market. fetchPage talks to the exchange and returns its raw JSON;
+ * parsePage is pure, so adapters can be checked against recorded responses
+ * without network access.
+ */
+export interface ExchangeAdapter {
+  id: string
+  name: string
+  // The exchange answers with every ad of a side at once: parsePage returns
+  // the whole book, which is fetched once per search and paged locally
+  fullBook?: boolean
+  fetchPage: (query: ExchangeQuery) => Promise<unknown>
+  parsePage: (raw: unknown, query: ExchangeQuery) => P2PSearchResponse
+}
+
+/**
+ * Raised when an exchange answers but reports the search as unsuccessful
+ */
+export class ExchangeApiError extends Error {}
+
+/**
+ * Raised when an exchange response does not have the expected envelope, so
+ * not a single ad can be trusted
+ */
+export class ExchangeResponseError extends Error {}
+
+/**
+ * Formats validation issues as "path: message" strings, or just the message
+ * for issues with the value as a whole
+ */
+export function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue =>
+    issue.path.length > 0
+      ? `${issue.path.join(".")}: ${issue.message}`
+      : issue.message
+  )
+}
+
+/**
+ * Validates an exchange's response envelope, failing the whole page when it
+ * does not match
+ */
+export function parseEnvelope<T>(
+  exchange: string,
+  schema: z.ZodType<T>,
+  raw: unknown
+): T {
+  const parsed = schema.safeParse(raw)
+
+  if (!parsed.success) {
+    throw new ExchangeResponseError(
+      `Unexpected ${exchange} response: ${formatIssues(parsed.error).join(", ")}`
+    )
+  }
+
+  return parsed.data
+}
+
+/**
+ * Validates ads one by one and converts the valid ones. Malformed ads are
+ * dropped and listed in the diagnostics instead of failing the page.
+ * @param ads - Raw ads of one page
+ * @param schema - Schema of a single ad
+ * @param toOffer - Converts a validated ad
+ * @param getAdId - Reads the id of an ad that failed validation, if any
+ */
+export function parseAds<T>(
+  ads: unknown[],
+  schema: z.ZodType<T>,
+  toOffer: (ad: T) => PriceData,
+  getAdId: (ad: unknown) => unknown
+): { data: PriceData[]; diagnostics: P2PDiagnostics } {
+  const data: PriceData[] = []
+  const rejected: RejectedAd[] = []
+
+  ads.forEach((ad, index) => {
+    const parsed = schema.safeParse(ad)
+
+    if (parsed.success) {
+      data.push(toOffer(parsed.data))
+      return
+    }
+
+    const adId = getAdId(ad)
+    rejected.push({
+      index,
+      adId: typeof adId === "string" && adId ? adId : null,
+      reasons: formatIssues(parsed.error)
+    })
+  })
+
+  return {
+    data,
+    diagnostics: { received: ads.length, accepted: data.length, rejected }
+  }
+}
+
+/**
+ * Converts fiat order limits into asset amounts at the ad's price, capped by
+ * the amount still available
+ */
+export function toOrderLimits(
+  price: number,
+  available: number,
+  minFiat: number,
+  maxFiat: number
+): PriceData["limits"] {
+  return {
+    minFiat,
+    maxFiat,
+    minAmount: price > 0 ? minFiat / price : 0,
+    maxAmount: price > 0 ? Math.min(maxFiat / price, available) : 0
+  }
+}
+
+/**
+ * Requests JSON from an exchange's public API
+ */
+export async function fetchExchangeJson(
+  exchange: string,
+  url: string,
+  init: RequestInit = {}
+): Promise<unknown> {
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      "User-Agent": "Mozilla/5.0 (compatible; Camveo-P2P/1.0)",
+      ...init.headers
+    },
+    signal: AbortSignal.timeout(getExchangeTimeoutMs())
+  })
+
+  if (!response.ok) {
+    console.error(
+      `${exchange} API error:`,
+      response.status,
+      response.statusText
+    )
+    throw new Error(`${exchange} API responded with status: ${response.status}`)
+  }
+
+  return response.json()
+}
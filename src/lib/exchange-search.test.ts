@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import recorded from "../../fixtures/exchanges/okx-books.json"
+import { searchExchange, searchExchangeDepth } from "./exchange-search"
+import { okxAdapter } from "./okx-adapter"
+import { makeQuery } from "@/test/queries"
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {})
+  vi.spyOn(console, "warn").mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe("full book exchanges", () => {
+  it("page the book locally", async () => {
+    vi.spyOn(okxAdapter, "fetchPage").mockResolvedValue(recorded)
+
+    const { value } = await searchExchange(
+      okxAdapter,
+      makeQuery({ page: 2, rows: 1 })
+    )
+
+    expect(value.total).toBe(2)
+    expect(value.data.map(offer => offer.advertiser.name)).toEqual(["juanp"])
+  })
+
+  it("fetch the book once per depth walk and report its diagnostics once", async () => {
+    const fetchPage = vi
+      .spyOn(okxAdapter, "fetchPage")
+      .mockResolvedValue(recorded)
+
+    const { value, depth } = await searchExchangeDepth(
+      okxAdapter,
+      makeQuery({ rows: 1 }),
+      { maxPages: 5 }
+    )
+
+    expect(fetchPage).toHaveBeenCalledTimes(1)
+    expect(value.data.map(offer => offer.advertiser.name)).toEqual([
+      "VzlaCripto",
+      "juanp"
+    ])
+    expect(value.diagnostics).toMatchObject({ received: 3, accepted: 2 })
+    expect(value.diagnostics.rejected).toHaveLength(1)
+    expect(depth).toMatchObject({ pages: 2, exhausted: true })
+  })
+})
@@ -0,0 +1,399 @@
+import { CacheResult, CacheStatus, createResponseCache } from "./response-cache"
+import { createPriceSnapshot } from "./history"
+import { isHistoryEnabled, recordSnapshot } from "./history-store"
+import { P2PSearchResponse, RejectedAd, SourceStatus } from "./p2p-response"
+import { ExchangeAdapter, ExchangeQuery } from "./exchange-adapters"
+import { binanceAdapter } from "./binance-adapter"
+import { okxAdapter } from "./okx-adapter"
+import { bybitAdapter } from "./bybit-adapter"
+import { DEFAULT_EXCHANGE } from "./markets"
+import { fetchMockPage, getMockScenario, isMockUpstream } from "./mock-upstream"
+import { PriceData } from "./types"
+
+/**
+ * Exchanges are looked up by id, so adding one only takes an adapter and an
+ * entry here and in SUPPORTED_EXCHANGES
+ */
+const EXCHANGE_ADAPTERS: ExchangeAdapter[] = [
+  binanceAdapter,
+  okxAdapter,
+  bybitAdapter
+]
+
+// Price history tracks one market per pair, so only this exchange records it
+const HISTORY_EXCHANGE = DEFAULT_EXCHANGE
+
+// Shared across requests so tabs and refreshes reuse upstream responses
+const searchCache = createResponseCache<P2PSearchResponse>({
+  ttlMs: Number(process.env.P2P_CACHE_TTL_MS ?? 10000),
+  staleMs: Number(process.env.P2P_CACHE_STALE_MS ?? 50000)
+})
+
+/**
+ * Returns the exchanges enabled by P2P_EXCHANGES (a comma-separated list of
+ * ids, default every adapter)
+ */
+export function getExchangeAdapters(): ExchangeAdapter[] {
+  const enabled = process.env.P2P_EXCHANGES?.split(",").map(id => id.trim())
+
+  return enabled
+    ? EXCHANGE_ADAPTERS.filter(adapter => enabled.includes(adapter.id))
+    : EXCHANGE_ADAPTERS
+}
+
+/**
+ * Finds an enabled exchange by id
+ */
+export function getExchangeAdapter(id: string): ExchangeAdapter | null {
+  return getExchangeAdapters().find(adapter => adapter.id === id) ?? null
+}
+
+/**
+ * Builds the cache key for a search; list filters are sorted so their order
+ * does not split the cache, and full books are shared by all their pages.
+ * Mock responses are kept apart per scenario.
+ */
+function getCacheKey(adapter: ExchangeAdapter, query: ExchangeQuery): string {
+  const { payTypes, publisherType, transAmount, countries } = query.filters
+
+  return JSON.stringify([
+    isMockUpstream() ? `mock:${getMockScenario()}` : "live",
+    adapter.id,
+    query.asset,
+    query.fiat,
+    query.tradeType,
+    adapter.fullBook ? null : query.page,
+    adapter.fullBook ? null : query.rows,
+    [...payTypes].sort(),
+    publisherType,
+    transAmount ?? null,
+    [...countries].sort()
+  ])
+}
+
+/**
+ * Checks whether a search is an unfiltered first page, which holds the best
+ * offers of the whole market
+ */
+function isMarketSnapshot(query: ExchangeQuery): boolean {
+  const { payTypes, publisherType, transAmount, countries } = query.filters
+
+  return (
+    query.page === 1 &&
+    payTypes.length === 0 &&
+    publisherType === null &&
+    transAmount === undefined &&
+    countries.length === 0
+  )
+}
+
+/**
+ * Records a history snapshot for market snapshots of the history exchange.
+ * Mock responses are never recorded, and recording failures never fail the
+ * search.
+ */
+function recordSearch(
+  exchange: string,
+  query: ExchangeQuery,
+  data: P2PSearchResponse
+): void {
+  if (
+    isMockUpstream() ||
+    exchange !== HISTORY_EXCHANGE ||
+    !isHistoryEnabled() ||
+    !isMarketSnapshot(query)
+  ) {
+    return
+  }
+
+  const snapshot = createPriceSnapshot(
+    query.asset,
+    query.fiat,
+    query.tradeType,
+    data.data
+  )
+
+  if (snapshot) {
+    recordSnapshot(snapshot).catch(error => {
+      console.warn("Failed to record price snapshot:", error)
+    })
+  }
+}
+
+/**
+ * Fetches what the exchange returns for a search, one page or its full book,
+ * through the shared response cache, so identical searches from any client
+ * within the TTL reuse one upstream call. In mock mode the response comes
+ * from recorded fixtures instead.
+ */
+function fetchSearch(
+  adapter: ExchangeAdapter,
+  query: ExchangeQuery
+): Promise<CacheResult<P2PSearchResponse>> {
+  return searchCache.get(getCacheKey(adapter, query), async () => {
+    console.log(`Making request to ${adapter.name} API with params:`, query)
+    const raw = isMockUpstream()
+      ? await fetchMockPage(adapter, query)
+      : await adapter.fetchPage(query)
+    const data = adapter.parsePage(raw, query)
+
+    console.log(`${adapter.name} API response received:`, {
+      total: data.total,
+      received: data.diagnostics.received,
+      accepted: data.diagnostics.accepted
+    })
+    if (data.diagnostics.rejected.length > 0) {
+      console.warn(
+        `Rejected malformed ${adapter.name} ads:`,
+        data.diagnostics.rejected
+      )
+    }
+
+    recordSearch(adapter.id, query, data)
+    return data
+  })
+}
+
+/**
+ * Cuts one page out of a full book. The book's diagnostics are kept, as they
+ * describe the upstream response the page came from.
+ */
+function slicePage(
+  book: CacheResult<P2PSearchResponse>,
+  query: ExchangeQuery
+): CacheResult<P2PSearchResponse> {
+  const start = (query.page - 1) * query.rows
+
+  return {
+    ...book,
+    value: {
+      ...book.value,
+      data: book.value.data.slice(start, start + query.rows)
+    }
+  }
+}
+
+/**
+ * Searches one page of an exchange through the shared response cache.
+ * Exchanges that return their full book are fetched once for all its pages.
+ * @param adapter - Exchange to search
+ * @param query - Search parameters
+ * @returns Promise<CacheResult<P2PSearchResponse>> - Response and cache status
+ */
+export async function searchExchange(
+  adapter: ExchangeAdapter,
+  query: ExchangeQuery
+): Promise<CacheResult<P2PSearchResponse>> {
+  const result = await fetchSearch(adapter, query)
+  return adapter.fullBook ? slicePage(result, query) : result
+}
+
+export interface DepthOptions {
+  targetVolume?: number // stop once this much asset is available
+  maxPages: number
+}
+
+export interface DepthSummary {
+  pages: number // pages fetched
+  volume: number // cumulative asset available across the fetched ads
+  targetReached: boolean
+  exhausted: boolean // every ad in the book was fetched
+}
+
+export interface DepthResult extends CacheResult<P2PSearchResponse> {
+  depth: DepthSummary
+}
+
+// Precedence when combining the cache status of several responses
+const CACHE_STATUS_RANK = { HIT: 0, STALE: 1, MISS: 2 }
+
+/**
+ * Combines the cache metadata of several responses: the least fresh status
+ * and the oldest timestamp
+ */
+function combineCacheMetadata(
+  results: { status: CacheStatus; storedAt: number }[]
+): { status: CacheStatus; storedAt: number } {
+  return results.reduce(
+    (combined, result) => ({
+      status:
+        CACHE_STATUS_RANK[result.status] > CACHE_STATUS_RANK[combined.status]
+          ? result.status
+          : combined.status,
+      storedAt: Math.min(combined.storedAt, result.storedAt)
+    }),
+    { status: "HIT" as CacheStatus, storedAt: Infinity }
+  )
+}
+
+/**
+ * Walks consecutive result pages starting at `query.page` until the
+ * cumulative surplus reaches `targetVolume`, the book (per the exchange's
+ * `total`) is exhausted, or `maxPages` pages have been fetched. Pages are
+ * fetched one at a time through the shared cache; ads that moved between
+ * pages while walking are deduplicated by id. A full book is fetched once
+ * and its diagnostics counted once.
+ * @param adapter - Exchange to search
+ * @param query - Search parameters of the first page
+ * @param options - Target volume and page limit
+ * @returns Promise<DepthResult> - Merged response, oldest page timestamp and
+ * least fresh cache status of the pages
+ */
+export async function searchExchangeDepth(
+  adapter: ExchangeAdapter,
+  query: ExchangeQuery,
+  { targetVolume = Infinity, maxPages }: DepthOptions
+): Promise<DepthResult> {
+  const seenAds = new Set<string>()
+  const offers: PriceData[] = []
+  const rejected: RejectedAd[] = []
+  const results: CacheResult<P2PSearchResponse>[] = []
+  let received = 0
+  let volume = 0
+  let exhausted = false
+
+  const book = adapter.fullBook ? await fetchSearch(adapter, query) : null
+
+  // Always fetch at least the first page
+  do {
+    const pageQuery = { ...query, page: query.page + results.length }
+    const result = book
+      ? slicePage(book, pageQuery)
+      : await searchExchange(adapter, pageQuery)
+    results.push(result)
+
+    const { data, diagnostics } = result.value
+    if (!book || results.length === 1) {
+      received += diagnostics.received
+      rejected.push(...diagnostics.rejected)
+    }
+    data.forEach(offer => {
+      if (seenAds.has(offer.adId)) return
+      seenAds.add(offer.adId)
+      offers.push(offer)
+      volume += offer.amount
+    })
+
+    // Rejected ads still count towards a full page
+    if (
+      diagnostics.received < query.rows ||
+      (query.page - 1 + results.length) * query.rows >= result.value.total
+    ) {
+      exhausted = true
+      break
+    }
+  } while (results.length < maxPages && volume < targetVolume)
+
+  return {
+    value: {
+      ...results[0].value,
+      data: offers,
+      diagnostics: { received, accepted: offers.length, rejected }
+    },
+    ...combineCacheMetadata(results),
+    depth: {
+      pages: results.length,
+      volume,
+      targetReached: volume >= targetVolume,
+      exhausted
+    }
+  }
+}
+
+export interface AggregatedResult extends CacheResult<P2PSearchResponse> {
+  depth?: DepthSummary // summed across exchanges, in depth mode
+}
+
+/**
+ * Searches several exchanges at once and merges their offers, best price
+ * first, each labeled with its source. An exchange that fails is reported
+ * in `sources`; the search only fails when every exchange does.
+ * @param adapters - Exchanges to search
+ * @param query - Search parameters, applied to each exchange
+ * @param depth - Walks each exchange's book when set
+ * @returns Promise<AggregatedResult> - Merged response with per-exchange
+ * status, oldest timestamp and least fresh cache status
+ */
+export async function searchAllExchanges(
+  adapters: ExchangeAdapter[],
+  query: ExchangeQuery,
+  depth?: DepthOptions
+): Promise<AggregatedResult> {
+  const settled = await Promise.allSettled(
+    adapters.map(adapter =>
+      depth
+        ? searchExchangeDepth(adapter, query, depth)
+        : searchExchange(adapter, query)
+    )
+  )
+
+  const results: {
+    exchange: string
+    result: DepthResult | CacheResult<P2PSearchResponse>
+  }[] = []
+  const sources: SourceStatus[] = settled.map((outcome, index) => {
+    const exchange = adapters[index].id
+
+    if (outcome.status === "rejected") {
+      console.warn(`Aggregated search failed for ${exchange}:`, outcome.reason)
+      return {
+        exchange,
+        total: null,
+        error:
+          outcome.reason instanceof Error
+            ? outcome.reason.message
+            : "Search failed"
+      }
+    }
+
+    results.push({ exchange, result: outcome.value })
+    return { exchange, total: outcome.value.value.total, error: null }
+  })
+
+  if (results.length === 0) {
+    throw new Error(
+      `Every exchange failed: ${sources
+        .map(source => `${source.exchange}: ${source.error}`)
+        .join("; ")}`
+    )
+  }
+
+  const responses = results.map(({ result }) => result.value)
+  const direction = query.tradeType === "BUY" ? 1 : -1
+  const data = responses
+    .flatMap(response => response.data)
+    .sort((a, b) => (a.price - b.price) * direction)
+  const sum = (values: number[]) =>
+    values.reduce((total, value) => total + value, 0)
+
+  const summaries = results.flatMap(({ result }) =>
+    "depth" in result ? [result.depth] : []
+  )
+  const volume = sum(summaries.map(summary => summary.volume))
+
+  return {
+    value: {
+      success: true,
+      total: sum(responses.map(response => response.total)),
+      data,
+      diagnostics: {
+        received: sum(responses.map(response => response.diagnostics.received)),
+        accepted: data.length,
+        rejected: results.flatMap(({ exchange, result }) =>
+          result.value.diagnostics.rejected.map(ad => ({
+            ...ad,
+            source: exchange
+          }))
+        )
+      },
+      sources
+    },
+    ...combineCacheMetadata(results.map(({ result }) => result)),
+    depth: depth && {
+      pages: sum(summaries.map(summary => summary.pages)),
+      volume,
+      targetReached: volume >= (depth.targetVolume ?? Infinity),
+      exhausted: summaries.every(summary => summary.exhausted)
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest"
+import { exportOffers, serializeExport } from "./export"
+import { makeOffer } from "@/test/offers"
+
+const context = {
+  asset: "USDT",
+  fiat: "VES",
+  timestamp: "2025-01-15T12:00:00.000Z"
+}
+
+describe("serializeExport", () => {
+  const columns = [{ key: "value", value: (row: string | number) => row }]
+
+  it("quotes cells with delimiters, quotes or line breaks", () => {
+    expect(
+      serializeExport(["a,b", 'say "hi"', "two\nlines"], columns, "csv")
+    ).toBe('value\r\n"a,b"\r\n"say ""hi"""\r\n"two\nlines"\r\n')
+  })
+
+  it.each(['=HYPERLINK("http://x")', "+1", "-1+2", "@SUM(A1)", "\tx", "\rx"])(
+    "keeps spreadsheets from evaluating %j",
+    text => {
+      const [, cell] = serializeExport([text], columns, "csv").split("\r\n")
+
+      expect(cell.replace(/^"/, "").startsWith("'")).toBe(true)
+    }
+  )
+
+  it("leaves numbers and JSON untouched", () => {
+    expect(serializeExport([-1.5], columns, "csv")).toBe("value\r\n-1.5\r\n")
+    expect(JSON.parse(serializeExport(["=1+1"], columns, "json"))).toEqual([
+      { value: "=1+1" }
+    ])
+  })
+})
+
+describe("exportOffers", () => {
+  it("escapes advertiser names that look like formulas", () => {
+    const csv = exportOffers(
+      [makeOffer(50, 100, { name: "=cmd|' /C calc'!A0" })],
+      context,
+      "csv"
+    )
+
+    expect(csv).toContain(",'=cmd|' /C calc'!A0,")
+  })
+})
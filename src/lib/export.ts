@@ -0,0 +1,282 @@
+import { PriceData } from "./types"
+import { TradingCalculatorResult } from "./trading-calculator"
+import { HistoryBucket, HistoryResponse, Ohlc } from "./history"
+import { getTrustScore } from "./reputation"
+
+export type ExportFormat = "csv" | "json"
+
+export type ExportValue = string | number | boolean | null
+
+/**
+ * One column of an export. The key is the CSV header and the JSON field
+ * name, so both formats share a schema.
+ */
+export interface ExportColumn<T> {
+  key: string
+  value: (row: T) => ExportValue
+}
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv;charset=utf-8",
+  json: "application/json"
+}
+
+// Separator for list fields (payment methods, tags) within one cell
+const LIST_SEPARATOR = "; "
+
+// Leading characters that make spreadsheets evaluate a cell as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+/**
+ * Quotes a CSV cell when it contains a delimiter, quote or line break.
+ * Text that a spreadsheet would run as a formula (advertiser names, tags)
+ * is prefixed with an apostrophe; numbers are left as they are.
+ */
+function toCsvCell(value: ExportValue): string {
+  if (value === null) return ""
+
+  const text =
+    typeof value === "string" && FORMULA_PREFIX.test(value)
+      ? `'${value}`
+      : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Serializes rows with a column schema, as CSV with a header row or as a
+ * JSON array of flat records
+ */
+export function serializeExport<T>(
+  rows: T[],
+  columns: ExportColumn<T>[],
+  format: ExportFormat
+): string {
+  if (format === "json") {
+    const records = rows.map(row =>
+      Object.fromEntries(columns.map(column => [column.key, column.value(row)]))
+    )
+    return JSON.stringify(records, null, 2)
+  }
+
+  const lines = [
+    columns.map(column => toCsvCell(column.key)).join(","),
+    ...rows.map(row =>
+      columns.map(column => toCsvCell(column.value(row))).join(",")
+    )
+  ]
+  return `${lines.join("\r\n")}\r\n`
+}
+
+/**
+ * Builds a file name such as "offers-USDT-VES-BUY-2025-01-15T12-00-00Z.csv"
+ */
+export function getExportFilename(
+  parts: string[],
+  format: ExportFormat,
+  timestamp: Date = new Date()
+): string {
+  const time = timestamp
+    .toISOString()
+    .replace(/\.\d+Z$/, "Z")
+    .replace(/:/g, "-")
+  return `${[...parts, time].join("-")}.${format}`
+}
+
+interface MarketContext {
+  asset: string
+  fiat: string
+  timestamp: string // ISO 8601, when the data was fetched or calculated
+}
+
+interface OfferRow extends MarketContext {
+  offer: PriceData
+}
+
+// Columns shared by offer exports and the legs of route exports
+const ADVERTISER_COLUMNS: ExportColumn<{ offer: PriceData }>[] = [
+  { key: "exchange", value: ({ offer }) => offer.source },
+  { key: "adId", value: ({ offer }) => offer.adId },
+  { key: "advertiserName", value: ({ offer }) => offer.advertiser.name },
+  { key: "rating", value: ({ offer }) => offer.advertiser.rating },
+  { key: "orderCount", value: ({ offer }) => offer.advertiser.orderCount },
+  {
+    key: "monthOrderCount",
+    value: ({ offer }) => offer.advertiser.monthOrderCount
+  },
+  {
+    key: "completionRate",
+    value: ({ offer }) => offer.advertiser.completionRate
+  },
+  { key: "userType", value: ({ offer }) => offer.advertiser.userType },
+  {
+    key: "advConfirmTime",
+    value: ({ offer }) => offer.advertiser.advConfirmTime ?? null
+  },
+  {
+    key: "identityLevel",
+    value: ({ offer }) => offer.advertiser.identityLevel ?? null
+  },
+  { key: "trustScore", value: ({ offer }) => getTrustScore(offer.advertiser) },
+  {
+    key: "paymentTypes",
+    value: ({ offer }) =>
+      offer.paymentMethods.map(method => method.payType).join(LIST_SEPARATOR)
+  },
+  {
+    key: "paymentBanks",
+    value: ({ offer }) =>
+      offer.paymentMethods
+        .map(method => method.payBank || method.payType)
+        .join(LIST_SEPARATOR)
+  },
+  {
+    key: "paymentSubBanks",
+    value: ({ offer }) =>
+      offer.paymentMethods
+        .map(method => method.paySubBank ?? "")
+        .join(LIST_SEPARATOR)
+  },
+  { key: "payTimeLimit", value: ({ offer }) => offer.payTimeLimit }
+]
+
+export const OFFER_EXPORT_COLUMNS: ExportColumn<OfferRow>[] = [
+  { key: "timestamp", value: row => row.timestamp },
+  { key: "asset", value: row => row.asset },
+  { key: "fiat", value: row => row.fiat },
+  { key: "tradeType", value: ({ offer }) => offer.tradeType },
+  { key: "price", value: ({ offer }) => offer.price },
+  { key: "amount", value: ({ offer }) => offer.amount },
+  { key: "minFiat", value: ({ offer }) => offer.limits.minFiat },
+  { key: "maxFiat", value: ({ offer }) => offer.limits.maxFiat },
+  { key: "minAmount", value: ({ offer }) => offer.limits.minAmount },
+  { key: "maxAmount", value: ({ offer }) => offer.limits.maxAmount },
+  ...ADVERTISER_COLUMNS,
+  { key: "buyerKycLimit", value: ({ offer }) => offer.buyerKycLimit },
+  { key: "buyerRegDaysLimit", value: ({ offer }) => offer.buyerRegDaysLimit },
+  { key: "tags", value: ({ offer }) => offer.tags.join(LIST_SEPARATOR) }
+]
+
+/**
+ * Exports offers, one row per offer
+ */
+export function exportOffers(
+  offers: PriceData[],
+  context: MarketContext,
+  format: ExportFormat
+): string {
+  return serializeExport(
+    offers.map(offer => ({ ...context, offer })),
+    OFFER_EXPORT_COLUMNS,
+    format
+  )
+}
+
+interface RouteLegRow extends MarketContext {
+  route: number // 1 for the best route, then alternatives in rank order
+  routeOffers: number
+  routeTotalAmount: number
+  routeTotalCost: number
+  routeAveragePrice: number
+  routeScore: number
+  leg: number
+  offer: PriceData // amount is the amount filled from this offer
+}
+
+export const ROUTE_EXPORT_COLUMNS: ExportColumn<RouteLegRow>[] = [
+  { key: "timestamp", value: row => row.timestamp },
+  { key: "asset", value: row => row.asset },
+  { key: "fiat", value: row => row.fiat },
+  { key: "tradeType", value: ({ offer }) => offer.tradeType },
+  { key: "route", value: row => row.route },
+  { key: "routeOffers", value: row => row.routeOffers },
+  { key: "routeTotalAmount", value: row => row.routeTotalAmount },
+  { key: "routeTotalCost", value: row => row.routeTotalCost },
+  { key: "routeAveragePrice", value: row => row.routeAveragePrice },
+  { key: "routeScore", value: row => row.routeScore },
+  { key: "leg", value: row => row.leg },
+  { key: "price", value: ({ offer }) => offer.price },
+  { key: "amount", value: ({ offer }) => offer.amount },
+  { key: "cost", value: ({ offer }) => offer.amount * offer.price },
+  ...ADVERTISER_COLUMNS
+]
+
+/**
+ * Exports the best and alternative routes of a calculation, one row per leg
+ */
+export function exportRoutes(
+  result: TradingCalculatorResult,
+  context: MarketContext,
+  format: ExportFormat
+): string {
+  const rows = [result.bestRoute, ...result.alternativeRoutes].flatMap(
+    (route, routeIndex) =>
+      route.offers.map((offer, legIndex) => ({
+        ...context,
+        route: routeIndex + 1,
+        routeOffers: route.offers.length,
+        routeTotalAmount: route.totalAmount,
+        routeTotalCost: route.totalCost,
+        routeAveragePrice: route.averagePrice,
+        routeScore: route.score.total,
+        leg: legIndex + 1,
+        offer
+      }))
+  )
+
+  return serializeExport(rows, ROUTE_EXPORT_COLUMNS, format)
+}
+
+interface HistoryRow extends Pick<
+  HistoryResponse,
+  "asset" | "fiat" | "tradeType" | "interval"
+> {
+  bucket: HistoryBucket
+}
+
+/**
+ * Flattens an OHLC field into "<name>.open" ... "<name>.close" columns,
+ * matching its path in the JSON response
+ */
+function ohlcColumns(
+  name: string,
+  getOhlc: (bucket: HistoryBucket) => Ohlc | null
+): ExportColumn<HistoryRow>[] {
+  return (["open", "high", "low", "close"] as const).map(field => ({
+    key: `${name}.${field}`,
+    value: ({ bucket }) => getOhlc(bucket)?.[field] ?? null
+  }))
+}
+
+export const HISTORY_EXPORT_COLUMNS: ExportColumn<HistoryRow>[] = [
+  { key: "start", value: ({ bucket }) => bucket.start },
+  { key: "asset", value: row => row.asset },
+  { key: "fiat", value: row => row.fiat },
+  { key: "tradeType", value: row => row.tradeType },
+  { key: "interval", value: row => row.interval },
+  { key: "samples", value: ({ bucket }) => bucket.samples },
+  ...ohlcColumns("bestPrice", bucket => bucket.bestPrice),
+  ...ohlcColumns("medianPrice", bucket => bucket.medianPrice),
+  ...ohlcColumns("depth", bucket => bucket.depth),
+  ...ohlcColumns("spread", bucket => bucket.spread),
+  ...ohlcColumns("spreadPercentage", bucket => bucket.spreadPercentage)
+]
+
+/**
+ * Exports history buckets as CSV, one row per bucket. Column names are the
+ * bucket fields' paths in the JSON response.
+ */
+export function exportHistoryCsv(history: HistoryResponse): string {
+  const { asset, fiat, tradeType, interval } = history
+
+  return serializeExport(
+    history.buckets.map(bucket => ({
+      asset,
+      fiat,
+      tradeType,
+      interval,
+      bucket
+    })),
+    HISTORY_EXPORT_COLUMNS,
+    "csv"
+  )
+}
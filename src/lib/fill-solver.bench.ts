@@ -0,0 +1,47 @@
+import { bench, describe } from "vitest"
+import { solveOptimalFill } from "./fill-solver"
+import { calculateBestTradingRoute } from "./trading-calculator"
+import { PriceData } from "./types"
+import { makeOffer } from "@/test/offers"
+import { createRandom } from "@/test/random"
+
+// A book shaped like a busy market: prices within a few percent, and about
+// half the advertisers asking for a minimum order
+function makeBook(size: number, seed: number): PriceData[] {
+  const random = createRandom(seed)
+
+  return Array.from({ length: size }, (_, i) => {
+    const amount = 20 + Math.round(random() * 2000)
+    return makeOffer(50 + random() * 2, amount, {
+      name: `advertiser-${i}`,
+      minAmount: random() < 0.5 ? 0 : Math.round(random() * amount * 0.5)
+    })
+  })
+}
+
+const smallBook = makeBook(20, 1)
+const largeBook = makeBook(200, 2)
+
+describe("solveOptimalFill", () => {
+  bench("20 offers, 200 USDT", () => {
+    solveOptimalFill(smallBook, 200, { maxOffers: 5 })
+  })
+
+  bench("200 offers, 200 USDT", () => {
+    solveOptimalFill(largeBook, 200, { maxOffers: 5 })
+  })
+
+  bench("200 offers, 5000 USDT", () => {
+    solveOptimalFill(largeBook, 5000, { maxOffers: 5 })
+  })
+})
+
+describe("calculateBestTradingRoute", () => {
+  bench("20 offers, 200 USDT", () => {
+    calculateBestTradingRoute(smallBook, 200)
+  })
+
+  bench("200 offers, 5000 USDT", () => {
+    calculateBestTradingRoute(largeBook, 5000)
+  })
+})
@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest"
+import { getMaxFill, solveOptimalFill, solveOptimalFills } from "./fill-solver"
+import { PriceData } from "./types"
+import { makeOffer } from "@/test/offers"
+import { createRandom } from "@/test/random"
+
+/**
+ * Best signed cost (lower is better for both sides) of filling the target
+ * from exactly these offers: minimums (at least one unit, so every offer
+ * takes part) first, the rest by best price
+ */
+function getSubsetCost(offers: PriceData[], targetAmount: number): number {
+  const sign = offers[0].tradeType === "BUY" ? 1 : -1
+  const sorted = [...offers].sort((a, b) => sign * (a.price - b.price))
+  const fills = sorted.map(offer => Math.max(1, offer.limits.minAmount))
+  let remaining = targetAmount - fills.reduce((sum, fill) => sum + fill, 0)
+  if (remaining < 0) return Infinity
+
+  sorted.forEach((offer, index) => {
+    const extra = Math.min(remaining, getMaxFill(offer) - fills[index])
+    fills[index] += extra
+    remaining -= extra
+  })
+  if (remaining > 0) return Infinity
+
+  return (
+    sign * sorted.reduce((sum, offer, i) => sum + offer.price * fills[i], 0)
+  )
+}
+
+/**
+ * Tries every combination of minOffers to maxOffers offers
+ */
+function bruteForceCost(
+  offers: PriceData[],
+  targetAmount: number,
+  maxOffers: number,
+  minOffers: number = 1
+): number {
+  let best = Infinity
+
+  for (let mask = 1; mask < 1 << offers.length; mask++) {
+    const subset = offers.filter((_, i) => mask & (1 << i))
+    if (subset.length < minOffers || subset.length > maxOffers) continue
+
+    best = Math.min(best, getSubsetCost(subset, targetAmount))
+  }
+
+  return best
+}
+
+// Random books with whole-unit amounts, which keep the solver's grid exact
+function createBooks(tradeType: "BUY" | "SELL", seed: number) {
+  const random = createRandom(seed)
+  const integer = (min: number, max: number) =>
+    min + Math.floor(random() * (max - min + 1))
+
+  return Array.from({ length: 200 }, () => {
+    const offers = Array.from({ length: integer(1, 7) }, () => {
+      const amount = integer(5, 120)
+      return makeOffer(integer(4900, 5300) / 100, amount, {
+        minAmount: random() < 0.5 ? 0 : integer(1, amount),
+        tradeType
+      })
+    })
+    return { offers, targetAmount: integer(1, 250), maxOffers: integer(1, 4) }
+  })
+}
+
+describe("solveOptimalFill", () => {
+  it("returns null when nothing can be filled", () => {
+    const offers = [makeOffer(50, 30), makeOffer(51, 30)]
+
+    expect(solveOptimalFill(offers, 100, { maxOffers: 5 })).toBeNull()
+    expect(solveOptimalFill(offers, 0, { maxOffers: 5 })).toBeNull()
+    expect(solveOptimalFill(offers, 20, { maxOffers: 0 })).toBeNull()
+  })
+
+  it("keeps every fill within the advertiser's limits", () => {
+    const offers = [
+      makeOffer(50, 70, { minAmount: 50 }),
+      makeOffer(51, 100, { minAmount: 40 }),
+      makeOffer(52, 100)
+    ]
+    const solution = solveOptimalFill(offers, 100, { maxOffers: 3, minUnit: 1 })
+
+    expect(solution).not.toBeNull()
+    solution!.offers.forEach((offer, i) => {
+      expect(solution!.fills[i]).toBeGreaterThanOrEqual(offer.limits.minAmount)
+      expect(solution!.fills[i]).toBeLessThanOrEqual(getMaxFill(offer))
+    })
+    expect(solution!.fills.reduce((sum, fill) => sum + fill, 0)).toBeCloseTo(
+      100
+    )
+  })
+
+  it.each(["BUY", "SELL"] as const)(
+    "matches a brute-force search on random %s books",
+    tradeType => {
+      const books = createBooks(tradeType, tradeType === "BUY" ? 1 : 2)
+
+      books.forEach(({ offers, targetAmount, maxOffers }) => {
+        const expected = bruteForceCost(offers, targetAmount, maxOffers)
+        const solution = solveOptimalFill(offers, targetAmount, {
+          maxOffers,
+          minUnit: 1
+        })
+
+        if (expected === Infinity) {
+          expect(solution).toBeNull()
+          return
+        }
+
+        expect(solution).not.toBeNull()
+        expect(solution!.offers.length).toBeLessThanOrEqual(maxOffers)
+        expect(getSubsetCost(solution!.offers, targetAmount)).toBeCloseTo(
+          expected,
+          6
+        )
+      })
+    }
+  )
+})
+
+describe("solveOptimalFills", () => {
+  it.each(["BUY", "SELL"] as const)(
+    "matches a brute-force search for every number of offers on %s books",
+    tradeType => {
+      const books = createBooks(tradeType, tradeType === "BUY" ? 3 : 4)
+
+      books.forEach(({ offers, targetAmount, maxOffers }) => {
+        const solutions = solveOptimalFills(offers, targetAmount, {
+          maxOffers,
+          minUnit: 1
+        })
+
+        expect(solutions).toHaveLength(Math.min(maxOffers, offers.length))
+        solutions.forEach((solution, index) => {
+          const count = index + 1
+          const expected = bruteForceCost(offers, targetAmount, count, count)
+
+          if (expected === Infinity) {
+            expect(solution).toBeNull()
+            return
+          }
+
+          expect(solution!.offers).toHaveLength(count)
+          expect(getSubsetCost(solution!.offers, targetAmount)).toBeCloseTo(
+            expected,
+            6
+          )
+        })
+      })
+    }
+  )
+})
@@ -0,0 +1,194 @@
+import { PriceData } from "./types"
+
+export interface FillSolverOptions {
+  maxOffers: number
+  gridSteps?: number // resolution of the amount grid (default: sized to the book)
+  minUnit?: number // never split finer than this amount (default: 0.01)
+}
+
+export interface FillSolution {
+  offers: PriceData[]
+  fills: number[] // asset taken from each offer, aligned with `offers`
+}
+
+const FINEST_GRID_STEPS = 5000 // for small books
+const COARSEST_GRID_STEPS = 1000 // for large books, whatever the budget
+const MAX_GRID_CELLS = 1000000 // offers × maxOffers × steps per solve
+const MAX_GRID_STEPS = 65535 // fills are stored as 16-bit grid units
+const DEFAULT_MIN_UNIT = 0.01 // one cent of a stablecoin
+const COST_EPSILON = 1e-9
+
+/**
+ * Returns the largest amount an advertiser will fill in a single order
+ */
+export function getMaxFill(offer: PriceData): number {
+  return Math.min(offer.amount, offer.limits.maxAmount)
+}
+
+/**
+ * Picks the finest grid whose dynamic program fits within MAX_GRID_CELLS
+ */
+function getGridSteps(offerCount: number, maxOffers: number): number {
+  return Math.min(
+    FINEST_GRID_STEPS,
+    Math.max(
+      COARSEST_GRID_STEPS,
+      Math.floor(MAX_GRID_CELLS / (offerCount * maxOffers))
+    )
+  )
+}
+
+/**
+ * Finds the cheapest (BUY) or highest-yield (SELL) set of at most
+ * `maxOffers` offers that fills `targetAmount` exactly while keeping every
+ * fill within the advertiser's min/max order limits. Ties go to fewer offers.
+ *
+ * @param offers - Candidate offers, all of the same trade type
+ * @param targetAmount - Amount to trade (in the offers' asset)
+ * @param options - Counterparty limit and grid resolution
+ * @returns The optimal offers and fills, or null if no fill is possible
+ */
+export function solveOptimalFill(
+  offers: PriceData[],
+  targetAmount: number,
+  options: FillSolverOptions
+): FillSolution | null {
+  let best: FillSolution | null = null
+  let bestCost = Infinity
+
+  solveOptimalFills(offers, targetAmount, options).forEach(solution => {
+    if (!solution) return
+
+    const cost = getSignedCost(solution)
+    if (cost < bestCost - COST_EPSILON) {
+      best = solution
+      bestCost = cost
+    }
+  })
+
+  return best
+}
+
+/**
+ * Finds, in a single pass, the cheapest (BUY) or highest-yield (SELL) fill of
+ * `targetAmount` for every number of offers up to `maxOffers`, keeping every
+ * fill within the advertiser's min/max order limits.
+ *
+ * Minimum order limits make this a subset-sum style problem, so the search
+ * runs a dynamic program over an amount grid of `gridSteps` units instead of
+ * enumerating subsets: O(offers × maxOffers × gridSteps) time. Unless given,
+ * the grid shrinks as the book grows to keep that product around
+ * MAX_GRID_CELLS. Offer limits are rounded inwards to the grid, so every
+ * solution found is executable, though a coarse grid can miss combinations
+ * that only fit at a finer one. The returned fills are grid-aligned; callers
+ * refine them for the chosen offers with an exact greedy fill.
+ *
+ * @param offers - Candidate offers, all of the same trade type
+ * @param targetAmount - Amount to trade (in the offers' asset)
+ * @param options - Counterparty limit and grid resolution
+ * @returns The best fill using exactly k offers at index k - 1, or null where
+ * no fill with that many offers is possible
+ */
+export function solveOptimalFills(
+  offers: PriceData[],
+  targetAmount: number,
+  options: FillSolverOptions
+): (FillSolution | null)[] {
+  const maxOffers = Math.min(options.maxOffers, offers.length)
+  if (maxOffers < 1 || targetAmount <= 0) return []
+
+  const steps = Math.max(
+    1,
+    Math.min(
+      Math.round(targetAmount / (options.minUnit ?? DEFAULT_MIN_UNIT)),
+      options.gridSteps ?? getGridSteps(offers.length, maxOffers),
+      MAX_GRID_STEPS
+    )
+  )
+  const unit = targetAmount / steps
+  const width = steps + 1
+
+  // cost[k * width + a] = best signed cost of filling `a` units with k offers
+  const cost = new Float64Array((maxOffers + 1) * width).fill(Infinity)
+  cost[0] = 0
+
+  // taken[(i * maxOffers + k - 1) * width + b] = units filled by offer i to
+  // reach b units with k offers, or 0 if offer i was not taken
+  const taken = new Uint16Array(offers.length * maxOffers * width)
+
+  const windowIndexes = new Int32Array(width)
+
+  offers.forEach((offer, i) => {
+    const low = Math.max(1, Math.ceil(offer.limits.minAmount / unit - 1e-9))
+    const high = Math.min(steps, Math.floor(getMaxFill(offer) / unit + 1e-9))
+    if (low > high) return
+
+    // Minimise cost for BUY, maximise revenue for SELL
+    const weight = (offer.tradeType === "BUY" ? 1 : -1) * offer.price * unit
+
+    // Walk k downwards so layer k still holds values without offer i
+    for (let k = maxOffers - 1; k >= 0; k--) {
+      const from = k * width
+      const to = (k + 1) * width
+      const choices = (i * maxOffers + k) * width
+      const shifted = (a: number) => cost[from + a] - weight * a
+
+      // Sliding window minimum of `shifted` over a ∈ [b - high, b - low]
+      let head = 0
+      let tail = 0
+      for (let b = low; b <= steps; b++) {
+        const entering = b - low
+        if (cost[from + entering] !== Infinity) {
+          while (
+            tail > head &&
+            shifted(windowIndexes[tail - 1]) >= shifted(entering)
+          ) {
+            tail--
+          }
+          windowIndexes[tail++] = entering
+        }
+        while (tail > head && windowIndexes[head] < b - high) head++
+        if (tail === head) continue
+
+        const a = windowIndexes[head]
+        const candidate = shifted(a) + weight * b
+        if (candidate < cost[to + b] - COST_EPSILON) {
+          cost[to + b] = candidate
+          taken[choices + b] = b - a
+        }
+      }
+    }
+  })
+
+  // Walk the decisions backwards to recover the offers chosen for each count
+  return Array.from({ length: maxOffers }, (_, index) => {
+    let k = index + 1
+    if (cost[k * width + steps] === Infinity) return null
+
+    const chosen: PriceData[] = []
+    const fills: number[] = []
+    let b = steps
+    for (let i = offers.length - 1; i >= 0 && k > 0; i--) {
+      const fill = taken[(i * maxOffers + k - 1) * width + b]
+      if (fill === 0) continue
+
+      chosen.unshift(offers[i])
+      fills.unshift(fill * unit)
+      b -= fill
+      k--
+    }
+
+    return { offers: chosen, fills }
+  })
+}
+
+/**
+ * Returns what a solution costs (BUY) or, negated, yields (SELL)
+ */
+function getSignedCost({ offers, fills }: FillSolution): number {
+  return offers.reduce(
+    (sum, offer, i) =>
+      sum + (offer.tradeType === "BUY" ? 1 : -1) * offer.price * fills[i],
+    0
+  )
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest"
+import { parseOfferFilters, writeOfferFilters } from "./filters"
+import { OfferFilters } from "./types"
+
+describe("offer filters in the URL", () => {
+  it("round-trip every shared filter and keep other params", () => {
+    const filters: OfferFilters = {
+      paymentMethods: ["Banesco", "Pago Movil"],
+      minAmount: 50,
+      maxAmount: 1000,
+      minFiatAmount: 2000,
+      maxFiatAmount: 40000.5,
+      minCompletionRate: 95,
+      minOrders: 100,
+      merchantsOnly: true,
+      maxConfirmMinutes: 15
+    }
+
+    const params = writeOfferFilters(
+      new URLSearchParams("sort=price&order=asc"),
+      filters
+    )
+
+    expect(params.get("sort")).toBe("price")
+    expect(parseOfferFilters(new URLSearchParams(params.toString()))).toEqual(
+      filters
+    )
+  })
+
+  it("leave unset filters out of the URL and ignore invalid values", () => {
+    const params = writeOfferFilters(
+      new URLSearchParams("pay=Banesco&minAmount=10&page=2"),
+      {}
+    )
+
+    expect(params.toString()).toBe("page=2")
+    expect(
+      parseOfferFilters(new URLSearchParams("minAmount=lots&merchants=yes"))
+    ).toEqual({})
+  })
+})
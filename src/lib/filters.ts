@@ -0,0 +1,205 @@
+import { FilterOptions, OfferFilters, PriceData, TrustFilters } from "./types"
+import { getTrustRejectionReason } from "./reputation"
+
+type FilterKey = Exclude<keyof FilterOptions, "tradeType">
+
+export const FILTER_LABELS: Record<FilterKey, string> = {
+  paymentMethod: "Payment method",
+  bank: "Bank",
+  paymentMethods: "Payment methods",
+  minAmount: "Min amount",
+  maxAmount: "Max amount",
+  minFiatAmount: "Min order size",
+  maxFiatAmount: "Max order size",
+  minCompletionRate: "Min completion",
+  minOrders: "Min orders",
+  merchantsOnly: "Merchants only",
+  maxConfirmMinutes: "Max release time"
+}
+
+export interface FilterRemoval {
+  filter: FilterKey
+  label: string
+  removed: number // offers of the trade type failing this filter
+}
+
+/**
+ * Checks whether an offer accepts a payment method or bank, matching the
+ * query case-insensitively against the bank name (or pay type when no bank
+ * is given)
+ */
+export function matchesPaymentMethod(offer: PriceData, query: string): boolean {
+  return offer.paymentMethods.some(method =>
+    (method.payBank || method.payType)
+      .toLowerCase()
+      .includes(query.toLowerCase())
+  )
+}
+
+/**
+ * Checks whether an offer accepts any of the given banks or pay types, as
+ * listed by getAvailableBanks
+ */
+export function acceptsPaymentMethods(
+  offer: PriceData,
+  methods: string[]
+): boolean {
+  return offer.paymentMethods.some(
+    method =>
+      methods.includes(method.payType) ||
+      (method.payBank !== undefined && methods.includes(method.payBank))
+  )
+}
+
+/**
+ * Builds one check per active filter. Trust filters are checked one
+ * requirement at a time so each can be counted on its own.
+ */
+function getFilterChecks(
+  options: FilterOptions
+): { filter: FilterKey; passes: (offer: PriceData) => boolean }[] {
+  const {
+    paymentMethod,
+    bank,
+    paymentMethods,
+    minAmount,
+    maxAmount,
+    minFiatAmount,
+    maxFiatAmount
+  } = options
+
+  const checks: Partial<Record<FilterKey, (offer: PriceData) => boolean>> = {
+    paymentMethod: paymentMethod
+      ? offer => matchesPaymentMethod(offer, paymentMethod)
+      : undefined,
+    bank: bank ? offer => matchesPaymentMethod(offer, bank) : undefined,
+    paymentMethods: paymentMethods?.length
+      ? offer => acceptsPaymentMethods(offer, paymentMethods)
+      : undefined,
+    minAmount: minAmount ? offer => offer.amount >= minAmount : undefined,
+    maxAmount: maxAmount ? offer => offer.amount <= maxAmount : undefined,
+    // Order sizes overlap the range when the limits reach into it
+    minFiatAmount: minFiatAmount
+      ? offer => offer.limits.maxFiat >= minFiatAmount
+      : undefined,
+    maxFiatAmount: maxFiatAmount
+      ? offer => offer.limits.minFiat <= maxFiatAmount
+      : undefined
+  }
+
+  const trustKeys: (keyof TrustFilters)[] = [
+    "minCompletionRate",
+    "minOrders",
+    "merchantsOnly",
+    "maxConfirmMinutes"
+  ]
+  trustKeys.forEach(key => {
+    if (options[key] === undefined || options[key] === false) return
+    const single: TrustFilters = { [key]: options[key] }
+    checks[key] = offer => getTrustRejectionReason(offer, single) === null
+  })
+
+  return (Object.keys(checks) as FilterKey[])
+    .filter(filter => checks[filter])
+    .map(filter => ({ filter, passes: checks[filter]! }))
+}
+
+/**
+ * Filters offers by trade type, payment methods, bank, amount, order size
+ * and advertiser trust, sorted best price first
+ * @param prices - Offers to filter
+ * @param options - Filter criteria
+ * @returns PriceData[] - Matching offers
+ */
+export function filterOffers(
+  prices: PriceData[],
+  options: FilterOptions
+): PriceData[] {
+  const checks = getFilterChecks(options)
+
+  return prices
+    .filter(
+      price =>
+        price.tradeType === options.tradeType &&
+        checks.every(check => check.passes(price))
+    )
+    .sort((a, b) => {
+      if (options.tradeType === "BUY") {
+        return a.price - b.price // Lowest price first for buying
+      } else {
+        return b.price - a.price // Highest price first for selling
+      }
+    })
+}
+
+/**
+ * Counts how many offers of the trade type each active filter removes on
+ * its own. An offer failing several filters is counted by each of them.
+ */
+export function getFilterRemovals(
+  prices: PriceData[],
+  options: FilterOptions
+): FilterRemoval[] {
+  const offers = prices.filter(price => price.tradeType === options.tradeType)
+
+  return getFilterChecks(options).map(({ filter, passes }) => ({
+    filter,
+    label: FILTER_LABELS[filter],
+    removed: offers.filter(offer => !passes(offer)).length
+  }))
+}
+
+/**
+ * Reads the shared filters from URL search params, ignoring invalid values
+ */
+export function parseOfferFilters(params: URLSearchParams): OfferFilters {
+  const parseNumber = (name: string) => {
+    const value = parseFloat(params.get(name) ?? "")
+    return isNaN(value) ? undefined : value
+  }
+  const paymentMethods = params.get("pay")?.split(",").filter(Boolean) ?? []
+
+  const filters: OfferFilters = {
+    paymentMethods: paymentMethods.length > 0 ? paymentMethods : undefined,
+    minAmount: parseNumber("minAmount"),
+    maxAmount: parseNumber("maxAmount"),
+    minFiatAmount: parseNumber("minFiat"),
+    maxFiatAmount: parseNumber("maxFiat"),
+    minCompletionRate: parseNumber("minCompletion"),
+    minOrders: parseNumber("minOrders"),
+    merchantsOnly: params.get("merchants") === "1" || undefined,
+    maxConfirmMinutes: parseNumber("maxConfirm")
+  }
+
+  // Leave unset filters out, as the filter bar does
+  return Object.fromEntries(
+    Object.entries(filters).filter(([, value]) => value !== undefined)
+  )
+}
+
+/**
+ * Writes the shared filters into URL search params, leaving unset ones out.
+ * Params not owned by the filters are kept.
+ */
+export function writeOfferFilters(
+  params: URLSearchParams,
+  filters: OfferFilters
+): URLSearchParams {
+  const next = new URLSearchParams(params)
+  const set = (name: string, value: number | string | undefined) => {
+    if (value !== undefined && value !== "") next.set(name, String(value))
+    else next.delete(name)
+  }
+
+  set("pay", filters.paymentMethods?.join(","))
+  set("minAmount", filters.minAmount)
+  set("maxAmount", filters.maxAmount)
+  set("minFiat", filters.minFiatAmount)
+  set("maxFiat", filters.maxFiatAmount)
+  set("minCompletion", filters.minCompletionRate)
+  set("minOrders", filters.minOrders)
+  set("merchants", filters.merchantsOnly ? "1" : undefined)
+  set("maxConfirm", filters.maxConfirmMinutes)
+
+  return next
+}
@@ -0,0 +1,88 @@
+import { promises as fs } from "fs"
+import path from "path"
+import { PriceSnapshot } from "./history"
+
+const HISTORY_DIR =
+  process.env.P2P_HISTORY_DIR ?? path.join(process.cwd(), ".data", "history")
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Snapshots are stored as JSON Lines, one file per pair and UTC day:
+ * <dir>/<ASSET>-<FIAT>/<YYYY-MM-DD>.jsonl
+ */
+function getDayFile(asset: string, fiat: string, day: Date): string {
+  return path.join(
+    HISTORY_DIR,
+    `${asset}-${fiat}`,
+    `${day.toISOString().slice(0, 10)}.jsonl`
+  )
+}
+
+/**
+ * Whether the recorder is enabled (set P2P_HISTORY_DISABLED=1 to turn it off)
+ */
+export function isHistoryEnabled(): boolean {
+  return process.env.P2P_HISTORY_DISABLED !== "1"
+}
+
+/**
+ * Appends a snapshot to the store
+ */
+export async function recordSnapshot(snapshot: PriceSnapshot): Promise<void> {
+  const file = getDayFile(
+    snapshot.asset,
+    snapshot.fiat,
+    new Date(snapshot.timestamp)
+  )
+
+  await fs.mkdir(path.dirname(file), { recursive: true })
+  await fs.appendFile(file, `${JSON.stringify(snapshot)}\n`, "utf8")
+}
+
+/**
+ * Reads all snapshots of a pair (both sides) recorded within a time range
+ * @param asset - The cryptocurrency asset (e.g., 'USDT')
+ * @param fiat - The fiat currency (e.g., 'VES')
+ * @param from - Start of the range (inclusive)
+ * @param to - End of the range (inclusive)
+ * @returns Promise<PriceSnapshot[]> - Snapshots in file order
+ */
+export async function readSnapshots(
+  asset: string,
+  fiat: string,
+  from: Date,
+  to: Date
+): Promise<PriceSnapshot[]> {
+  const snapshots: PriceSnapshot[] = []
+  const firstDay = Math.floor(from.getTime() / DAY_MS) * DAY_MS
+
+  for (let day = firstDay; day <= to.getTime(); day += DAY_MS) {
+    let content: string
+    try {
+      content = await fs.readFile(
+        getDayFile(asset, fiat, new Date(day)),
+        "utf8"
+      )
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") continue
+      throw error
+    }
+
+    for (const line of content.split("\n")) {
+      if (!line.trim()) continue
+
+      try {
+        const snapshot: PriceSnapshot = JSON.parse(line)
+        const time = Date.parse(snapshot.timestamp)
+        if (time >= from.getTime() && time <= to.getTime()) {
+          snapshots.push(snapshot)
+        }
+      } catch {
+        console.warn("Skipping malformed history line:", line)
+      }
+    }
+  }
+
+  return snapshots
+}
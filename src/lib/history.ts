@@ -0,0 +1,211 @@
+import { calculateSpread, getMedian } from "./price-stats"
+
+export type HistoryInterval = "1m" | "5m" | "1h"
+
+export const HISTORY_INTERVALS: Record<HistoryInterval, number> = {
+  "1m": 60 * 1000,
+  "5m": 5 * 60 * 1000,
+  "1h": 60 * 60 * 1000
+}
+
+/**
+ * Summary of one page of offers for one side of a pair at a point in time
+ */
+export interface PriceSnapshot {
+  timestamp: string // ISO 8601
+  asset: string
+  fiat: string
+  tradeType: "BUY" | "SELL"
+  bestPrice: number
+  medianPrice: number
+  depth: number // total asset available across the offers
+  offerCount: number
+}
+
+export interface Ohlc {
+  open: number
+  high: number
+  low: number
+  close: number
+}
+
+export interface HistoryBucket {
+  start: string // ISO 8601
+  samples: number
+  bestPrice: Ohlc
+  medianPrice: Ohlc
+  depth: Ohlc
+  spread: Ohlc | null // best sell minus best buy, in fiat
+  spreadPercentage: Ohlc | null
+}
+
+export interface HistoryResponse {
+  asset: string
+  fiat: string
+  tradeType: "BUY" | "SELL"
+  interval: HistoryInterval
+  from: string
+  to: string
+  buckets: HistoryBucket[]
+}
+
+/**
+ * One point of the combined BUY/SELL history, using bucket close values
+ */
+export interface HistoryPoint {
+  time: number // bucket start, epoch milliseconds
+  bestBuy: number | null
+  bestSell: number | null
+  spreadPercentage: number | null
+}
+
+// BUY and SELL snapshots further apart than this are not paired for spread
+const SPREAD_PAIRING_WINDOW_MS = 2 * 60 * 1000
+
+/**
+ * Builds a snapshot from the offers of one side of a pair
+ * @returns PriceSnapshot | null - null when there are no offers
+ */
+export function createPriceSnapshot(
+  asset: string,
+  fiat: string,
+  tradeType: "BUY" | "SELL",
+  offers: { price: number; amount: number }[],
+  timestamp: Date = new Date()
+): PriceSnapshot | null {
+  const prices = offers.map(offer => offer.price)
+  if (prices.length === 0) return null
+
+  return {
+    timestamp: timestamp.toISOString(),
+    asset,
+    fiat,
+    tradeType,
+    bestPrice: tradeType === "BUY" ? Math.min(...prices) : Math.max(...prices),
+    medianPrice: getMedian(prices),
+    depth: offers.reduce((sum, offer) => sum + offer.amount, 0),
+    offerCount: offers.length
+  }
+}
+
+/**
+ * Folds a value into an OHLC accumulator, creating it on the first value
+ */
+function addToOhlc(ohlc: Ohlc | null, value: number): Ohlc {
+  if (!ohlc) {
+    return { open: value, high: value, low: value, close: value }
+  }
+
+  return {
+    open: ohlc.open,
+    high: Math.max(ohlc.high, value),
+    low: Math.min(ohlc.low, value),
+    close: value
+  }
+}
+
+/**
+ * Groups snapshots of one side into time buckets, pairing them with the
+ * other side's snapshots to compute the spread
+ * @param snapshots - Snapshots of both sides of a pair, in any order
+ * @param tradeType - Side whose prices and depth are bucketed
+ * @param interval - Bucket width
+ * @returns HistoryBucket[] - Non-empty buckets in chronological order
+ */
+export function aggregateHistory(
+  snapshots: PriceSnapshot[],
+  tradeType: "BUY" | "SELL",
+  interval: HistoryInterval
+): HistoryBucket[] {
+  const width = HISTORY_INTERVALS[interval]
+  const buckets = new Map<number, HistoryBucket>()
+  const sorted = [...snapshots].sort(
+    (a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp)
+  )
+
+  let latestBuy: PriceSnapshot | null = null
+  let latestSell: PriceSnapshot | null = null
+
+  for (const snapshot of sorted) {
+    const time = Date.parse(snapshot.timestamp)
+    const start = Math.floor(time / width) * width
+
+    if (snapshot.tradeType === "BUY") latestBuy = snapshot
+    else latestSell = snapshot
+
+    let bucket = buckets.get(start)
+
+    if (snapshot.tradeType === tradeType) {
+      bucket = {
+        start: new Date(start).toISOString(),
+        samples: (bucket?.samples ?? 0) + 1,
+        bestPrice: addToOhlc(bucket?.bestPrice ?? null, snapshot.bestPrice),
+        medianPrice: addToOhlc(
+          bucket?.medianPrice ?? null,
+          snapshot.medianPrice
+        ),
+        depth: addToOhlc(bucket?.depth ?? null, snapshot.depth),
+        spread: bucket?.spread ?? null,
+        spreadPercentage: bucket?.spreadPercentage ?? null
+      }
+      buckets.set(start, bucket)
+    }
+
+    if (
+      bucket &&
+      latestBuy &&
+      latestSell &&
+      Math.abs(
+        Date.parse(latestBuy.timestamp) - Date.parse(latestSell.timestamp)
+      ) <= SPREAD_PAIRING_WINDOW_MS
+    ) {
+      const { spread, spreadPercentage } = calculateSpread(
+        latestBuy.bestPrice,
+        latestSell.bestPrice
+      )
+      bucket.spread = addToOhlc(bucket.spread, spread)
+      bucket.spreadPercentage = addToOhlc(
+        bucket.spreadPercentage,
+        spreadPercentage
+      )
+    }
+  }
+
+  return Array.from(buckets.values())
+}
+
+/**
+ * Merges the BUY and SELL buckets of a pair into chronological points
+ * @param buy - Buckets of the BUY side (carrying the pair's spread)
+ * @param sell - Buckets of the SELL side
+ * @returns HistoryPoint[] - One point per bucket start present on either side
+ */
+export function mergeHistorySides(
+  buy: HistoryBucket[],
+  sell: HistoryBucket[]
+): HistoryPoint[] {
+  const points = new Map<number, HistoryPoint>()
+  const getPoint = (start: string) => {
+    const time = Date.parse(start)
+    const point = points.get(time) ?? {
+      time,
+      bestBuy: null,
+      bestSell: null,
+      spreadPercentage: null
+    }
+    points.set(time, point)
+    return point
+  }
+
+  buy.forEach(bucket => {
+    const point = getPoint(bucket.start)
+    point.bestBuy = bucket.bestPrice.close
+    point.spreadPercentage = bucket.spreadPercentage?.close ?? null
+  })
+
+  sell.forEach(bucket => {
+    getPoint(bucket.start).bestSell = bucket.bestPrice.close
+  })
+
+  return Array.from(points.values()).sort((a, b) => a.time - b.time)
+}
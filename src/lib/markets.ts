@@ -0,0 +1,119 @@
+export const SUPPORTED_ASSETS = ["USDT", "BTC", "ETH"] as const
+
+export type Asset = (typeof SUPPORTED_ASSETS)[number]
+
+export interface FiatConfig {
+  name: string
+  locale: string
+}
+
+export const SUPPORTED_FIATS: Record<string, FiatConfig> = {
+  VES: { name: "Venezuelan Bolívares", locale: "es-VE" },
+  ARS: { name: "Argentine Pesos", locale: "es-AR" },
+  COP: { name: "Colombian Pesos", locale: "es-CO" },
+  BRL: { name: "Brazilian Reais", locale: "pt-BR" },
+  PEN: { name: "Peruvian Soles", locale: "es-PE" },
+  CLP: { name: "Chilean Pesos", locale: "es-CL" },
+  MXN: { name: "Mexican Pesos", locale: "es-MX" }
+}
+
+export interface MarketPair {
+  asset: string
+  fiat: string
+}
+
+export const DEFAULT_PAIR: MarketPair = { asset: "USDT", fiat: "VES" }
+
+// Display precision per asset; stablecoins trade in cents
+const ASSET_DECIMALS: Record<string, number> = {
+  USDT: 2,
+  BTC: 8,
+  ETH: 6
+}
+
+export function isSupportedAsset(asset: string): asset is Asset {
+  return (SUPPORTED_ASSETS as readonly string[]).includes(asset)
+}
+
+export function isSupportedFiat(fiat: string): boolean {
+  return Object.prototype.hasOwnProperty.call(SUPPORTED_FIATS, fiat)
+}
+
+/**
+ * Parses a URL pair segment such as "USDT-ARS"
+ * @returns MarketPair | null - null when the pair is malformed or unsupported
+ */
+export function parsePair(segment: string): MarketPair | null {
+  const [asset, fiat, ...rest] = decodeURIComponent(segment)
+    .toUpperCase()
+    .split("-")
+
+  if (rest.length > 0 || !asset || !fiat) return null
+  if (!isSupportedAsset(asset) || !isSupportedFiat(fiat)) return null
+
+  return { asset, fiat }
+}
+
+/**
+ * Builds the URL path of a pair (e.g., "/USDT-ARS")
+ */
+export function getPairPath({ asset, fiat }: MarketPair): string {
+  return `/${asset}-${fiat}`
+}
+
+/**
+ * Returns the locale used to format amounts of a fiat currency
+ */
+export function getFiatLocale(fiat: string): string {
+  return SUPPORTED_FIATS[fiat]?.locale ?? "en-US"
+}
+
+/**
+ * Formats an amount of fiat currency in the currency's own locale
+ */
+export function formatFiat(amount: number, fiat: string): string {
+  return new Intl.NumberFormat(getFiatLocale(fiat), {
+    style: "currency",
+    currency: fiat,
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2
+  }).format(amount)
+}
+
+/**
+ * Returns the number of decimals an asset is displayed and split with
+ */
+export function getAssetDecimals(asset: string): number {
+  return ASSET_DECIMALS[asset] ?? 2
+}
+
+/**
+ * Formats an amount of a cryptocurrency asset with its display precision
+ */
+export function formatAssetAmount(amount: number, asset: string): string {
+  const decimals = getAssetDecimals(asset)
+  return new Intl.NumberFormat("en-US", {
+    minimumFractionDigits: Math.min(decimals, 2),
+    maximumFractionDigits: decimals
+  }).format(amount)
+}
+
+// P2P exchanges the proxy can search, by adapter id
+export const SUPPORTED_EXCHANGES: Record<string, string> = {
+  binance: "Binance",
+  okx: "OKX",
+  bybit: "Bybit"
+}
+
+export const DEFAULT_EXCHANGE = "binance"
+
+// Exchange id that merges offers from every enabled exchange
+export const ALL_EXCHANGES = "all"
+
+/**
+ * Returns the display name of an exchange id
+ */
+export function getExchangeName(exchange: string): string {
+  if (exchange === ALL_EXCHANGES) return "All exchanges"
+  return SUPPORTED_EXCHANGES[exchange] ?? exchange
+}
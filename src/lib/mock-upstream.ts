@@ -0,0 +1,234 @@
+import { promises as fs } from "fs"
+import path from "path"
+import {
+  ExchangeAdapter,
+  ExchangeQuery,
+  getExchangeTimeoutMs
+} from "./exchange-adapters"
+import { BinanceP2PAdSchema } from "./binance-adapter"
+
+export const MOCK_SCENARIOS = [
+  "success", // a deep book built from the recorded ads that are valid
+  "empty", // no ads at all
+  "api-error", // Binance answers with success: false
+  "server-error", // the exchange responds with status 500
+  "timeout", // the exchange never answers in time
+  "malformed", // every third ad fails validation
+  "moving" // prices swing on every upstream fetch
+] as const
+
+export type MockScenario = (typeof MOCK_SCENARIOS)[number]
+
+const FIXTURE_DIR =
+  process.env.P2P_MOCK_FIXTURE_DIR ??
+  path.join(process.cwd(), "fixtures", "exchanges")
+
+// Recorded response per exchange, in the exchange's own format
+const FIXTURE_FILES: Record<string, string> = {
+  binance: "binance-search.json",
+  okx: "okx-books.json",
+  bybit: "bybit-items.json"
+}
+
+// Ads in the synthetic book; enough for depth searches to walk five pages
+const MOCK_BOOK_SIZE = 100
+
+// Each copy of the recorded ads is priced this much further from the best
+const BOOK_PRICE_STEP = 0.002
+
+// Sell-side ads are priced this much below buy-side ones, as a spread
+const SELL_SIDE_DISCOUNT = 0.01
+
+// Amplitude of the "moving" scenario's price swings
+const MOVING_PRICE_AMPLITUDE = 0.03
+
+// Upstream fetches served so far; drives the "moving" scenario
+let mockFetches = 0
+
+interface RecordedBinanceAd {
+  adv: Record<string, unknown> & { advNo: string; price: unknown }
+  advertiser?: Record<string, unknown>
+}
+
+/**
+ * Checks whether /api/p2p serves recorded fixtures instead of calling the
+ * exchanges (P2P_MOCK_UPSTREAM=1)
+ */
+export function isMockUpstream(): boolean {
+  return process.env.P2P_MOCK_UPSTREAM === "1"
+}
+
+/**
+ * Returns the scenario selected by P2P_MOCK_SCENARIO, "success" by default
+ */
+export function getMockScenario(): MockScenario {
+  const scenario = process.env.P2P_MOCK_SCENARIO ?? "success"
+
+  if (!(MOCK_SCENARIOS as readonly string[]).includes(scenario)) {
+    throw new Error(
+      `Unknown P2P_MOCK_SCENARIO: ${scenario}. Supported: ${MOCK_SCENARIOS.join(", ")}`
+    )
+  }
+
+  return scenario as MockScenario
+}
+
+/**
+ * Reads an exchange's recorded response
+ */
+async function readFixture(exchange: string): Promise<unknown> {
+  const file = FIXTURE_FILES[exchange]
+  if (!file) throw new Error(`No recorded fixture for ${exchange}`)
+
+  return JSON.parse(await fs.readFile(path.join(FIXTURE_DIR, file), "utf8"))
+}
+
+/**
+ * Scales a recorded price string, leaving values that are not numbers as
+ * they are so malformed ads stay malformed
+ */
+function scalePrice(price: unknown, factor: number): unknown {
+  const value = typeof price === "string" ? Number(price) : NaN
+  return price !== "" && Number.isFinite(value)
+    ? (value * factor).toFixed(2)
+    : price
+}
+
+/**
+ * Breaks an ad in one of a few ways an upstream schema change could
+ */
+function breakAd(ad: RecordedBinanceAd, index: number): unknown {
+  switch (index % 3) {
+    case 0:
+      return { ...ad, adv: { ...ad.adv, price: "N/A" } }
+    case 1:
+      return { adv: ad.adv }
+    default:
+      return { ...ad, adv: { ...ad.adv, surplusAmount: null } }
+  }
+}
+
+/**
+ * Builds one page of a deep Binance book by repeating the recorded ads,
+ * each repetition a little further from the best price. The book is sorted
+ * best price first, as Binance sorts it.
+ */
+function buildBinancePage(
+  recorded: RecordedBinanceAd[],
+  query: ExchangeQuery,
+  scenario: MockScenario
+): unknown[] {
+  const side = query.tradeType === "BUY" ? 1 : -1
+  const sideFactor = query.tradeType === "BUY" ? 1 : 1 - SELL_SIDE_DISCOUNT
+  const swing =
+    scenario === "moving"
+      ? 1 + MOVING_PRICE_AMPLITUDE * Math.sin(mockFetches / 2)
+      : 1
+  const book: RecordedBinanceAd[] = []
+
+  for (let index = 0; index < MOCK_BOOK_SIZE && recorded.length > 0; index++) {
+    const template = recorded[index % recorded.length]
+    const copy = Math.floor(index / recorded.length)
+    const factor = sideFactor * swing * (1 + side * BOOK_PRICE_STEP * copy)
+
+    book.push({
+      ...template,
+      adv: {
+        ...template.adv,
+        advNo: `${template.adv.advNo}${String(copy).padStart(3, "0")}`,
+        price: scalePrice(template.adv.price, factor),
+        asset: query.asset,
+        fiatUnit: query.fiat,
+        tradeType: query.tradeType
+      }
+    })
+  }
+
+  book.sort((a, b) => (Number(a.adv.price) - Number(b.adv.price)) * side)
+
+  const start = (query.page - 1) * query.rows
+  return book
+    .slice(start, start + query.rows)
+    .map((ad, offset) =>
+      scenario === "malformed" && (start + offset) % 3 === 0
+        ? breakAd(ad, (start + offset) / 3)
+        : ad
+    )
+}
+
+/**
+ * Builds a Binance response for a scenario from the recorded one. The
+ * recording keeps a malformed sample for the adapter's tests; the synthetic
+ * book only repeats the valid ads, so only "malformed" serves broken ones.
+ */
+function buildBinanceResponse(
+  recorded: { data?: RecordedBinanceAd[] },
+  query: ExchangeQuery,
+  scenario: MockScenario
+): unknown {
+  if (scenario === "empty") {
+    return { code: "000000", success: true, data: [], total: 0 }
+  }
+
+  if (scenario === "api-error") {
+    return {
+      code: "000002",
+      message: "illegal parameter",
+      messageDetail: null,
+      success: false,
+      data: null
+    }
+  }
+
+  return {
+    code: "000000",
+    success: true,
+    data: buildBinancePage(
+      (recorded.data ?? []).filter(
+        ad => BinanceP2PAdSchema.safeParse(ad).success
+      ),
+      query,
+      scenario
+    ),
+    total: MOCK_BOOK_SIZE
+  }
+}
+
+/**
+ * Serves a page from an exchange's recorded response, shaped by the active
+ * scenario. Failures are raised the way the real fetch raises them. Binance
+ * supports every scenario; other exchanges serve their recording as is,
+ * except for the server error and timeout scenarios.
+ * @param adapter - Exchange being searched
+ * @param query - Search parameters
+ * @returns Promise<unknown> - Raw response in the exchange's format
+ */
+export async function fetchMockPage(
+  adapter: ExchangeAdapter,
+  query: ExchangeQuery
+): Promise<unknown> {
+  const scenario = getMockScenario()
+  mockFetches++
+
+  if (scenario === "server-error") {
+    throw new Error(`${adapter.name} API responded with status: 500`)
+  }
+
+  if (scenario === "timeout") {
+    await new Promise(resolve => setTimeout(resolve, getExchangeTimeoutMs()))
+    throw new DOMException(
+      "The operation was aborted due to timeout",
+      "TimeoutError"
+    )
+  }
+
+  const recorded = await readFixture(adapter.id)
+
+  return adapter.id === "binance"
+    ? buildBinanceResponse(
+        recorded as { data?: RecordedBinanceAd[] },
+        query,
+        scenario
+      )
+    : recorded
+}
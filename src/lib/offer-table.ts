@@ -0,0 +1,174 @@
+import { PriceData } from "./types"
+
+export type OfferSortKey =
+  "price" | "amount" | "rating" | "orders" | "completion"
+
+export type OfferColumn =
+  | "price"
+  | "available"
+  | "limits"
+  | "trader"
+  | "exchange"
+  | "rating"
+  | "orders"
+  | "completion"
+  | "trust"
+  | "paymentMethods"
+
+export const OFFER_COLUMNS: Record<OfferColumn, string> = {
+  price: "Price",
+  available: "Available",
+  limits: "Limits",
+  trader: "Trader",
+  exchange: "Exchange",
+  rating: "Rating",
+  orders: "Orders",
+  completion: "Completion",
+  trust: "Trust",
+  paymentMethods: "Payment Methods"
+}
+
+// Column each sort key is toggled from
+export const SORTABLE_COLUMNS: Partial<Record<OfferColumn, OfferSortKey>> = {
+  price: "price",
+  available: "amount",
+  rating: "rating",
+  orders: "orders",
+  completion: "completion"
+}
+
+export const PAGE_SIZES = [20, 50, 100]
+
+export interface OfferSort {
+  key: OfferSortKey
+  direction: "asc" | "desc"
+}
+
+export interface OfferTableState {
+  sort: OfferSort | null // null keeps the best-price-first order
+  hiddenColumns: OfferColumn[]
+  page: number // 1-based
+  pageSize: number
+}
+
+export const DEFAULT_OFFER_TABLE_STATE: OfferTableState = {
+  sort: null,
+  hiddenColumns: [],
+  page: 1,
+  pageSize: PAGE_SIZES[0]
+}
+
+const SORT_VALUES: Record<OfferSortKey, (offer: PriceData) => number> = {
+  price: offer => offer.price,
+  amount: offer => offer.amount,
+  rating: offer => offer.advertiser.rating,
+  orders: offer => offer.advertiser.orderCount,
+  completion: offer => offer.advertiser.completionRate
+}
+
+/**
+ * Cycles a column's sort: descending first (biggest numbers are usually
+ * what traders look for), then ascending, then back to the default order
+ */
+export function toggleSort(
+  sort: OfferSort | null,
+  key: OfferSortKey
+): OfferSort | null {
+  if (sort?.key !== key) return { key, direction: "desc" }
+  if (sort.direction === "desc") return { key, direction: "asc" }
+  return null
+}
+
+/**
+ * Applies the table's sort. Offers arrive already filtered by the shared
+ * filter bar; the input order is kept for ties and when no sort is set.
+ */
+export function applyOfferTable(
+  offers: PriceData[],
+  { sort }: OfferTableState
+): PriceData[] {
+  if (!sort) return offers
+
+  const getValue = SORT_VALUES[sort.key]
+  const sign = sort.direction === "asc" ? 1 : -1
+  return [...offers].sort((a, b) => (getValue(a) - getValue(b)) * sign)
+}
+
+/**
+ * Returns the rows of one page, with the page clamped to the available ones
+ */
+export function paginate<T>(
+  rows: T[],
+  page: number,
+  pageSize: number
+): { rows: T[]; page: number; pageCount: number } {
+  const pageCount = Math.max(1, Math.ceil(rows.length / pageSize))
+  const current = Math.min(Math.max(1, page), pageCount)
+
+  return {
+    rows: rows.slice((current - 1) * pageSize, current * pageSize),
+    page: current,
+    pageCount
+  }
+}
+
+/**
+ * Reads table state from URL search params, ignoring invalid values
+ */
+export function parseOfferTableState(params: URLSearchParams): OfferTableState {
+  const parseNumber = (name: string) => {
+    const value = parseFloat(params.get(name) ?? "")
+    return isNaN(value) ? undefined : value
+  }
+  const parseList = (name: string) =>
+    params.get(name)?.split(",").filter(Boolean) ?? []
+
+  const sortKey = params.get("sort")
+  const pageSize = parseNumber("pageSize")
+
+  return {
+    sort:
+      sortKey && Object.prototype.hasOwnProperty.call(SORT_VALUES, sortKey)
+        ? {
+            key: sortKey as OfferSortKey,
+            direction: params.get("order") === "asc" ? "asc" : "desc"
+          }
+        : null,
+    hiddenColumns: parseList("hide").filter((column): column is OfferColumn =>
+      Object.prototype.hasOwnProperty.call(OFFER_COLUMNS, column)
+    ),
+    page: Math.max(1, Math.floor(parseNumber("page") ?? 1)),
+    pageSize:
+      pageSize !== undefined && PAGE_SIZES.includes(pageSize)
+        ? pageSize
+        : DEFAULT_OFFER_TABLE_STATE.pageSize
+  }
+}
+
+/**
+ * Writes table state into URL search params, leaving defaults out so shared
+ * links stay short. Params not owned by the table are kept.
+ */
+export function writeOfferTableState(
+  params: URLSearchParams,
+  state: OfferTableState
+): URLSearchParams {
+  const next = new URLSearchParams(params)
+  const set = (name: string, value: string | undefined) => {
+    if (value) next.set(name, value)
+    else next.delete(name)
+  }
+
+  set("sort", state.sort?.key)
+  set("order", state.sort?.direction)
+  set("hide", state.hiddenColumns.join(","))
+  set("page", state.page > 1 ? String(state.page) : undefined)
+  set(
+    "pageSize",
+    state.pageSize !== DEFAULT_OFFER_TABLE_STATE.pageSize
+      ? String(state.pageSize)
+      : undefined
+  )
+
+  return next
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest"
+import recorded from "../../fixtures/exchanges/okx-books.json"
+import { okxAdapter } from "./okx-adapter"
+import { ExchangeApiError, ExchangeResponseError } from "./exchange-adapters"
+import { makeQuery } from "@/test/queries"
+
+describe("okxAdapter.parsePage", () => {
+  it("reads the sell side for buyers and drops the ad with a broken price", () => {
+    const page = okxAdapter.parsePage(recorded, makeQuery())
+
+    expect(page.data.map(offer => offer.advertiser.name)).toEqual([
+      "VzlaCripto",
+      "juanp"
+    ])
+    expect(page.data[0]).toMatchObject({
+      adId: "240501093015226",
+      source: "okx",
+      price: 52.3,
+      paymentMethods: [{ payType: "Banesco" }, { payType: "Pago Movil" }]
+    })
+    expect(page.diagnostics).toEqual({
+      received: 3,
+      accepted: 2,
+      rejected: [
+        {
+          index: 2,
+          adId: "240501093015228",
+          reasons: ["price: Expected a positive numeric string"]
+        }
+      ]
+    })
+  })
+
+  it("returns no offers for sellers when the recording has no buy side", () => {
+    const page = okxAdapter.parsePage(
+      recorded,
+      makeQuery({ tradeType: "SELL" })
+    )
+
+    expect(page.data).toEqual([])
+    expect(page.total).toBe(0)
+  })
+
+  it("filters the whole book by payment method and order size", () => {
+    expect(
+      okxAdapter
+        .parsePage(recorded, makeQuery({}, { payTypes: ["Mercantil"] }))
+        .data.map(offer => offer.advertiser.name)
+    ).toEqual(["juanp"])
+    expect(
+      okxAdapter
+        .parsePage(recorded, makeQuery({}, { transAmount: 20000 }))
+        .data.map(offer => offer.advertiser.name)
+    ).toEqual(["VzlaCripto"])
+
+    const book = okxAdapter.parsePage(recorded, makeQuery({ page: 2, rows: 1 }))
+    expect(book.total).toBe(2)
+    expect(book.data).toHaveLength(2)
+  })
+
+  it("raises the exchange's message when the search fails", () => {
+    expect(() =>
+      okxAdapter.parsePage(
+        { code: 50011, msg: "Too many requests", data: null },
+        makeQuery()
+      )
+    ).toThrow(new ExchangeApiError("OKX API error: Too many requests"))
+  })
+
+  it("rejects a response without the expected envelope", () => {
+    expect(() => okxAdapter.parsePage([], makeQuery())).toThrow(
+      ExchangeResponseError
+    )
+  })
+})
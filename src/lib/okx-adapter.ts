@@ -0,0 +1,161 @@
+import { z } from "zod"
+import { PriceData } from "./types"
+import {
+  ExchangeAdapter,
+  ExchangeApiError,
+  ExchangeQuery,
+  fetchExchangeJson,
+  NumericString,
+  parseAds,
+  parseEnvelope,
+  PositiveNumericString,
+  toOrderLimits
+} from "./exchange-adapters"
+
+const OKX_P2P_API_BASE = "https://www.okx.com/v3/c2c"
+
+// OKX's standard payment window, for ads that do not publish one
+const DEFAULT_PAY_TIME_LIMIT = 15
+
+export const OkxP2PAdSchema = z.object({
+  id: z.string().min(1),
+  price: PositiveNumericString,
+  availableAmount: NumericString,
+  quoteMinAmountPerOrder: NumericString,
+  quoteMaxAmountPerOrder: NumericString,
+  paymentMethods: z.array(z.string().min(1)),
+  nickName: z.string().nullish(),
+  completedOrderQuantity: z.number(),
+  completedRate: NumericString, // fraction of orders completed
+  posReviewPercentage: NumericString.nullish(), // percent of positive reviews
+  creatorType: z.string().nullish(), // "certified" for merchants
+  paymentTimeoutMinutes: z.number().nullish(),
+  minKycLevel: z.number().nullish()
+})
+
+// OKX returns every ad of a side at once, keyed by the advertiser's side
+export const OkxP2PResponseSchema = z.object({
+  code: z.number(),
+  msg: z.string().nullish(),
+  error_message: z.string().nullish(),
+  data: z
+    .object({
+      buy: z.array(z.unknown()).nullish(),
+      sell: z.array(z.unknown()).nullish()
+    })
+    .nullish()
+})
+
+export type OkxP2PAd = z.infer<typeof OkxP2PAdSchema>
+
+/**
+ * Builds the order book URL; OKX lists the advertiser's side, the opposite
+ * of the side the user takes
+ */
+export function getOkxBooksUrl(query: ExchangeQuery): string {
+  const params = new URLSearchParams({
+    quoteCurrency: query.fiat.toLowerCase(),
+    baseCurrency: query.asset.toLowerCase(),
+    side: query.tradeType === "BUY" ? "sell" : "buy",
+    paymentMethod: "all",
+    userType: query.filters.publisherType === "merchant" ? "certified" : "all"
+  })
+  return `${OKX_P2P_API_BASE}/tradingOrders/books?${params}`
+}
+
+/**
+ * Transforms a validated OKX ad into our PriceData format
+ */
+export function toPriceData(
+  ad: OkxP2PAd,
+  tradeType: "BUY" | "SELL"
+): PriceData {
+  const price = Number(ad.price)
+  const amount = Number(ad.availableAmount)
+  const completionRate = Number(ad.completedRate) * 100
+
+  return {
+    adId: ad.id,
+    source: "okx",
+    price,
+    amount,
+    limits: toOrderLimits(
+      price,
+      amount,
+      Number(ad.quoteMinAmountPerOrder),
+      Number(ad.quoteMaxAmountPerOrder)
+    ),
+    paymentMethods: ad.paymentMethods.map(payType => ({ payType })),
+    advertiser: {
+      name: ad.nickName || "Anonymous",
+      rating:
+        ad.posReviewPercentage != null
+          ? Number(ad.posReviewPercentage)
+          : completionRate,
+      orderCount: ad.completedOrderQuantity,
+      completionRate,
+      userType: ad.creatorType === "certified" ? "merchant" : "user",
+      monthOrderCount: 0 // not published
+    },
+    payTimeLimit: ad.paymentTimeoutMinutes ?? DEFAULT_PAY_TIME_LIMIT,
+    buyerKycLimit: (ad.minKycLevel ?? 0) > 0,
+    buyerRegDaysLimit: 0,
+    tags: [],
+    tradeType
+  }
+}
+
+/**
+ * OKX only filters by merchant status upstream; payment methods and order
+ * size are applied here, before the book is paged, so pages stay full. Country
+ * filters are not supported.
+ */
+function matchesQuery(offer: PriceData, query: ExchangeQuery): boolean {
+  const { payTypes, transAmount } = query.filters
+
+  return (
+    (payTypes.length === 0 ||
+      offer.paymentMethods.some(method => payTypes.includes(method.payType))) &&
+    (transAmount === undefined ||
+      (offer.limits.minFiat <= transAmount &&
+        offer.limits.maxFiat >= transAmount))
+  )
+}
+
+export const okxAdapter: ExchangeAdapter = {
+  id: "okx",
+  name: "OKX",
+  fullBook: true,
+  fetchPage(query) {
+    return fetchExchangeJson("OKX", getOkxBooksUrl(query))
+  },
+  parsePage(raw, query) {
+    const { code, msg, error_message, data } = parseEnvelope(
+      "OKX",
+      OkxP2PResponseSchema,
+      raw
+    )
+
+    if (code !== 0) {
+      throw new ExchangeApiError(
+        `OKX API error: ${error_message || msg || "Unknown error"}`
+      )
+    }
+
+    const ads = (query.tradeType === "BUY" ? data?.sell : data?.buy) ?? []
+    const { data: offers, diagnostics } = parseAds(
+      ads,
+      OkxP2PAdSchema,
+      ad => toPriceData(ad, query.tradeType),
+      ad => (ad as { id?: unknown } | null)?.id
+    )
+    const matching = offers.filter(offer => matchesQuery(offer, query))
+
+    return {
+      success: true,
+      total: matching.length,
+      data: matching,
+      diagnostics
+    }
+  }
+}
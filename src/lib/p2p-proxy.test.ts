@@ -0,0 +1,381 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { NextRequest } from "next/server"
+import { handleSearchRequest } from "./p2p-proxy"
+import { ALL_EXCHANGES, DEFAULT_EXCHANGE } from "./markets"
+
+// Each request comes from a new client unless one is given, as the platform
+// proxy would report it, so the rate limiter only applies where a test asks
+let clients = 0
+
+function createRequest(
+  body: string,
+  exchange: string,
+  headers: Record<string, string> = {}
+) {
+  return new NextRequest(`http://localhost/api/p2p/${exchange}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Forwarded-For": `203.0.113.${++clients}`,
+      ...headers
+    },
+    body
+  })
+}
+
+function search(
+  body: unknown,
+  exchange: string = DEFAULT_EXCHANGE,
+  headers: Record<string, string> = {}
+) {
+  return handleSearchRequest(
+    createRequest(JSON.stringify(body), exchange, headers),
+    exchange
+  )
+}
+
+// Serves fixtures instead of calling the exchanges
+function useMockScenario(scenario: string) {
+  vi.stubEnv("P2P_MOCK_UPSTREAM", "1")
+  vi.stubEnv("P2P_MOCK_SCENARIO", scenario)
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {})
+  vi.spyOn(console, "warn").mockImplementation(() => {})
+  vi.spyOn(console, "error").mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe("handleSearchRequest validation", () => {
+  it("responds 404 for an unknown exchange", async () => {
+    const response = await search({}, "kraken")
+
+    expect(response.status).toBe(404)
+    expect((await response.json()).error).toMatch(/^Exchange not found: kraken/)
+  })
+
+  it.each([
+    [{ asset: "DOGE" }, /^Invalid request: asset: Expected one of USDT/],
+    [{ fiat: "EUR" }, /^Invalid request: fiat: Expected one of VES/],
+    [{ tradeType: "HOLD" }, /^Invalid request: tradeType:/],
+    [{ rows: 0 }, /^Invalid request: rows:/],
+    [{ rows: 21 }, /^Invalid request: rows:/],
+    [{ page: "2" }, /^Invalid request: page:/],
+    [{ depth: { targetVolume: -1, maxPages: 2 } }, /depth\.targetVolume:/],
+    [{ depth: { maxPages: 26 } }, /depth\.maxPages:/],
+    [{ depth: { maxPages: 1.5 } }, /depth\.maxPages:/],
+    [{ countries: ["ve"] }, /^Invalid request: countries\.0:/],
+    [{ publisherType: "user" }, /^Invalid request: publisherType:/],
+    [{ transAmount: -5 }, /^Invalid request: transAmount:/],
+    [{ callback: "https://example.com" }, /Unrecognized key: "callback"/],
+    [[], /^Invalid request: /]
+  ])("responds 400 for %j", async (body, message) => {
+    const fetchSpy = vi.fn()
+    vi.stubGlobal("fetch", fetchSpy)
+
+    const response = await search(body)
+
+    expect(response.status).toBe(400)
+    expect((await response.json()).error).toMatch(message)
+    expect(fetchSpy).not.toHaveBeenCalled()
+  })
+})
+
+describe("handleSearchRequest abuse protection", () => {
+  it("responds 400 for a body that is not JSON", async () => {
+    const response = await handleSearchRequest(
+      createRequest("asset=USDT", DEFAULT_EXCHANGE),
+      DEFAULT_EXCHANGE
+    )
+
+    expect(response.status).toBe(400)
+    expect((await response.json()).error).toBe("Request body must be JSON")
+  })
+
+  it("responds 413 for an oversized body", async () => {
+    const response = await search({ payTypes: ["x".repeat(5000)] })
+
+    expect(response.status).toBe(413)
+  })
+
+  it("throttles a client with 429 and Retry-After once its burst is spent", async () => {
+    const client = { "X-Forwarded-For": "198.51.100.7" }
+    const statuses: number[] = []
+
+    // Invalid searches never reach the exchanges but still count
+    for (let i = 0; i < 20; i++) {
+      statuses.push(
+        (await search({ rows: 0 }, DEFAULT_EXCHANGE, client)).status
+      )
+    }
+    const throttled = await search({}, DEFAULT_EXCHANGE, client)
+
+    expect(statuses.every(status => status === 400)).toBe(true)
+    expect(throttled.status).toBe(429)
+    expect(Number(throttled.headers.get("Retry-After"))).toBeGreaterThan(0)
+    expect((await search({ rows: 0 })).status).toBe(400)
+  })
+
+  it("keys clients on the proxy's hop, not on what they put in X-Forwarded-For", async () => {
+    const statuses: number[] = []
+
+    for (let i = 0; i < 21; i++) {
+      const client = { "X-Forwarded-For": `10.0.${i}.1, 198.51.100.9` }
+      statuses.push(
+        (await search({ rows: 0 }, DEFAULT_EXCHANGE, client)).status
+      )
+    }
+
+    expect(statuses.slice(0, 20).every(status => status === 400)).toBe(true)
+    expect(statuses[20]).toBe(429)
+  })
+
+  it("keys clients on P2P_CLIENT_IP_HEADER when set", async () => {
+    vi.stubEnv("P2P_CLIENT_IP_HEADER", "x-real-ip")
+    const statuses: number[] = []
+
+    for (let i = 0; i < 21; i++) {
+      const client = {
+        "X-Forwarded-For": `10.1.${i}.1`,
+        "X-Real-IP": "198.51.100.10"
+      }
+      statuses.push(
+        (await search({ rows: 0 }, DEFAULT_EXCHANGE, client)).status
+      )
+    }
+
+    expect(statuses[20]).toBe(429)
+  })
+
+  it("charges depth searches for every exchange and page they may walk", async () => {
+    useMockScenario("success")
+    const client = { "X-Forwarded-For": "198.51.100.11" }
+    const depth = { depth: { maxPages: 25 } }
+
+    const first = await search(depth, ALL_EXCHANGES, client)
+    const second = await search(depth, ALL_EXCHANGES, client)
+
+    expect(first.status).toBe(200)
+    expect(second.status).toBe(429)
+    expect(Number(second.headers.get("Retry-After"))).toBeGreaterThan(0)
+    expect((await search({}, ALL_EXCHANGES, client)).status).toBe(200)
+  })
+
+  it("falls back to the default burst when P2P_RATE_LIMIT_BURST is not a number", async () => {
+    vi.stubEnv("P2P_RATE_LIMIT_BURST", "lots")
+    vi.resetModules()
+    const proxy = await import("./p2p-proxy")
+    const statuses: number[] = []
+
+    for (let i = 0; i < 21; i++) {
+      const request = createRequest(
+        JSON.stringify({ rows: 0 }),
+        DEFAULT_EXCHANGE,
+        { "X-Forwarded-For": "198.51.100.12" }
+      )
+      statuses.push(
+        (await proxy.handleSearchRequest(request, DEFAULT_EXCHANGE)).status
+      )
+    }
+
+    expect(statuses.slice(0, 20).every(status => status === 400)).toBe(true)
+    expect(statuses[20]).toBe(429)
+  })
+
+  it("stops reading a chunked body once it exceeds the limit", async () => {
+    let chunks = 0
+    const endless = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        chunks++
+        controller.enqueue(new TextEncoder().encode(" ".repeat(1024)))
+      }
+    })
+    const request = new NextRequest(
+      `http://localhost/api/p2p/${DEFAULT_EXCHANGE}`,
+      {
+        method: "POST",
+        headers: { "X-Forwarded-For": `203.0.113.${++clients}` },
+        body: endless,
+        // Streamed request bodies must be half duplex
+        duplex: "half"
+      } as ConstructorParameters<typeof NextRequest>[1]
+    )
+
+    const response = await handleSearchRequest(request, DEFAULT_EXCHANGE)
+
+    expect(response.status).toBe(413)
+    expect(chunks).toBeLessThan(10)
+  })
+
+  it("does not throttle when rate limiting is disabled", async () => {
+    vi.stubEnv("P2P_RATE_LIMIT_DISABLED", "1")
+    const client = { "X-Forwarded-For": "198.51.100.8" }
+
+    for (let i = 0; i < 25; i++) {
+      const response = await search({ rows: 0 }, DEFAULT_EXCHANGE, client)
+      expect(response.status).toBe(400)
+    }
+  })
+
+  it("refuses other sites unless their origin is allowed", async () => {
+    const origin = { Origin: "https://evil.example" }
+
+    const refused = await search({ rows: 0 }, DEFAULT_EXCHANGE, origin)
+    expect(refused.status).toBe(403)
+    expect(refused.headers.get("Access-Control-Allow-Origin")).toBeNull()
+
+    vi.stubEnv(
+      "P2P_ALLOWED_ORIGINS",
+      "https://app.example, https://evil.example"
+    )
+    const allowed = await search({ rows: 0 }, DEFAULT_EXCHANGE, origin)
+    expect(allowed.status).toBe(400)
+    expect(allowed.headers.get("Access-Control-Allow-Origin")).toBe(
+      "https://evil.example"
+    )
+  })
+
+  it("lets allowed origins read error responses", async () => {
+    vi.stubEnv("P2P_ALLOWED_ORIGINS", "https://app.example")
+    useMockScenario("server-error")
+
+    const response = await search({}, DEFAULT_EXCHANGE, {
+      Origin: "https://app.example"
+    })
+
+    expect(response.status).toBe(500)
+    expect(response.headers.get("Access-Control-Allow-Origin")).toBe(
+      "https://app.example"
+    )
+  })
+
+  it("always allows the app's own origin", async () => {
+    const response = await search({ rows: 0 }, DEFAULT_EXCHANGE, {
+      Origin: "http://localhost"
+    })
+
+    expect(response.status).toBe(400)
+  })
+})
+
+describe("handleSearchRequest responses", () => {
+  it("returns validated offers with cache headers", async () => {
+    useMockScenario("success")
+
+    const response = await search({ tradeType: "BUY", rows: 10 })
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get("X-Cache")).toBe("MISS")
+    expect(response.headers.get("X-Mock-Scenario")).toBe("success")
+    expect(body.success).toBe(true)
+    expect(body.data).toHaveLength(10)
+    expect(body.diagnostics).toEqual({
+      received: 10,
+      accepted: 10,
+      rejected: []
+    })
+  })
+
+  it("walks pages in depth mode", async () => {
+    useMockScenario("success")
+
+    const response = await search({ depth: { maxPages: 3 } })
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body.data).toHaveLength(60)
+    expect(body.depth).toMatchObject({ pages: 3, exhausted: false })
+  })
+
+  it("drops malformed ads and reports them", async () => {
+    useMockScenario("malformed")
+
+    const body = await (await search({})).json()
+
+    expect(body.diagnostics.received).toBe(20)
+    expect(body.diagnostics.rejected.length).toBeGreaterThan(0)
+    expect(body.data).toHaveLength(20 - body.diagnostics.rejected.length)
+  })
+
+  it("maps an unsuccessful exchange answer to 400", async () => {
+    useMockScenario("api-error")
+
+    const response = await search({})
+
+    expect(response.status).toBe(400)
+    expect((await response.json()).error).toBe(
+      "Binance API error: illegal parameter"
+    )
+  })
+
+  it("maps an unexpected exchange response to 502", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => Response.json({ unexpected: true }))
+    )
+
+    const response = await search({})
+
+    expect(response.status).toBe(502)
+    expect((await response.json()).error).toMatch(
+      /^Unexpected Binance response/
+    )
+  })
+
+  it("maps exchange failures to 500", async () => {
+    useMockScenario("server-error")
+
+    const response = await search({})
+
+    expect(response.status).toBe(500)
+    expect((await response.json()).error).toBe(
+      "Binance API responded with status: 500"
+    )
+  })
+
+  it("maps timeouts to 500", async () => {
+    useMockScenario("timeout")
+
+    const response = await search({})
+
+    expect(response.status).toBe(500)
+    expect((await response.json()).error).toMatch(/timeout/)
+  })
+
+  it("maps unknown failures to a generic 500", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(() => Promise.reject("connection reset"))
+    )
+
+    const response = await search({})
+
+    expect(response.status).toBe(500)
+    expect((await response.json()).error).toBe("Internal server error")
+  })
+
+  it("reports a failing exchange without failing an aggregated search", async () => {
+    useMockScenario("api-error")
+
+    const response = await search({}, ALL_EXCHANGES)
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body.sources).toContainEqual({
+      exchange: "binance",
+      total: null,
+      error: "Binance API error: illegal parameter"
+    })
+    expect(body.data.length).toBeGreaterThan(0)
+    expect(
+      body.data.every((offer: { source: string }) => offer.source !== "binance")
+    ).toBe(true)
+  })
+})
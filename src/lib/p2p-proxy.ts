@@ -0,0 +1,353 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import {
+  getExchangeAdapter,
+  getExchangeAdapters,
+  searchAllExchanges,
+  searchExchange,
+  searchExchangeDepth
+} from "./exchange-search"
+import {
+  ExchangeApiError,
+  ExchangeQuery,
+  ExchangeResponseError,
+  formatIssues
+} from "./exchange-adapters"
+import {
+  ALL_EXCHANGES,
+  isSupportedAsset,
+  isSupportedFiat,
+  SUPPORTED_ASSETS,
+  SUPPORTED_FIATS
+} from "./markets"
+import { P2PSearchFiltersSchema } from "./types"
+import { getMockScenario, isMockUpstream } from "./mock-upstream"
+import { createRateLimiter, RateLimitResult } from "./rate-limit"
+
+// Upper bound on pages walked by a single depth request
+const MAX_DEPTH_PAGES = 25
+
+// Search bodies are a handful of fields; anything larger is not a search
+const MAX_BODY_BYTES = 4096
+
+/**
+ * Reads a positive number from the environment, falling back to the
+ * default when the variable is unset or not a positive number
+ */
+function getPositiveEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+// Shared across requests so each client has one budget per server instance
+const searchRateLimiter = createRateLimiter({
+  capacity: getPositiveEnv("P2P_RATE_LIMIT_BURST", 20),
+  refillPerSecond: getPositiveEnv("P2P_RATE_LIMIT_PER_MINUTE", 30) / 60
+})
+
+// Depth requests also spend upstream pages, one per exchange and page they
+// may walk, so one request cannot fan out into hundreds of exchange calls.
+// The default burst covers a full aggregated walk.
+const depthRateLimiter = createRateLimiter({
+  capacity: getPositiveEnv("P2P_RATE_LIMIT_DEPTH_PAGES", 100),
+  refillPerSecond:
+    getPositiveEnv("P2P_RATE_LIMIT_DEPTH_PAGES_PER_MINUTE", 60) / 60
+})
+
+const P2PSearchRequestSchema = P2PSearchFiltersSchema.extend({
+  asset: z
+    .string()
+    .refine(isSupportedAsset, `Expected one of ${SUPPORTED_ASSETS.join(", ")}`)
+    .default("USDT"),
+  fiat: z
+    .string()
+    .refine(
+      isSupportedFiat,
+      `Expected one of ${Object.keys(SUPPORTED_FIATS).join(", ")}`
+    )
+    .default("VES"),
+  tradeType: z.enum(["BUY", "SELL"]).default("BUY"),
+  // Exchanges have issues with larger pages; 20 works reliably
+  rows: z.number().int().min(1).max(20).default(20),
+  page: z.number().int().positive().default(1),
+  depth: z
+    .object({
+      targetVolume: z.number().positive().optional(),
+      maxPages: z.number().int().min(1).max(MAX_DEPTH_PAGES)
+    })
+    .strict()
+    .optional()
+}).strict()
+
+/**
+ * Returns the origins allowed to call the proxy from a browser, from
+ * P2P_ALLOWED_ORIGINS (a comma-separated list, or "*" for any). The app's
+ * own origin is always allowed.
+ */
+function getAllowedOrigins(): string[] {
+  return (process.env.P2P_ALLOWED_ORIGINS ?? "")
+    .split(",")
+    .map(origin => origin.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Checks whether a request may use the proxy. Requests without an Origin
+ * header do not come from another site's page and are only rate limited.
+ */
+function isAllowedOrigin(request: NextRequest): boolean {
+  const origin = request.headers.get("origin")
+  if (!origin) return true
+
+  const allowed = getAllowedOrigins()
+  if (allowed.includes("*") || allowed.includes(origin)) return true
+
+  try {
+    const host = request.headers.get("host") ?? request.nextUrl.host
+    return new URL(origin).host === host
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Builds the CORS headers for a request, echoing its origin when allowed
+ */
+export function getCorsHeaders(request: NextRequest): Record<string, string> {
+  const origin = request.headers.get("origin")
+
+  return {
+    ...(origin &&
+      isAllowedOrigin(request) && { "Access-Control-Allow-Origin": origin }),
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type",
+    "Access-Control-Expose-Headers":
+      "X-Cache, Age, X-Data-Timestamp, X-Mock-Scenario, Retry-After",
+    Vary: "Origin"
+  }
+}
+
+/**
+ * Identifies the client for rate limiting by the address a trusted proxy
+ * saw, never by values the client can set. By default that is the hop
+ * appended to X-Forwarded-For by the last of P2P_TRUSTED_PROXY_HOPS
+ * proxies (default 1, the right-most entry). Set P2P_CLIENT_IP_HEADER
+ * (e.g., x-real-ip) when the proxy in front reports the client elsewhere.
+ */
+function getClientIp(request: NextRequest): string {
+  const header = process.env.P2P_CLIENT_IP_HEADER
+  if (header) return request.headers.get(header)?.trim() || "unknown"
+
+  const hops = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map(hop => hop.trim())
+    .filter(Boolean)
+  const trustedHops = getPositiveEnv("P2P_TRUSTED_PROXY_HOPS", 1)
+
+  return hops[Math.max(0, hops.length - trustedHops)] ?? "unknown"
+}
+
+/**
+ * Reads a request body as text, giving up as soon as it exceeds `maxBytes`
+ * so chunked bodies without a Content-Length are never buffered whole
+ * @returns Promise<string | null> - The body, or null when it is too large
+ */
+async function readBodyText(
+  request: NextRequest,
+  maxBytes: number
+): Promise<string | null> {
+  if (Number(request.headers.get("content-length")) > maxBytes) return null
+  if (!request.body) return ""
+
+  const reader = request.body.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    size += value.byteLength
+    if (size > maxBytes) {
+      await reader.cancel()
+      return null
+    }
+    chunks.push(value)
+  }
+
+  return Buffer.concat(chunks).toString("utf8")
+}
+
+/**
+ * Reads and validates a search body: size first, then JSON, then shape
+ */
+async function parseSearchBody(
+  request: NextRequest
+): Promise<
+  | { success: true; data: z.output<typeof P2PSearchRequestSchema> }
+  | { success: false; error: string; status: number }
+> {
+  const text = await readBodyText(request, MAX_BODY_BYTES)
+  if (text === null) {
+    return {
+      success: false,
+      error: `Request body must be at most ${MAX_BODY_BYTES} bytes`,
+      status: 413
+    }
+  }
+
+  let body: unknown
+  try {
+    body = JSON.parse(text)
+  } catch {
+    return { success: false, error: "Request body must be JSON", status: 400 }
+  }
+
+  const parsed = P2PSearchRequestSchema.safeParse(body)
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: `Invalid request: ${formatIssues(parsed.error).join(", ")}`,
+      status: 400
+    }
+  }
+
+  return { success: true, data: parsed.data }
+}
+
+function tooManyRequests(
+  limit: RateLimitResult,
+  corsHeaders: Record<string, string>
+): NextResponse {
+  const retryAfter = Math.ceil(limit.retryAfterMs / 1000)
+  return NextResponse.json(
+    { error: `Too many requests. Retry in ${retryAfter} seconds` },
+    {
+      status: 429,
+      headers: { ...corsHeaders, "Retry-After": String(retryAfter) }
+    }
+  )
+}
+
+/**
+ * Handles a P2P search for one exchange, or for every enabled exchange with
+ * ALL_EXCHANGES. Requests from other sites' pages are refused unless their
+ * origin is allowed, and each client is rate limited before anything is
+ * parsed, then charged for the pages a depth search may walk. Responds with validated offers in the P2PSearchResponse format.
+ */
+export async function handleSearchRequest(
+  request: NextRequest,
+  exchange: string
+): Promise<NextResponse> {
+  const corsHeaders = getCorsHeaders(request)
+
+  if (!isAllowedOrigin(request)) {
+    return NextResponse.json(
+      { error: "Origin not allowed" },
+      { status: 403, headers: corsHeaders }
+    )
+  }
+
+  const rateLimited = process.env.P2P_RATE_LIMIT_DISABLED !== "1"
+  const clientIp = getClientIp(request)
+
+  if (rateLimited) {
+    const limit = searchRateLimiter.take(clientIp)
+    if (!limit.allowed) return tooManyRequests(limit, corsHeaders)
+  }
+
+  try {
+    // No single adapter in aggregated mode
+    const adapter =
+      exchange === ALL_EXCHANGES ? null : getExchangeAdapter(exchange)
+
+    if (exchange !== ALL_EXCHANGES && !adapter) {
+      return NextResponse.json(
+        {
+          error: `Exchange not found: ${exchange}. Enabled: ${getExchangeAdapters()
+            .map(enabled => enabled.id)
+            .join(", ")}`
+        },
+        { status: 404, headers: corsHeaders }
+      )
+    }
+
+    const body = await parseSearchBody(request)
+
+    if (!body.success) {
+      return NextResponse.json(
+        { error: body.error },
+        { status: body.status, headers: corsHeaders }
+      )
+    }
+
+    // Server-side filters are forwarded to the exchange as given
+    const { asset, fiat, tradeType, rows, page, depth, ...filters } = body.data
+
+    if (rateLimited && depth) {
+      const exchanges = adapter ? 1 : getExchangeAdapters().length
+      const limit = depthRateLimiter.take(clientIp, exchanges * depth.maxPages)
+      if (!limit.allowed) return tooManyRequests(limit, corsHeaders)
+    }
+
+    const query: ExchangeQuery = {
+      asset,
+      fiat,
+      tradeType,
+      page,
+      rows,
+      filters
+    }
+
+    console.log(`Searching ${exchange} P2P ads with params:`, query)
+
+    // Depth mode walks pages from `page` on and reports how far it got
+    const { value, status, storedAt, ...extra } = !adapter
+      ? await searchAllExchanges(getExchangeAdapters(), query, depth)
+      : depth
+        ? await searchExchangeDepth(adapter, query, depth)
+        : await searchExchange(adapter, query)
+
+    return NextResponse.json(
+      { ...value, ...extra },
+      {
+        headers: {
+          ...corsHeaders,
+          "X-Cache": status,
+          Age: String(Math.floor((Date.now() - storedAt) / 1000)),
+          "X-Data-Timestamp": new Date(storedAt).toISOString(),
+          // Marks responses built from fixtures rather than a live exchange
+          ...(isMockUpstream() && { "X-Mock-Scenario": getMockScenario() })
+        }
+      }
+    )
+  } catch (error) {
+    console.error("P2P API error:", error)
+
+    if (error instanceof ExchangeApiError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400, headers: corsHeaders }
+      )
+    }
+
+    if (error instanceof ExchangeResponseError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 502, headers: corsHeaders }
+      )
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500, headers: corsHeaders }
+      )
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500, headers: corsHeaders }
+    )
+  }
+}
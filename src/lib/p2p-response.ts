@@ -0,0 +1,38 @@
+import { PriceData } from "./types"
+
+/**
+ * An upstream ad dropped because it failed validation
+ */
+export interface RejectedAd {
+  index: number // position in the upstream page
+  adId: string | null // when the ad carries one
+  reasons: string[] // "path: message" per failed field
+  source?: string // exchange id, in aggregated responses
+}
+
+export interface P2PDiagnostics {
+  received: number // ads in the upstream response
+  accepted: number
+  rejected: RejectedAd[]
+}
+
+/**
+ * Normalized search response returned by the P2P proxy: offers are already
+ * validated and converted, so clients never see an exchange's raw format
+ */
+export interface P2PSearchResponse {
+  success: true
+  total: number // ads matching the search upstream, across all pages
+  data: PriceData[]
+  diagnostics: P2PDiagnostics
+  sources?: SourceStatus[] // per exchange, in aggregated responses
+}
+
+/**
+ * How one exchange fared in an aggregated search
+ */
+export interface SourceStatus {
+  exchange: string
+  total: number | null // null when the exchange failed
+  error: string | null
+}
@@ -0,0 +1,27 @@
+/**
+ * Calculates the spread between the best sell and best buy prices
+ * @param bestBuyPrice - Lowest price to buy the asset
+ * @param bestSellPrice - Highest price to sell the asset
+ * @returns { spread, spreadPercentage } - Absolute spread and % of the buy price
+ */
+export function calculateSpread(
+  bestBuyPrice: number,
+  bestSellPrice: number
+): { spread: number; spreadPercentage: number } {
+  const spread = bestSellPrice - bestBuyPrice
+  const spreadPercentage = (spread / bestBuyPrice) * 100
+  return { spread, spreadPercentage }
+}
+
+/**
+ * Returns the median of a list of numbers, or NaN for an empty list
+ */
+export function getMedian(values: number[]): number {
+  if (values.length === 0) return NaN
+
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle]
+}
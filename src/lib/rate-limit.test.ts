@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { createRateLimiter } from "./rate-limit"
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe("createRateLimiter", () => {
+  it("allows a burst up to capacity, then asks the client to wait", () => {
+    vi.useFakeTimers()
+    const limiter = createRateLimiter({ capacity: 3, refillPerSecond: 0.5 })
+
+    expect([1, 2, 3].map(() => limiter.take("a").allowed)).toEqual([
+      true,
+      true,
+      true
+    ])
+    expect(limiter.take("a")).toEqual({
+      allowed: false,
+      remaining: 0,
+      retryAfterMs: 2000
+    })
+    expect(limiter.take("b").allowed).toBe(true)
+  })
+
+  it("refills over time without exceeding capacity", () => {
+    vi.useFakeTimers()
+    const limiter = createRateLimiter({ capacity: 2, refillPerSecond: 1 })
+
+    limiter.take("a")
+    limiter.take("a")
+    vi.advanceTimersByTime(1000)
+    expect(limiter.take("a")).toMatchObject({ allowed: true, remaining: 0 })
+
+    vi.advanceTimersByTime(60000)
+    expect(limiter.take("a")).toMatchObject({ allowed: true, remaining: 1 })
+  })
+
+  it("charges costly requests several tokens", () => {
+    vi.useFakeTimers()
+    const limiter = createRateLimiter({ capacity: 10, refillPerSecond: 1 })
+
+    expect(limiter.take("a", 6)).toMatchObject({ allowed: true, remaining: 4 })
+    expect(limiter.take("a", 6)).toEqual({
+      allowed: false,
+      remaining: 4,
+      retryAfterMs: 2000
+    })
+    expect(limiter.take("a").allowed).toBe(true)
+  })
+
+  it("forgets the least recently seen clients beyond maxClients", () => {
+    const limiter = createRateLimiter({
+      capacity: 1,
+      refillPerSecond: 0.001,
+      maxClients: 2
+    })
+
+    limiter.take("a")
+    limiter.take("b")
+    limiter.take("c")
+
+    expect(limiter.take("a").allowed).toBe(true)
+    expect(limiter.take("c").allowed).toBe(false)
+  })
+})
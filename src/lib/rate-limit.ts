@@ -0,0 +1,68 @@
+export interface RateLimiterOptions {
+  capacity: number // tokens a client can burst before being throttled
+  refillPerSecond: number // tokens regained per second
+  maxClients?: number // least recently seen clients are evicted beyond this (default: 10000)
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  remaining: number // whole tokens left in the bucket
+  retryAfterMs: number // until the same request would be allowed, 0 when allowed
+}
+
+export interface RateLimiter {
+  take: (key: string, cost?: number) => RateLimitResult
+  clear: () => void
+}
+
+interface Bucket {
+  tokens: number
+  updatedAt: number // epoch milliseconds of the last refill
+}
+
+/**
+ * Creates an in-memory token bucket rate limiter keyed by client. Each
+ * request takes `cost` tokens (default 1), so a request costing more than
+ * `capacity` is never allowed; buckets refill continuously up to `capacity`.
+ * State is per process, so every server instance limits on its own.
+ */
+export function createRateLimiter({
+  capacity,
+  refillPerSecond,
+  maxClients = 10000
+}: RateLimiterOptions): RateLimiter {
+  const buckets = new Map<string, Bucket>()
+
+  return {
+    take(key, cost = 1) {
+      const now = Date.now()
+      const bucket = buckets.get(key)
+      const tokens = bucket
+        ? Math.min(
+            capacity,
+            bucket.tokens + ((now - bucket.updatedAt) / 1000) * refillPerSecond
+          )
+        : capacity
+      const allowed = tokens >= cost
+      const left = allowed ? tokens - cost : tokens
+
+      // Re-insert so Map order tracks recency for eviction
+      buckets.delete(key)
+      buckets.set(key, { tokens: left, updatedAt: now })
+      while (buckets.size > maxClients) {
+        buckets.delete(buckets.keys().next().value as string)
+      }
+
+      return {
+        allowed,
+        remaining: Math.floor(left),
+        retryAfterMs: allowed
+          ? 0
+          : Math.ceil(((cost - tokens) / refillPerSecond) * 1000)
+      }
+    },
+    clear() {
+      buckets.clear()
+    }
+  }
+}
@@ -0,0 +1,196 @@
+import { promises as fs } from "fs"
+import path from "path"
+import { z } from "zod"
+import { ReferenceRate, RateProviderInfo } from "./reference-rates"
+import { CacheResult, createResponseCache } from "./response-cache"
+import { SUPPORTED_FIATS } from "./markets"
+
+/**
+ * A source of reference rates. Providers are looked up by id, so adding one
+ * only takes an entry in RATE_PROVIDERS.
+ */
+export interface RateProvider extends RateProviderInfo {
+  fetchRate: (fiat: string) => Promise<ReferenceRate>
+}
+
+const PROVIDER_TIMEOUT_MS = 10000
+
+// Providers served when P2P_RATE_PROVIDERS is not set
+const DEFAULT_PROVIDERS = ["bcv", "bna", "market"]
+
+const FIXTURE_FILE =
+  process.env.P2P_RATE_FIXTURE_FILE ??
+  path.join(process.cwd(), "fixtures", "reference-rates.json")
+
+/**
+ * Fetches a JSON document from a provider and validates its shape
+ */
+async function fetchProviderJson<T>(
+  url: string,
+  schema: z.ZodType<T>
+): Promise<T> {
+  const response = await fetch(url, {
+    headers: { Accept: "application/json" },
+    signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS)
+  })
+
+  if (!response.ok) {
+    throw new Error(`Rate provider responded with status: ${response.status}`)
+  }
+
+  const parsed = schema.safeParse(await response.json())
+  if (!parsed.success) {
+    throw new Error("Rate provider returned an unexpected response")
+  }
+
+  return parsed.data
+}
+
+// DolarApi quote, shared by its Venezuelan and Argentine endpoints
+const DolarApiQuoteSchema = z.object({
+  compra: z.number().nullable(),
+  venta: z.number().nullable(),
+  promedio: z.number().nullable().optional(),
+  fechaActualizacion: z.string()
+})
+
+/**
+ * Creates a provider for one DolarApi official quote, using the published
+ * average or the midpoint of the buy and sell quotes
+ */
+function createDolarApiProvider(
+  id: string,
+  name: string,
+  fiat: string,
+  url: string
+): RateProvider {
+  return {
+    id,
+    name,
+    fiats: [fiat],
+    async fetchRate() {
+      const quote = await fetchProviderJson(url, DolarApiQuoteSchema)
+      const rate =
+        quote.promedio ??
+        (quote.compra !== null && quote.venta !== null
+          ? (quote.compra + quote.venta) / 2
+          : (quote.venta ?? quote.compra))
+
+      if (!rate) throw new Error(`${name} has not published a rate`)
+
+      return {
+        provider: id,
+        name,
+        fiat,
+        rate,
+        updatedAt: new Date(quote.fechaActualizacion).toISOString()
+      }
+    }
+  }
+}
+
+const OpenExchangeRatesSchema = z.object({
+  result: z.literal("success"),
+  time_last_update_unix: z.number(),
+  rates: z.record(z.string(), z.number())
+})
+
+const marketProvider: RateProvider = {
+  id: "market",
+  name: "Market FX",
+  fiats: Object.keys(SUPPORTED_FIATS),
+  async fetchRate(fiat) {
+    const data = await fetchProviderJson(
+      "https://open.er-api.com/v6/latest/USD",
+      OpenExchangeRatesSchema
+    )
+    const rate = data.rates[fiat]
+
+    if (!rate) throw new Error(`Market FX has no rate for ${fiat}`)
+
+    return {
+      provider: "market",
+      name: "Market FX",
+      fiat,
+      rate,
+      updatedAt: new Date(data.time_last_update_unix * 1000).toISOString()
+    }
+  }
+}
+
+const FixtureRatesSchema = z.record(
+  z.string(),
+  z.object({ rate: z.number().positive(), updatedAt: z.iso.datetime() })
+)
+
+/**
+ * Serves rates from a local JSON file (P2P_RATE_FIXTURE_FILE), for tests and
+ * offline development
+ */
+const fixtureProvider: RateProvider = {
+  id: "fixture",
+  name: "Fixture",
+  fiats: Object.keys(SUPPORTED_FIATS),
+  async fetchRate(fiat) {
+    const fixture = FixtureRatesSchema.parse(
+      JSON.parse(await fs.readFile(FIXTURE_FILE, "utf8"))
+    )
+    const entry = fixture[fiat]
+
+    if (!entry) throw new Error(`No fixture rate for ${fiat}`)
+
+    return { provider: "fixture", name: "Fixture", fiat, ...entry }
+  }
+}
+
+const RATE_PROVIDERS: RateProvider[] = [
+  createDolarApiProvider(
+    "bcv",
+    "BCV",
+    "VES",
+    "https://ve.dolarapi.com/v1/dolares/oficial"
+  ),
+  createDolarApiProvider(
+    "bna",
+    "BNA Oficial",
+    "ARS",
+    "https://dolarapi.com/v1/dolares/oficial"
+  ),
+  marketProvider,
+  fixtureProvider
+]
+
+// Reference rates move at most daily, so they are cached far longer than offers
+const rateCache = createResponseCache<ReferenceRate>({
+  ttlMs: Number(process.env.P2P_RATES_TTL_MS ?? 10 * 60 * 1000),
+  staleMs: Number(process.env.P2P_RATES_STALE_MS ?? 60 * 60 * 1000)
+})
+
+/**
+ * Returns the providers enabled by P2P_RATE_PROVIDERS (a comma-separated list
+ * of ids, default "bcv,bna,market")
+ */
+export function getRateProviders(): RateProvider[] {
+  const enabled =
+    process.env.P2P_RATE_PROVIDERS?.split(",").map(id => id.trim()) ??
+    DEFAULT_PROVIDERS
+
+  return RATE_PROVIDERS.filter(provider => enabled.includes(provider.id))
+}
+
+/**
+ * Finds an enabled provider by id
+ */
+export function getRateProvider(id: string): RateProvider | null {
+  return getRateProviders().find(provider => provider.id === id) ?? null
+}
+
+/**
+ * Fetches a provider's rate through the shared cache
+ */
+export async function getReferenceRate(
+  provider: RateProvider,
+  fiat: string
+): Promise<CacheResult<ReferenceRate>> {
+  return rateCache.get(`${provider.id}:${fiat}`, () => provider.fetchRate(fiat))
+}
@@ -0,0 +1,49 @@
+/**
+ * An official or market exchange rate, in fiat per US dollar
+ */
+export interface ReferenceRate {
+  provider: string // id of the provider that published it
+  name: string // display name, e.g., "BCV"
+  fiat: string
+  rate: number
+  updatedAt: string // ISO 8601, when the source last published the rate
+}
+
+/**
+ * Public description of a rate provider, as listed by /api/rates
+ */
+export interface RateProviderInfo {
+  id: string
+  name: string
+  fiats: string[]
+}
+
+export interface RateProvidersResponse {
+  fiat: string
+  providers: RateProviderInfo[]
+}
+
+// Reference rates are quoted per US dollar, so only dollar stablecoins
+// can be compared against them
+const USD_PEGGED_ASSETS = ["USDT"]
+
+export function isUsdPegged(asset: string): boolean {
+  return USD_PEGGED_ASSETS.includes(asset)
+}
+
+/**
+ * Calculates how far a P2P price sits above (premium) or below (discount)
+ * a reference rate
+ * @returns number - Percentage of the reference rate, positive for a premium
+ */
+export function calculatePremium(price: number, referenceRate: number): number {
+  return ((price - referenceRate) / referenceRate) * 100
+}
+
+/**
+ * Formats the premium of a price over a reference rate, e.g. "+2.35%"
+ */
+export function formatPremium(price: number, referenceRate: number): string {
+  const premium = calculatePremium(price, referenceRate)
+  return `${premium >= 0 ? "+" : ""}${premium.toFixed(2)}%`
+}
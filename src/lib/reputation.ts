@@ -0,0 +1,111 @@
+import { PriceData, TrustFilters } from "./types"
+
+type Advertiser = PriceData["advertiser"]
+
+export type TrustLevel = "high" | "medium" | "low"
+
+// Share of the 0-100 trust score contributed by each factor
+const TRUST_WEIGHTS = {
+  completionRate: 35,
+  rating: 15,
+  orderCount: 20,
+  monthOrderCount: 10,
+  confirmTime: 10,
+  merchant: 10
+}
+
+// Order counts at which the volume factors saturate
+const FULL_ORDER_COUNT = 1000
+const FULL_MONTH_ORDER_COUNT = 100
+
+// Release times at or above this earn no confirm-time credit
+const SLOWEST_CONFIRM_SECONDS = 30 * 60
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value))
+
+/**
+ * Computes a 0-100 trust score for an advertiser from its completion rate,
+ * rating, order history, release time and merchant status. Order counts are
+ * scored on a log scale so established advertisers are not separated by
+ * volume alone; a missing release time earns half credit.
+ */
+export function getTrustScore(advertiser: Advertiser): number {
+  const factors = {
+    completionRate: clamp(advertiser.completionRate / 100),
+    rating: clamp(advertiser.rating / 100),
+    orderCount: clamp(
+      Math.log10(advertiser.orderCount + 1) / Math.log10(FULL_ORDER_COUNT + 1)
+    ),
+    monthOrderCount: clamp(advertiser.monthOrderCount / FULL_MONTH_ORDER_COUNT),
+    confirmTime:
+      advertiser.advConfirmTime === undefined
+        ? 0.5
+        : clamp(1 - advertiser.advConfirmTime / SLOWEST_CONFIRM_SECONDS),
+    merchant: advertiser.userType === "merchant" ? 1 : 0
+  }
+
+  const score = (Object.keys(TRUST_WEIGHTS) as (keyof typeof factors)[]).reduce(
+    (total, factor) => total + (factors[factor] || 0) * TRUST_WEIGHTS[factor],
+    0
+  )
+
+  return Math.round(score)
+}
+
+export function getTrustLevel(score: number): TrustLevel {
+  if (score >= 75) return "high"
+  if (score >= 50) return "medium"
+  return "low"
+}
+
+/**
+ * Explains why an offer fails the trust filters
+ * @returns string | null - The first failed requirement, null if it passes
+ */
+export function getTrustRejectionReason(
+  offer: PriceData,
+  filters: TrustFilters
+): string | null {
+  const { advertiser } = offer
+
+  if (
+    filters.minCompletionRate !== undefined &&
+    advertiser.completionRate < filters.minCompletionRate
+  ) {
+    return `Completion rate ${advertiser.completionRate.toFixed(1)}% is below ${filters.minCompletionRate}%`
+  }
+
+  if (
+    filters.minOrders !== undefined &&
+    advertiser.orderCount < filters.minOrders
+  ) {
+    return `${advertiser.orderCount} orders is below the minimum of ${filters.minOrders}`
+  }
+
+  if (filters.merchantsOnly && advertiser.userType !== "merchant") {
+    return "Advertiser is not a verified merchant"
+  }
+
+  if (filters.maxConfirmMinutes !== undefined) {
+    if (advertiser.advConfirmTime === undefined) {
+      return "Advertiser has no published release time"
+    }
+    if (advertiser.advConfirmTime > filters.maxConfirmMinutes * 60) {
+      return `Release time ${(advertiser.advConfirmTime / 60).toFixed(1)} min exceeds ${filters.maxConfirmMinutes} min`
+    }
+  }
+
+  return null
+}
+
+/**
+ * Checks whether any trust filter is set
+ */
+export function hasTrustFilters(filters: TrustFilters): boolean {
+  return (
+    filters.minCompletionRate !== undefined ||
+    filters.minOrders !== undefined ||
+    Boolean(filters.merchantsOnly) ||
+    filters.maxConfirmMinutes !== undefined
+  )
+}
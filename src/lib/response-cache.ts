@@ -0,0 +1,90 @@
+export type CacheStatus = "HIT" | "STALE" | "MISS"
+
+export interface CacheResult<T> {
+  value: T
+  status: CacheStatus
+  storedAt: number // epoch milliseconds when the value was fetched
+}
+
+export interface ResponseCacheOptions {
+  ttlMs: number // how long a value is served as fresh
+  staleMs: number // how long after that it is served while revalidating
+  maxEntries?: number // oldest entries are evicted beyond this (default: 500)
+}
+
+export interface ResponseCache<T> {
+  get: (key: string, load: () => Promise<T>) => Promise<CacheResult<T>>
+  clear: () => void
+}
+
+interface CacheEntry<T> {
+  value: T
+  storedAt: number
+}
+
+/**
+ * Creates an in-memory TTL cache with stale-while-revalidate semantics.
+ * Concurrent loads of the same key share a single in-flight promise, so a
+ * burst of identical requests results in one upstream call. Failed loads are
+ * never cached; a failed background revalidation keeps serving the stale
+ * value until it expires.
+ */
+export function createResponseCache<T>({
+  ttlMs,
+  staleMs,
+  maxEntries = 500
+}: ResponseCacheOptions): ResponseCache<T> {
+  const entries = new Map<string, CacheEntry<T>>()
+  const inFlight = new Map<string, Promise<CacheEntry<T>>>()
+
+  const load = (key: string, loader: () => Promise<T>) => {
+    const pending = inFlight.get(key)
+    if (pending) return pending
+
+    const request = loader()
+      .then(value => {
+        const entry = { value, storedAt: Date.now() }
+
+        // Re-insert so Map order tracks recency for eviction
+        entries.delete(key)
+        entries.set(key, entry)
+        while (entries.size > maxEntries) {
+          entries.delete(entries.keys().next().value as string)
+        }
+
+        return entry
+      })
+      .finally(() => {
+        inFlight.delete(key)
+      })
+
+    inFlight.set(key, request)
+    return request
+  }
+
+  return {
+    async get(key, loader) {
+      const entry = entries.get(key)
+      const age = entry ? Date.now() - entry.storedAt : Infinity
+
+      if (entry && age < ttlMs) {
+        return { ...entry, status: "HIT" }
+      }
+
+      if (entry && age < ttlMs + staleMs) {
+        load(key, loader).catch(error => {
+          console.warn(`Background revalidation failed for ${key}:`, error)
+        })
+        return { ...entry, status: "STALE" }
+      }
+
+      const fresh = await load(key, loader)
+      return { ...fresh, status: "MISS" }
+    },
+
+    clear() {
+      entries.clear()
+      inFlight.clear()
+    }
+  }
+}
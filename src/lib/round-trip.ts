@@ -0,0 +1,226 @@
+import { PriceData, TrustFilters } from "./types"
+import {
+  calculateBestTradingRoute,
+  calculateRouteWithinBudget,
+  RejectedOffer,
+  TradingRoute
+} from "./trading-calculator"
+import { buildDepthSteps } from "./depth"
+import { getTrustRejectionReason } from "./reputation"
+import { DEFAULT_PAIR, MarketPair } from "./markets"
+import { DEFAULT_ROUTE_OBJECTIVE, RouteObjective } from "./route-scoring"
+
+export interface RoundTripFees {
+  buyFeePercent: number // charged on the fiat paid for the asset
+  sellFeePercent: number // charged on the fiat received for the asset
+  fixedFee: number // fiat charged once per cycle (e.g., bank transfers)
+}
+
+export interface RoundTripBudget {
+  amount: number
+  currency: "FIAT" | "ASSET" // fiat to spend, or asset to cycle
+}
+
+export interface RoundTripOptions {
+  maxOffers?: number
+  pair?: MarketPair
+  trustFilters?: TrustFilters
+  objective?: RouteObjective
+}
+
+/**
+ * Profitability of the cycle across the available depth. Computed on the
+ * best-price-first curve of each side, ignoring minimum order limits and the
+ * counterparty limit, so it is an upper bound on what routes can achieve.
+ */
+export interface RoundTripProfitability {
+  optimalAmount: number // cycle size with the highest net profit
+  maxProfit: number // net profit at optimalAmount
+  minProfitableAmount: number | null // smallest size covering the fixed fee
+  maxProfitableAmount: number | null // largest size still in profit
+  limitedByDepth: boolean // still profitable when the loaded depth runs out
+}
+
+export interface RoundTripResult {
+  amount: number // asset bought, then sold
+  buyRoute: TradingRoute
+  sellRoute: TradingRoute
+  buyCost: number // fiat paid, including the buy fee
+  sellProceeds: number // fiat received, net of the sell fee
+  totalFees: number
+  netProfit: number
+  profitPercentage: number // net profit as % of the fiat invested
+  spreadPercentage: number // between the routes' average prices
+  breakEvenSpreadPercentage: number // spread at which net profit is zero
+  profitability: RoundTripProfitability
+  rejectedOffers: RejectedOffer[] // both sides
+}
+
+/**
+ * Calculates a buy-then-sell cycle on one pair: the best buy route and the
+ * best sell route for the same asset amount, net profit after fees and the
+ * break-even spread. A fiat budget is converted into the largest asset
+ * amount whose buy route fits within it.
+ * @param buyOffers - Offers to buy the asset from
+ * @param sellOffers - Offers to sell the asset to
+ * @param budget - Fiat to spend or asset amount to cycle
+ * @param fees - Fees charged on each leg and per cycle
+ * @param options - Route options, as for calculateBestTradingRoute
+ * @returns RoundTripResult - Both routes and the cycle's profitability
+ */
+export function calculateRoundTrip(
+  buyOffers: PriceData[],
+  sellOffers: PriceData[],
+  budget: RoundTripBudget,
+  fees: RoundTripFees,
+  {
+    maxOffers = 5,
+    pair = DEFAULT_PAIR,
+    trustFilters = {},
+    objective = DEFAULT_ROUTE_OBJECTIVE
+  }: RoundTripOptions = {}
+): RoundTripResult {
+  if (buyOffers.length === 0 || sellOffers.length === 0) {
+    throw new Error("Both buy and sell offers are needed for a round trip")
+  }
+
+  const findRoute = (offers: PriceData[], amount: number) =>
+    calculateBestTradingRoute(
+      offers,
+      amount,
+      maxOffers,
+      undefined,
+      pair,
+      trustFilters,
+      objective
+    )
+
+  const buy =
+    budget.currency === "ASSET"
+      ? findRoute(buyOffers, budget.amount)
+      : calculateRouteWithinBudget(
+          amount => findRoute(buyOffers, amount),
+          budget.amount,
+          Math.min(...buyOffers.map(offer => offer.price)),
+          1 + fees.buyFeePercent / 100
+        )
+  const amount = buy.bestRoute.totalAmount
+
+  const sell = findRoute(sellOffers, amount)
+  const buyRoute = buy.bestRoute
+  const sellRoute = sell.bestRoute
+
+  const buyFee = (buyRoute.totalCost * fees.buyFeePercent) / 100
+  const sellFee = (sellRoute.totalCost * fees.sellFeePercent) / 100
+  const buyCost = buyRoute.totalCost + buyFee
+  const sellProceeds = sellRoute.totalCost - sellFee
+  const netProfit = sellProceeds - buyCost - fees.fixedFee
+
+  // Solve sellAvg * (1 - s) = buyAvg * (1 + b) + fixedFee / amount
+  const breakEvenRatio =
+    (1 +
+      fees.buyFeePercent / 100 +
+      fees.fixedFee / (buyRoute.averagePrice * amount)) /
+    (1 - fees.sellFeePercent / 100)
+
+  return {
+    amount,
+    buyRoute,
+    sellRoute,
+    buyCost,
+    sellProceeds,
+    totalFees: buyFee + sellFee + fees.fixedFee,
+    netProfit,
+    profitPercentage: (netProfit / (buyCost + fees.fixedFee)) * 100,
+    spreadPercentage:
+      ((sellRoute.averagePrice - buyRoute.averagePrice) /
+        buyRoute.averagePrice) *
+      100,
+    breakEvenSpreadPercentage: (breakEvenRatio - 1) * 100,
+    profitability: getRoundTripProfitability(
+      buyOffers,
+      sellOffers,
+      fees,
+      trustFilters
+    ),
+    rejectedOffers: [...buy.rejectedOffers, ...sell.rejectedOffers]
+  }
+}
+
+/**
+ * Walks both sides of the book best price first to find how large a cycle
+ * can get before it stops paying. Net profit P(x) starts at minus the fixed
+ * fee and grows by the fee-adjusted sell price minus buy price of each unit;
+ * those margins only shrink, so P rises to a single peak and then falls.
+ * @param buyOffers - Offers to buy the asset from
+ * @param sellOffers - Offers to sell the asset to
+ * @param fees - Fees charged on each leg and per cycle
+ * @param trustFilters - Offers failing these are left out
+ * @returns RoundTripProfitability - Peak profit and the profitable size range
+ */
+export function getRoundTripProfitability(
+  buyOffers: PriceData[],
+  sellOffers: PriceData[],
+  fees: RoundTripFees,
+  trustFilters: TrustFilters = {}
+): RoundTripProfitability {
+  const isTrusted = (offer: PriceData) =>
+    getTrustRejectionReason(offer, trustFilters) === null
+  const buySteps = buildDepthSteps(buyOffers.filter(isTrusted), "BUY")
+  const sellSteps = buildDepthSteps(sellOffers.filter(isTrusted), "SELL")
+
+  const buyFactor = 1 + fees.buyFeePercent / 100
+  const sellFactor = 1 - fees.sellFeePercent / 100
+
+  let amount = 0
+  let profit = -fees.fixedFee
+  let optimalAmount = 0
+  let maxProfit = profit
+  let minProfitableAmount: number | null = profit >= 0 ? 0 : null
+  let maxProfitableAmount: number | null = null
+  let buyIndex = 0
+  let sellIndex = 0
+  let buyLeft = buySteps[0]?.amount ?? 0
+  let sellLeft = sellSteps[0]?.amount ?? 0
+
+  while (buyIndex < buySteps.length && sellIndex < sellSteps.length) {
+    const size = Math.min(buyLeft, sellLeft)
+    const margin =
+      sellSteps[sellIndex].price * sellFactor -
+      buySteps[buyIndex].price * buyFactor
+    const nextProfit = profit + margin * size
+
+    if (margin > 0) {
+      if (minProfitableAmount === null && nextProfit >= 0) {
+        minProfitableAmount = amount - profit / margin
+      }
+      optimalAmount = amount + size
+      maxProfit = nextProfit
+    } else if (profit < 0) {
+      break // past the peak without ever covering the fixed fee
+    } else if (nextProfit < 0) {
+      maxProfitableAmount = amount + profit / -margin
+      break
+    }
+
+    amount += size
+    profit = nextProfit
+
+    buyLeft -= size
+    sellLeft -= size
+    if (buyLeft <= 0) buyLeft = buySteps[++buyIndex]?.amount ?? 0
+    if (sellLeft <= 0) sellLeft = sellSteps[++sellIndex]?.amount ?? 0
+  }
+
+  // Still in profit when a side ran out: the loaded depth is the limit
+  const limitedByDepth =
+    minProfitableAmount !== null && maxProfitableAmount === null && profit >= 0
+
+  return {
+    optimalAmount,
+    maxProfit,
+    minProfitableAmount,
+    maxProfitableAmount: limitedByDepth ? amount : maxProfitableAmount,
+    limitedByDepth
+  }
+}
@@ -0,0 +1,137 @@
+import { PriceData } from "./types"
+
+export type RouteFactor =
+  "price" | "counterparties" | "completionRate" | "payTime"
+
+/**
+ * Relative weights of the route factors; only their ratios matter
+ */
+export type RouteObjective = Record<RouteFactor, number>
+
+export const ROUTE_OBJECTIVES = {
+  balanced: { price: 60, counterparties: 15, completionRate: 15, payTime: 10 },
+  cheapest: { price: 100, counterparties: 0, completionRate: 0, payTime: 0 },
+  safest: { price: 30, counterparties: 25, completionRate: 30, payTime: 15 }
+} satisfies Record<string, RouteObjective>
+
+export type RouteObjectiveName = keyof typeof ROUTE_OBJECTIVES
+
+export const DEFAULT_ROUTE_OBJECTIVE: RouteObjective = ROUTE_OBJECTIVES.balanced
+
+export const ROUTE_FACTOR_LABELS: Record<RouteFactor, string> = {
+  price: "Price",
+  counterparties: "Counterparties",
+  completionRate: "Completion rate",
+  payTime: "Payment window"
+}
+
+export interface RouteFactorScore {
+  value: number // raw measure: % above best price, count, %, or minutes
+  score: number // 0-1, higher is better
+  weight: number // share of the objective, 0-1
+}
+
+export interface RouteScore {
+  total: number // 0-100
+  factors: Record<RouteFactor, RouteFactorScore>
+}
+
+// A route this far (in %) from the best available price scores 0 on price
+const PRICE_TOLERANCE_PERCENT = 2
+
+// Completion rates (%) at or below this score 0; P2P completion rates
+// cluster near 100%, so a linear 0-100 scale would barely separate them
+const COMPLETION_RATE_FLOOR = 50
+
+// Payment windows scored for buyers (longer is safer) and sellers (shorter
+// releases funds sooner)
+const FULL_BUYER_PAY_TIME = 30
+const FULL_SELLER_PAY_TIME = 15
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value))
+
+/**
+ * Averages a per-offer measure weighted by the amount filled from each offer
+ */
+function getFillWeightedAverage(
+  offers: PriceData[],
+  getValue: (offer: PriceData) => number
+): number {
+  const totalAmount = offers.reduce((sum, offer) => sum + offer.amount, 0)
+  if (totalAmount <= 0) return 0
+
+  return (
+    offers.reduce((sum, offer) => sum + getValue(offer) * offer.amount, 0) /
+    totalAmount
+  )
+}
+
+/**
+ * Scores a route against an objective. Price is measured against the best
+ * price on offer, completion rate and payment window are weighted by the
+ * amount filled from each advertiser, and every extra counterparty costs
+ * an equal share of the counterparty factor up to `maxOffers`.
+ * @param offers - Route legs, with `amount` set to the filled amount
+ * @param averagePrice - Average price of the route
+ * @param bestPrice - Best single price among the eligible offers
+ * @param maxOffers - Largest number of offers a route may combine
+ * @param objective - Factor weights
+ * @returns RouteScore - Total score and per-factor breakdown
+ */
+export function scoreRoute(
+  offers: PriceData[],
+  averagePrice: number,
+  bestPrice: number,
+  maxOffers: number,
+  objective: RouteObjective
+): RouteScore {
+  const isBuy = offers[0]?.tradeType !== "SELL"
+  const pricePremium =
+    bestPrice > 0
+      ? ((isBuy ? averagePrice - bestPrice : bestPrice - averagePrice) /
+          bestPrice) *
+        100
+      : 0
+  const completionRate = getFillWeightedAverage(
+    offers,
+    offer => offer.advertiser.completionRate
+  )
+  const payTime = getFillWeightedAverage(offers, offer => offer.payTimeLimit)
+
+  const scores: Record<RouteFactor, { value: number; score: number }> = {
+    price: {
+      value: pricePremium,
+      score: clamp(1 - pricePremium / PRICE_TOLERANCE_PERCENT)
+    },
+    counterparties: {
+      value: offers.length,
+      score:
+        maxOffers > 1 ? clamp((maxOffers - offers.length) / (maxOffers - 1)) : 1
+    },
+    completionRate: {
+      value: completionRate,
+      score: clamp(
+        (completionRate - COMPLETION_RATE_FLOOR) / (100 - COMPLETION_RATE_FLOOR)
+      )
+    },
+    payTime: {
+      value: payTime,
+      score: isBuy
+        ? clamp(payTime / FULL_BUYER_PAY_TIME)
+        : clamp(FULL_SELLER_PAY_TIME / Math.max(payTime, 1))
+    }
+  }
+
+  const totalWeight =
+    Object.values(objective).reduce((sum, weight) => sum + weight, 0) || 1
+  const factors = {} as Record<RouteFactor, RouteFactorScore>
+  let total = 0
+
+  for (const factor of Object.keys(scores) as RouteFactor[]) {
+    const weight = objective[factor] / totalWeight
+    factors[factor] = { ...scores[factor], weight }
+    total += scores[factor].score * weight * 100
+  }
+
+  return { total, factors }
+}
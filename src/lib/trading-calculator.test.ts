@@ -0,0 +1,199 @@
+import { describe, expect, it } from "vitest"
+import {
+  calculateBestTradingRoute,
+  formatTradingRoute,
+  getAvailableBanks
+} from "./trading-calculator"
+import { PriceData } from "./types"
+import { makeOffer } from "@/test/offers"
+
+const legs = (offers: PriceData[]) =>
+  offers.map(offer => [offer.price, offer.amount])
+
+describe("calculateBestTradingRoute", () => {
+  it("throws when there are no offers", () => {
+    expect(() => calculateBestTradingRoute([], 100)).toThrow(
+      "No offers available"
+    )
+  })
+
+  it("fills the target exactly from a single offer that covers it", () => {
+    const result = calculateBestTradingRoute(
+      [makeOffer(51, 100), makeOffer(50, 100)],
+      100
+    )
+
+    expect(legs(result.bestRoute.offers)).toEqual([[50, 100]])
+    expect(result.bestRoute.totalAmount).toBe(100)
+    expect(result.bestRoute.totalCost).toBe(5000)
+    expect(result.bestRoute.averagePrice).toBe(50)
+    expect(result.bestRoute.efficiency).toBe(100)
+  })
+
+  it("splits the target across the best prices first", () => {
+    const result = calculateBestTradingRoute(
+      [makeOffer(52, 60), makeOffer(50, 60), makeOffer(51, 60)],
+      100
+    )
+
+    expect(legs(result.bestRoute.offers)).toEqual([
+      [50, 60],
+      [51, 40]
+    ])
+    expect(result.bestRoute.totalCost).toBe(5040)
+    expect(result.bestRoute.averagePrice).toBeCloseTo(50.4)
+  })
+
+  it("throws when the book cannot fill the target", () => {
+    expect(() =>
+      calculateBestTradingRoute([makeOffer(50, 30), makeOffer(51, 30)], 100)
+    ).toThrow("No combination found for 100 USDT")
+  })
+
+  it("throws when the combined offers exceed maxOffers", () => {
+    expect(() =>
+      calculateBestTradingRoute(
+        [makeOffer(50, 40), makeOffer(51, 40), makeOffer(52, 40)],
+        100,
+        2
+      )
+    ).toThrow("No combination found")
+  })
+
+  it("rejects offers whose minimum order exceeds the target", () => {
+    const large = makeOffer(49, 500, { minAmount: 200 })
+    const result = calculateBestTradingRoute([large, makeOffer(50, 100)], 100)
+
+    expect(legs(result.bestRoute.offers)).toEqual([[50, 100]])
+    expect(result.rejectedOffers).toHaveLength(1)
+    expect(result.rejectedOffers[0].offer).toBe(large)
+    expect(result.rejectedOffers[0].reason).toMatch(/^Minimum order of/)
+  })
+
+  it("skips cheaper offers whose minimum order would overfill the target", () => {
+    // Taking 80 from the cheapest leaves 20, below the other's minimum of 30
+    const result = calculateBestTradingRoute(
+      [
+        makeOffer(50, 80, { minAmount: 80 }),
+        makeOffer(51, 100, { minAmount: 30 })
+      ],
+      100
+    )
+
+    expect(legs(result.bestRoute.offers)).toEqual([[51, 100]])
+  })
+
+  it("throws when every offer is rejected", () => {
+    expect(() =>
+      calculateBestTradingRoute([makeOffer(50, 500, { minAmount: 200 })], 100)
+    ).toThrow("No offers accept an order of 100 USDT within their limits")
+    expect(() =>
+      calculateBestTradingRoute(
+        [makeOffer(50, 500, { completionRate: 80 })],
+        100,
+        5,
+        undefined,
+        undefined,
+        { minCompletionRate: 95 }
+      )
+    ).toThrow("No trusted offers accept an order of 100 USDT")
+  })
+
+  it("only uses offers paying with the filtered bank", () => {
+    const mercantil = makeOffer(51, 100, {
+      paymentMethods: [{ payType: "BANK", payBank: "Mercantil" }]
+    })
+    const result = calculateBestTradingRoute(
+      [makeOffer(50, 100), mercantil],
+      100,
+      5,
+      "mercantil"
+    )
+
+    expect(result.bestRoute.offers).toHaveLength(1)
+    expect(result.bestRoute.offers[0].paymentMethods).toEqual(
+      mercantil.paymentMethods
+    )
+    expect(result.bestRoute.totalCost).toBe(5100)
+  })
+
+  it("throws when no offer pays with the filtered bank", () => {
+    expect(() =>
+      calculateBestTradingRoute([makeOffer(50, 100)], 100, 5, "Provincial")
+    ).toThrow("No offers available for bank: Provincial")
+  })
+
+  it("takes the highest prices first when selling", () => {
+    const result = calculateBestTradingRoute(
+      [
+        makeOffer(50, 60, { tradeType: "SELL" }),
+        makeOffer(52, 60, { tradeType: "SELL" }),
+        makeOffer(51, 60, { tradeType: "SELL" })
+      ],
+      100
+    )
+
+    expect(legs(result.bestRoute.offers)).toEqual([
+      [52, 60],
+      [51, 40]
+    ])
+    expect(result.bestRoute.totalCost).toBe(5160)
+  })
+
+  it("ranks alternatives behind the best route", () => {
+    const result = calculateBestTradingRoute(
+      [makeOffer(50, 100), makeOffer(51, 100), makeOffer(52, 100)],
+      100
+    )
+
+    expect(result.alternativeRoutes.length).toBeGreaterThan(0)
+    result.alternativeRoutes.forEach(route => {
+      expect(route.score.total).toBeLessThanOrEqual(
+        result.bestRoute.score.total
+      )
+      expect(route.totalAmount).toBe(100)
+    })
+  })
+})
+
+describe("getAvailableBanks", () => {
+  it("returns every bank and pay type once, sorted", () => {
+    const banks = getAvailableBanks([
+      makeOffer(50, 100, {
+        paymentMethods: [
+          { payType: "BANK", payBank: "Mercantil" },
+          { payType: "PagoMovil" }
+        ]
+      }),
+      makeOffer(51, 100, {
+        paymentMethods: [{ payType: "BANK", payBank: "Banesco" }]
+      })
+    ])
+
+    expect(banks).toEqual(["BANK", "Banesco", "Mercantil", "PagoMovil"])
+  })
+
+  it("returns nothing for an empty book", () => {
+    expect(getAvailableBanks([])).toEqual([])
+  })
+})
+
+describe("formatTradingRoute", () => {
+  const { bestRoute } = calculateBestTradingRoute(
+    [makeOffer(50, 60), makeOffer(51, 60)],
+    100
+  )
+
+  it("formats amounts in the given fiat", () => {
+    expect(formatTradingRoute(bestRoute, "MXN")).toEqual({
+      totalCost: "$5,040.00",
+      averagePrice: "$50.40",
+      savings: "$60.00",
+      efficiency: "99.2%"
+    })
+  })
+
+  it("formats amounts in bolívares by default", () => {
+    expect(formatTradingRoute(bestRoute).totalCost).toMatch(/5\.040,00/)
+  })
+})
@@ -1,4 +1,19 @@
-import { PriceData } from "./types"
+import { PriceData, TrustFilters } from "./types"
+import { getMaxFill, solveOptimalFills } from "./fill-solver"
+import {
+  DEFAULT_PAIR,
+  formatAssetAmount,
+  formatFiat,
+  getAssetDecimals,
+  MarketPair
+} from "./markets"
+import { getTrustRejectionReason, hasTrustFilters } from "./reputation"
+import {
+  DEFAULT_ROUTE_OBJECTIVE,
+  RouteObjective,
+  RouteScore,
+  scoreRoute
+} from "./route-scoring"
 
 export interface TradingRoute {
   offers: PriceData[]
@@ -7,12 +22,20 @@ export interface TradingRoute {
   averagePrice: number
   savings: number // compared to using the worst price
   efficiency: number // percentage of optimal price
+  score: RouteScore // risk-adjusted score under the requested objective
+}
+
+export interface RejectedOffer {
+  offer: PriceData
+  reason: string
 }
 
 export interface TradingCalculatorResult {
   targetAmount: number
   bestRoute: TradingRoute
   alternativeRoutes: TradingRoute[]
+  rejectedOffers: RejectedOffer[] // offers unusable for this amount or too risky
+  objective: RouteObjective // factor weights the routes were ranked by
   summary: {
     totalOffers: number
     averagePrice: number
@@ -25,16 +48,23 @@ export interface TradingCalculatorResult {
 /**
  * Calculates the best trading route for a specific amount
  * @param offers - Available price offers
- * @param targetAmount - Amount to trade (in USDT)
+ * @param targetAmount - Amount to trade (in the pair's asset)
  * @param maxOffers - Maximum number of offers to combine (default: 5)
  * @param bankFilter - Optional bank filter to only consider offers with this bank
- * @returns Best trading route and alternatives
+ * @param pair - Asset and fiat of the offers, used in messages (default: USDT/VES)
+ * @param trustFilters - Counterparty requirements; failing offers are rejected
+ * @param objective - Weights of price, counterparties, completion rate and
+ * payment window used to rank routes (default: balanced)
+ * @returns Best trading route and alternatives, ranked by score
  */
 export function calculateBestTradingRoute(
   offers: PriceData[],
   targetAmount: number,
   maxOffers: number = 5,
-  bankFilter?: string
+  bankFilter?: string,
+  pair: MarketPair = DEFAULT_PAIR,
+  trustFilters: TrustFilters = {},
+  objective: RouteObjective = DEFAULT_ROUTE_OBJECTIVE
 ): TradingCalculatorResult {
   if (offers.length === 0) {
     throw new Error("No offers available")
@@ -65,22 +95,46 @@ export function calculateBestTradingRoute(
     }
   })
 
-  // Find all possible combinations of offers
-  const combinations = findOfferCombinations(
-    sortedOffers,
+  // Drop risky counterparties and offers whose order limits make them
+  // unusable for this amount
+  const rejectedOffers: RejectedOffer[] = []
+  const eligibleOffers = sortedOffers.filter(offer => {
+    const reason =
+      getTrustRejectionReason(offer, trustFilters) ??
+      getLimitRejectionReason(offer, targetAmount, pair)
+    if (reason) {
+      rejectedOffers.push({ offer, reason })
+      return false
+    }
+    return true
+  })
+
+  if (eligibleOffers.length === 0) {
+    throw new Error(
+      `No ${
+        hasTrustFilters(trustFilters) ? "trusted " : ""
+      }offers accept an order of ${targetAmount} ${pair.asset} within their limits`
+    )
+  }
+
+  // Rank candidate routes that trade price against the other factors
+  const search: RouteSearch = {
+    bestPrice: eligibleOffers[0].price,
+    maxOffers,
+    minUnit: 10 ** -getAssetDecimals(pair.asset),
+    objective
+  }
+  const [bestRoute, ...otherRoutes] = findCandidateRoutes(
+    eligibleOffers,
     targetAmount,
-    maxOffers
+    search
   )
 
-  if (combinations.length === 0) {
-    throw new Error(`No combination found for ${targetAmount} USDT`)
+  if (!bestRoute) {
+    throw new Error(`No combination found for ${targetAmount} ${pair.asset}`)
   }
 
-  // Sort combinations by efficiency (best first)
-  combinations.sort((a, b) => b.efficiency - a.efficiency)
-
-  const bestRoute = combinations[0]
-  const alternativeRoutes = combinations.slice(1, 4) // Top 3 alternatives
+  const alternativeRoutes = otherRoutes.slice(0, 3) // Top 3 alternatives
 
   // Calculate summary statistics
   const worstPrice = sortedOffers[sortedOffers.length - 1].price
@@ -91,6 +145,8 @@ export function calculateBestTradingRoute(
     targetAmount,
     bestRoute,
     alternativeRoutes,
+    rejectedOffers,
+    objective,
     summary: {
       totalOffers: bestRoute.offers.length,
       averagePrice: bestRoute.averagePrice,
@@ -101,55 +157,165 @@ export function calculateBestTradingRoute(
   }
 }
 
+// Tolerance for floating point drift when comparing asset amounts
+const AMOUNT_EPSILON = 1e-8
+
+// Passes used to size a trade to a fiat budget
+const MAX_BUDGET_ITERATIONS = 8
+const BUDGET_TOLERANCE = 1e-6
+
 /**
- * Finds all possible combinations of offers that can fulfill the target amount
+ * Calculates the route for the largest trade that costs at most `budget`
+ * fiat. Average prices only worsen with size, so each pass sizes the trade
+ * at the budget over the last route's average price, converging from above.
+ * @param findRoute - Calculates the route for an amount of the asset
+ * @param budget - Fiat available, fees included
+ * @param bestPrice - Best price on offer, for the first estimate
+ * @param costFactor - Fiat spent per unit of route cost (e.g., 1.005 for a
+ * 0.5% fee) (default: 1)
+ * @returns TradingCalculatorResult - Route for the sized trade
  */
-function findOfferCombinations(
-  offers: PriceData[],
-  targetAmount: number,
-  maxOffers: number
-): TradingRoute[] {
-  const combinations: TradingRoute[] = []
+export function calculateRouteWithinBudget(
+  findRoute: (amount: number) => TradingCalculatorResult,
+  budget: number,
+  bestPrice: number,
+  costFactor: number = 1
+): TradingCalculatorResult {
+  let amount = budget / costFactor / bestPrice
+  let result = findRoute(amount)
 
-  // Try combinations of 1 to maxOffers offers
-  for (let size = 1; size <= Math.min(maxOffers, offers.length); size++) {
-    const combinationsOfSize = generateCombinations(offers, size)
+  for (let i = 0; i < MAX_BUDGET_ITERATIONS; i++) {
+    const cost = result.bestRoute.totalCost * costFactor
+    if (cost <= budget * (1 + BUDGET_TOLERANCE)) break
 
-    for (const combination of combinationsOfSize) {
-      const route = calculateRouteFromOffers(combination, targetAmount)
-      if (route) {
-        combinations.push(route)
-      }
-    }
+    amount *= budget / cost
+    result = findRoute(amount)
   }
 
-  return combinations
+  return result
 }
 
 /**
- * Generates all combinations of offers of a given size
+ * Explains why an offer cannot take part in any route for the target amount,
+ * or returns null when it can
  */
-function generateCombinations(
+function getLimitRejectionReason(
+  offer: PriceData,
+  targetAmount: number,
+  { asset, fiat }: MarketPair
+): string | null {
+  const { minFiat, minAmount } = offer.limits
+  const minimumOrder = `${formatFiat(minFiat, fiat)} (${formatAssetAmount(
+    minAmount,
+    asset
+  )} ${asset})`
+
+  if (getMaxFill(offer) + AMOUNT_EPSILON < minAmount) {
+    return `Only ${formatAssetAmount(offer.amount, asset)} ${asset} left, below the minimum order of ${minimumOrder}`
+  }
+
+  if (minAmount > targetAmount + AMOUNT_EPSILON) {
+    return `Minimum order of ${minimumOrder} exceeds the requested ${targetAmount} ${asset}`
+  }
+
+  return null
+}
+
+interface RouteSearch {
+  bestPrice: number // best single price among the eligible offers
+  maxOffers: number
+  minUnit: number // smallest amount of the asset a fill is split into
+  objective: RouteObjective
+}
+
+// Completion rates (%) above which the cheapest route is also looked for
+const RELIABLE_COMPLETION_RATES = [90, 95, 98]
+
+/**
+ * Collects candidate routes and ranks them by score, best first. The solver
+ * only minimises cost, so candidates are the cheapest routes under different
+ * constraints: each number of counterparties, from one solver pass over the
+ * whole book, and again over only the advertisers above each completion rate
+ * in RELIABLE_COMPLETION_RATES. Every offer that covers the target on its own
+ * is a candidate too. Ties are broken by cost.
+ */
+function findCandidateRoutes(
   offers: PriceData[],
-  size: number
-): PriceData[][] {
-  if (size === 1) {
-    return offers.map(offer => [offer])
+  targetAmount: number,
+  search: RouteSearch
+): TradingRoute[] {
+  const getRouteKey = (route: TradingRoute) =>
+    route.offers
+      .map(offer =>
+        offers.findIndex(candidate => isSameOffer(candidate, offer))
+      )
+      .sort((a, b) => a - b)
+      .join(",")
+
+  const seenRoutes = new Set<string>()
+  const routes: TradingRoute[] = []
+  const addRoute = (route: TradingRoute | null) => {
+    if (!route) return
+
+    const key = getRouteKey(route)
+    if (seenRoutes.has(key)) return
+
+    seenRoutes.add(key)
+    routes.push(route)
   }
 
-  const combinations: PriceData[][] = []
+  // Turns the solver's choice for each number of offers into exact routes
+  const addSolutions = (candidates: PriceData[]) => {
+    solveOptimalFills(candidates, targetAmount, {
+      maxOffers: search.maxOffers,
+      minUnit: search.minUnit
+    }).forEach(solution => {
+      if (solution) {
+        addRoute(
+          calculateRouteFromOffers(solution.offers, targetAmount, search)
+        )
+      }
+    })
+  }
 
-  for (let i = 0; i <= offers.length - size; i++) {
-    const firstOffer = offers[i]
-    const remainingOffers = offers.slice(i + 1)
-    const subCombinations = generateCombinations(remainingOffers, size - 1)
+  addSolutions(offers)
 
-    for (const subCombination of subCombinations) {
-      combinations.push([firstOffer, ...subCombination])
+  // Single advertisers need no solver to fill the target alone
+  offers.forEach(offer => {
+    if (getMaxFill(offer) + AMOUNT_EPSILON >= targetAmount) {
+      addRoute(calculateRouteFromOffers([offer], targetAmount, search))
     }
-  }
+  })
+
+  // Only re-solve when a stricter rate actually drops more advertisers
+  let previousCount = offers.length
+  RELIABLE_COMPLETION_RATES.forEach(minRate => {
+    const reliableOffers = offers.filter(
+      offer => offer.advertiser.completionRate >= minRate
+    )
+    if (reliableOffers.length === 0 || reliableOffers.length === previousCount)
+      return
+
+    previousCount = reliableOffers.length
+    addSolutions(reliableOffers)
+  })
 
-  return combinations
+  const direction = offers[0].tradeType === "BUY" ? 1 : -1
+  return routes.sort(
+    (a, b) =>
+      b.score.total - a.score.total || direction * (a.totalCost - b.totalCost)
+  )
+}
+
+/**
+ * Checks whether a route leg comes from the given offer (legs override amount)
+ */
+function isSameOffer(offer: PriceData, leg: PriceData): boolean {
+  return (
+    offer.price === leg.price &&
+    offer.advertiser.name === leg.advertiser.name &&
+    offer.limits === leg.limits
+  )
 }
 
 /**
@@ -157,7 +323,8 @@ function generateCombinations(
  */
 function calculateRouteFromOffers(
   offers: PriceData[],
-  targetAmount: number
+  targetAmount: number,
+  search: RouteSearch
 ): TradingRoute | null {
   // Sort offers by price (best first)
   const sortedOffers = [...offers].sort((a, b) => {
@@ -168,31 +335,42 @@ function calculateRouteFromOffers(
     }
   })
 
-  let remainingAmount = targetAmount
-  const usedOffers: PriceData[] = []
-  let totalCost = 0
-
-  // Use offers in order of best price
-  for (const offer of sortedOffers) {
-    if (remainingAmount <= 0) break
+  // Every advertiser in the combination must receive at least their minimum
+  const fills = sortedOffers.map(offer => offer.limits.minAmount)
+  const minimumTotal = fills.reduce((sum, fill) => sum + fill, 0)
 
-    const useAmount = Math.min(remainingAmount, offer.amount)
-    const offerCost = useAmount * offer.price
+  if (minimumTotal > targetAmount + AMOUNT_EPSILON) {
+    return null
+  }
 
-    usedOffers.push({
-      ...offer,
-      amount: useAmount // Override with actual used amount
-    })
+  // Distribute the rest in order of best price, up to each order maximum
+  let remainingAmount = targetAmount - minimumTotal
+  sortedOffers.forEach((offer, index) => {
+    if (remainingAmount <= 0) return
 
-    totalCost += offerCost
-    remainingAmount -= useAmount
-  }
+    const extra = Math.min(remainingAmount, getMaxFill(offer) - fills[index])
+    fills[index] += extra
+    remainingAmount -= extra
+  })
 
   // If we couldn't fulfill the target amount, return null
-  if (remainingAmount > 0) {
+  if (remainingAmount > AMOUNT_EPSILON) {
     return null
   }
 
+  const usedOffers: PriceData[] = []
+  let totalCost = 0
+
+  sortedOffers.forEach((offer, index) => {
+    if (fills[index] <= 0) return
+
+    usedOffers.push({
+      ...offer,
+      amount: fills[index] // Override with actual used amount
+    })
+    totalCost += fills[index] * offer.price
+  })
+
   const averagePrice = totalCost / targetAmount
   const worstPrice = sortedOffers[sortedOffers.length - 1].price
   const optimalPrice = sortedOffers[0].price
@@ -205,7 +383,14 @@ function calculateRouteFromOffers(
     totalCost,
     averagePrice,
     savings,
-    efficiency
+    efficiency,
+    score: scoreRoute(
+      usedOffers,
+      averagePrice,
+      search.bestPrice,
+      search.maxOffers,
+      search.objective
+    )
   }
 }
 
@@ -230,30 +415,21 @@ export function getAvailableBanks(offers: PriceData[]): string[] {
 }
 
 /**
- * Formats a trading route for display
+ * Formats a trading route for display in the given fiat currency
  */
-export function formatTradingRoute(route: TradingRoute): {
+export function formatTradingRoute(
+  route: TradingRoute,
+  fiat: string = DEFAULT_PAIR.fiat
+): {
   totalCost: string
   averagePrice: string
   savings: string
   efficiency: string
 } {
   return {
-    totalCost: new Intl.NumberFormat("es-VE", {
-      style: "currency",
-      currency: "VES",
-      minimumFractionDigits: 2
-    }).format(route.totalCost),
-    averagePrice: new Intl.NumberFormat("es-VE", {
-      style: "currency",
-      currency: "VES",
-      minimumFractionDigits: 2
-    }).format(route.averagePrice),
-    savings: new Intl.NumberFormat("es-VE", {
-      style: "currency",
-      currency: "VES",
-      minimumFractionDigits: 2
-    }).format(route.savings),
+    totalCost: formatFiat(route.totalCost, fiat),
+    averagePrice: formatFiat(route.averagePrice, fiat),
+    savings: formatFiat(route.savings, fiat),
     efficiency: `${route.efficiency.toFixed(1)}%`
   }
 }
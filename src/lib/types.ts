@@ -1,78 +1,20 @@
 import { z } from "zod"
 
-// Zod schemas for validation
-export const BinanceP2PAdSchema = z.object({
-  adv: z.object({
-    advNo: z.string(),
-    classify: z.string(),
-    tradeType: z.string(),
-    asset: z.string(),
-    fiatUnit: z.string(),
-    fiatSymbol: z.string(),
-    price: z.string(),
-    initAmount: z.string(),
-    surplusAmount: z.string(),
-    maxSingleTransAmount: z.string(),
-    minSingleTransAmount: z.string(),
-    buyerKycLimit: z.string(),
-    buyerRegDaysLimit: z.string(),
-    buyerBtcPositionLimit: z.string(),
-    remarks: z.string().optional(),
-    autoReplyMsg: z.string().optional(),
-    payTimeLimit: z.number(),
-    tradeMethods: z.array(
-      z.object({
-        payId: z.string(),
-        payMethodId: z.string(),
-        payType: z.string(),
-        payAccount: z.string().optional(),
-        payBank: z.string().optional(),
-        paySubBank: z.string().optional(),
-        identifier: z.string().optional(),
-        iconUrlColor: z.string().optional()
-      })
-    ),
-    userTradeCount: z.string(),
-    userTradeCountSwitchRate: z.string(),
-    userBuyTradeCount: z.string(),
-    userSellTradeCount: z.string(),
-    userGrade: z.number(),
-    userIdentityIdentifyLevel: z.string(),
-    tags: z.array(z.string()).optional()
-  }),
-  advertiser: z.object({
-    userNo: z.string(),
-    realName: z.string().optional(),
-    nickName: z.string().optional(),
-    margin: z.string(),
-    marginUnit: z.string(),
-    orderCount: z.string(),
-    monthOrderCount: z.string(),
-    monthFinishRate: z.string(),
-    positiveRate: z.string(),
-    advConfirmTime: z.number().optional(),
-    email: z.string().optional(),
-    userType: z.string(),
-    tagIconUrls: z.array(z.string()).optional(),
-    userGrade: z.number(),
-    userIdentityIdentifyLevel: z.string(),
-    userIdentityIdentifyLevelStr: z.string(),
-    isAdd: z.boolean()
-  })
+/**
+ * Search filters the exchange applies itself, so each page holds only
+ * matching ads instead of a page of the whole market filtered down afterwards
+ */
+export const P2PSearchFiltersSchema = z.object({
+  payTypes: z.array(z.string().trim().min(1)).max(20).default([]), // e.g., "Banesco"
+  publisherType: z.enum(["merchant"]).nullable().default(null),
+  transAmount: z.number().positive().optional(), // fiat order size to allow
+  countries: z
+    .array(z.string().regex(/^[A-Z]{2}$/, "Expected an ISO country code"))
+    .max(20)
+    .default([])
 })
 
-export const BinanceP2PResponseSchema = z.object({
-  code: z.string(),
-  message: z.string().optional(),
-  messageDetail: z.string().optional(),
-  data: z.array(BinanceP2PAdSchema),
-  total: z.number(),
-  success: z.boolean()
-})
-
-// TypeScript types inferred from Zod schemas
-export type BinanceP2PAd = z.infer<typeof BinanceP2PAdSchema>
-export type BinanceP2PResponse = z.infer<typeof BinanceP2PResponseSchema>
+export type P2PSearchFilters = z.input<typeof P2PSearchFiltersSchema>
 
 // Additional types for the application
 export interface PaymentMethod {
@@ -82,23 +24,66 @@ export interface PaymentMethod {
   payAccount?: string
 }
 
+/**
+ * Per-order limits set by the advertiser. Binance publishes them in fiat;
+ * the asset values are derived from the ad price and capped by the
+ * remaining (surplus) amount.
+ */
+export interface OrderLimits {
+  minFiat: number
+  maxFiat: number
+  minAmount: number
+  maxAmount: number
+}
+
 export interface PriceData {
+  adId: string // ad id on its exchange
+  source: string // exchange id, e.g., "binance"
   price: number
   amount: number
+  limits: OrderLimits
   paymentMethods: PaymentMethod[]
   advertiser: {
     name: string
     rating: number
     orderCount: number
     completionRate: number
+    userType: string // "merchant" for verified merchants, otherwise "user"
+    monthOrderCount: number // orders in the last 30 days
+    advConfirmTime?: number // average release time in seconds, when published
+    identityLevel?: number // Binance identity verification level
   }
+  payTimeLimit: number // minutes the buyer has to pay before the order expires
+  buyerKycLimit: boolean // counterparty must have completed KYC
+  buyerRegDaysLimit: number // minimum counterparty account age in days
+  tags: string[]
   tradeType: "BUY" | "SELL"
 }
 
-export interface FilterOptions {
+/**
+ * Counterparty requirements; offers that fail any of them are considered
+ * too risky to trade with
+ */
+export interface TrustFilters {
+  minCompletionRate?: number // percent
+  minOrders?: number
+  merchantsOnly?: boolean
+  maxConfirmMinutes?: number // offers without a published release time fail
+}
+
+/**
+ * Offer filters shared by every view of a market
+ */
+export interface OfferFilters extends TrustFilters {
+  paymentMethods?: string[] // offers accepting any of these banks or pay types
+  minAmount?: number // available asset amount
+  maxAmount?: number
+  minFiatAmount?: number // fiat order sizes the offer's limits must allow
+  maxFiatAmount?: number
+}
+
+export interface FilterOptions extends OfferFilters {
   tradeType: "BUY" | "SELL"
   paymentMethod?: string
   bank?: string
-  minAmount?: number
-  maxAmount?: number
 }
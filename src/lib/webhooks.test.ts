@@ -0,0 +1,161 @@
+import { promises as dns } from "dns"
+import { createServer } from "http"
+import { AddressInfo } from "net"
+import { afterEach, describe, expect, it, vi } from "vitest"
+import {
+  getWebhookHostError,
+  isPrivateAddress,
+  sendWebhook,
+  WebhookTargetSchema
+} from "./webhooks"
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+  vi.restoreAllMocks()
+})
+
+const event = {
+  ruleId: "rule-1",
+  value: 40,
+  message: "USDT/VES best buy 40.00 is below 41.00",
+  triggeredAt: "2026-01-01T00:00:00.000Z"
+}
+const context = {
+  asset: "USDT",
+  fiat: "VES",
+  condition: "BUY_BELOW",
+  threshold: 41
+}
+
+describe("isPrivateAddress", () => {
+  it.each([
+    "127.0.0.1",
+    "10.1.2.3",
+    "172.31.255.255",
+    "192.168.0.10",
+    "169.254.169.254",
+    "100.64.0.1",
+    "0.0.0.0",
+    "::1",
+    "fd00::1",
+    "fe80::1",
+    "fe80::1%eth0",
+    "::ffff:127.0.0.1",
+    "::ffff:7f00:1",
+    "::ffff:a9fe:a9fe",
+    "::7f00:1"
+  ])("treats %s as private", address => {
+    expect(isPrivateAddress(address)).toBe(true)
+  })
+
+  it.each([
+    "8.8.8.8",
+    "172.32.0.1",
+    "149.154.167.220",
+    "2001:4860::8888",
+    "::ffff:808:808"
+  ])("treats %s as public", address => {
+    expect(isPrivateAddress(address)).toBe(false)
+  })
+})
+
+describe("webhook hosts", () => {
+  it.each([
+    "http://localhost:4000",
+    "http://127.0.0.1/hook",
+    "http://169.254.169.254/latest/meta-data",
+    "http://[::1]:8080",
+    "http://[::ffff:127.0.0.1]:8080",
+    "http://[::ffff:169.254.169.254]/latest/meta-data",
+    "http://[::127.0.0.1]/hook",
+    "http://[0:0:0:0:0:ffff:7f00:1]/hook",
+    "http://metadata.google.internal"
+  ])("rejects %s", url => {
+    expect(getWebhookHostError(url)).toMatch(/is not a public address/)
+    expect(WebhookTargetSchema.safeParse({ format: "json", url }).success).toBe(
+      false
+    )
+  })
+
+  it("accepts public hosts", () => {
+    expect(
+      WebhookTargetSchema.safeParse({
+        format: "slack",
+        url: "https://hooks.slack.com/services/T000/B000/XXXX"
+      }).success
+    ).toBe(true)
+  })
+
+  it("accepts private hosts listed in P2P_WEBHOOK_ALLOWED_HOSTS", () => {
+    vi.stubEnv("P2P_WEBHOOK_ALLOWED_HOSTS", "localhost")
+
+    expect(getWebhookHostError("http://localhost:4000")).toBeNull()
+    expect(getWebhookHostError("http://127.0.0.1:4000")).not.toBeNull()
+  })
+
+  it("refuses to deliver to a private host without calling it", async () => {
+    const lookup = vi.spyOn(dns, "lookup")
+
+    await expect(
+      sendWebhook(
+        { format: "json", url: "http://10.0.0.5/hook" },
+        event,
+        context
+      )
+    ).rejects.toThrow("Webhook host 10.0.0.5 is not a public address")
+    expect(lookup).not.toHaveBeenCalled()
+  })
+
+  it("refuses a name that resolves to any private address", async () => {
+    vi.spyOn(dns, "lookup").mockResolvedValue([
+      { address: "8.8.8.8", family: 4 },
+      { address: "::ffff:a9fe:a9fe", family: 6 }
+    ] as never)
+
+    await expect(
+      sendWebhook(
+        { format: "json", url: "http://hooks.example.com/hook" },
+        event,
+        context
+      )
+    ).rejects.toThrow(
+      "Webhook host hooks.example.com resolves to a private address"
+    )
+  })
+
+  it("connects to the address it checked instead of resolving again", async () => {
+    const received: { host?: string; body: string }[] = []
+    const server = createServer((request, response) => {
+      let body = ""
+      request.on("data", chunk => (body += chunk))
+      request.on("end", () => {
+        received.push({ host: request.headers.host, body })
+        response.end()
+      })
+    })
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve))
+    const { port } = server.address() as AddressInfo
+
+    // The host only resolves through the checked lookup, so reaching the
+    // server proves the request did not look the name up again
+    vi.stubEnv("P2P_WEBHOOK_ALLOWED_HOSTS", "hooks.example.test")
+    const lookup = vi
+      .spyOn(dns, "lookup")
+      .mockResolvedValue([{ address: "127.0.0.1", family: 4 }] as never)
+
+    try {
+      await sendWebhook(
+        { format: "json", url: `http://hooks.example.test:${port}/hook` },
+        event,
+        context
+      )
+    } finally {
+      server.close()
+    }
+
+    expect(lookup).toHaveBeenCalledTimes(1)
+    expect(received).toHaveLength(1)
+    expect(received[0].host).toBe(`hooks.example.test:${port}`)
+    expect(JSON.parse(received[0].body)).toMatchObject({ ruleId: "rule-1" })
+  })
+})
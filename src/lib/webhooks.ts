@@ -0,0 +1,229 @@
+import { LookupAddress, promises as dns } from "dns"
+import http from "http"
+import https from "https"
+import { BlockList, isIP } from "net"
+import { z } from "zod"
+import { AlertEvent } from "./alerts"
+
+const WEBHOOK_TIMEOUT_MS = 10000
+
+// Addresses that are not the public internet. IPv4: this host, private
+// networks, carrier-grade NAT, loopback, link-local (cloud metadata),
+// multicast and reserved; a BlockList also matches these through their
+// IPv4-mapped IPv6 form (::ffff:7f00:1 is 127.0.0.1). IPv6: the
+// IPv4-compatible block (which holds :: and ::1 and ::7f00:1, i.e.
+// ::127.0.0.1), unique local, link-local and multicast.
+const PRIVATE_ADDRESSES = new BlockList()
+const PRIVATE_IPV4_RANGES: [string, number][] = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+  ["224.0.0.0", 3]
+]
+const PRIVATE_IPV6_RANGES: [string, number][] = [
+  ["::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8]
+]
+for (const [base, bits] of PRIVATE_IPV4_RANGES) {
+  PRIVATE_ADDRESSES.addSubnet(base, bits, "ipv4")
+}
+for (const [base, bits] of PRIVATE_IPV6_RANGES) {
+  PRIVATE_ADDRESSES.addSubnet(base, bits, "ipv6")
+}
+
+/**
+ * Checks whether an IP address is loopback, private, link-local or
+ * otherwise not publicly routable
+ */
+export function isPrivateAddress(address: string): boolean {
+  // Resolved link-local addresses may carry a zone, e.g., fe80::1%eth0
+  const ip = address.replace(/%.*$/, "")
+  const version = isIP(ip)
+  if (version === 0) return false
+
+  return PRIVATE_ADDRESSES.check(ip, version === 4 ? "ipv4" : "ipv6")
+}
+
+/**
+ * Returns the webhook hosts allowed even though they are private, from
+ * P2P_WEBHOOK_ALLOWED_HOSTS (comma-separated, e.g., "localhost" for
+ * scripts/mock-webhook-receiver.mjs)
+ */
+function getAllowedWebhookHosts(): string[] {
+  return (process.env.P2P_WEBHOOK_ALLOWED_HOSTS ?? "")
+    .split(",")
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean)
+}
+
+/**
+ * Explains why a webhook URL points at a host the server must not call,
+ * judging by its name alone, or returns null when it may be called
+ */
+export function getWebhookHostError(url: string): string | null {
+  const hostname = new URL(url).hostname.toLowerCase().replace(/^\[|\]$/g, "")
+  if (getAllowedWebhookHosts().includes(hostname)) return null
+
+  if (
+    hostname === "localhost" ||
+    /\.(localhost|local|internal)$/.test(hostname) ||
+    (isIP(hostname) !== 0 && isPrivateAddress(hostname))
+  ) {
+    return `Webhook host ${hostname} is not a public address`
+  }
+
+  return null
+}
+
+export const WebhookTargetSchema = z
+  .object({
+    format: z.enum(["json", "telegram", "slack"]),
+    // For Telegram: https://api.telegram.org/bot<token>/sendMessage
+    url: z.url({ protocol: /^https?$/ }).superRefine((url, context) => {
+      const error = getWebhookHostError(url)
+      if (error) context.addIssue({ code: "custom", message: error })
+    }),
+    chatId: z.string().min(1).optional()
+  })
+  .refine(target => target.format !== "telegram" || target.chatId, {
+    message: "chatId is required for Telegram webhooks",
+    path: ["chatId"]
+  })
+
+export type WebhookTarget = z.infer<typeof WebhookTargetSchema>
+
+export interface WebhookAlertContext {
+  asset: string
+  fiat: string
+  condition: string
+  threshold: number
+}
+
+/**
+ * Builds the request body of a webhook in its target's format
+ */
+export function buildWebhookBody(
+  target: WebhookTarget,
+  event: AlertEvent,
+  context: WebhookAlertContext
+): Record<string, unknown> {
+  switch (target.format) {
+    case "telegram":
+      return {
+        chat_id: target.chatId,
+        text: `🔔 ${event.message}`,
+        disable_web_page_preview: true
+      }
+    case "slack":
+      return { text: `:bell: ${event.message}` }
+    case "json":
+      return {
+        type: "p2p.alert",
+        ruleId: event.ruleId,
+        asset: context.asset,
+        fiat: context.fiat,
+        condition: context.condition,
+        threshold: context.threshold,
+        value: event.value,
+        message: event.message,
+        triggeredAt: event.triggeredAt
+      }
+  }
+}
+
+/**
+ * Resolves the host of a webhook and rejects it when any of its addresses
+ * is private, so a public name cannot be used to reach the server's own
+ * network. Returns the address to connect to, or null when the host is an
+ * IP literal.
+ * @throws Error when the host is private or does not resolve
+ */
+async function resolveWebhookAddress(
+  url: string
+): Promise<LookupAddress | null> {
+  const nameError = getWebhookHostError(url)
+  if (nameError) throw new Error(nameError)
+
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, "")
+  if (isIP(hostname) !== 0) return null
+
+  const addresses = await dns.lookup(hostname, { all: true })
+  if (
+    !getAllowedWebhookHosts().includes(hostname.toLowerCase()) &&
+    addresses.some(({ address }) => isPrivateAddress(address))
+  ) {
+    throw new Error(`Webhook host ${hostname} resolves to a private address`)
+  }
+
+  return addresses[0]
+}
+
+/**
+ * POSTs a JSON body and resolves with the response status. When given an
+ * address, the connection goes to it instead of resolving the host again,
+ * so the name cannot be re-pointed between the check and the request; the
+ * Host header and TLS server name still come from the URL.
+ */
+function postJson(
+  url: string,
+  body: string,
+  address: LookupAddress | null
+): Promise<number> {
+  const { request } = url.startsWith("https:") ? https : http
+
+  return new Promise((resolve, reject) => {
+    const req = request(
+      url,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Content-Length": Buffer.byteLength(body)
+        },
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+        ...(address && {
+          lookup: (_hostname, options, callback) =>
+            options.all
+              ? callback(null, [address])
+              : callback(null, address.address, address.family)
+        })
+      },
+      response => {
+        response.resume()
+        resolve(response.statusCode ?? 0)
+      }
+    )
+    req.on("error", reject)
+    req.end(body)
+  })
+}
+
+/**
+ * Delivers an alert to a webhook. Private hosts are refused unless allowed
+ * by P2P_WEBHOOK_ALLOWED_HOSTS, the request goes to the address that was
+ * checked, and redirects are not followed, since they could lead anywhere.
+ * @throws Error when the host is not allowed, the receiver is unreachable
+ * or it answers with anything but a 2xx status
+ */
+export async function sendWebhook(
+  target: WebhookTarget,
+  event: AlertEvent,
+  context: WebhookAlertContext
+): Promise<void> {
+  const address = await resolveWebhookAddress(target.url)
+  const status = await postJson(
+    target.url,
+    JSON.stringify(buildWebhookBody(target, event, context)),
+    address
+  )
+
+  if (status < 200 || status >= 300) {
+    throw new Error(`Webhook responded with status: ${status}`)
+  }
+}
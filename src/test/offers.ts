@@ -0,0 +1,52 @@
+import { PaymentMethod, PriceData } from "@/lib/types"
+
+export interface OfferOptions {
+  tradeType?: "BUY" | "SELL"
+  name?: string // advertiser nickname
+  minAmount?: number // minimum order, in the asset
+  completionRate?: number
+  paymentMethods?: PaymentMethod[]
+}
+
+/**
+ * Builds an offer for tests. Order limits span `minAmount` to the whole
+ * `amount`, with the fiat limits derived at `price`.
+ */
+export function makeOffer(
+  price: number,
+  amount: number,
+  {
+    tradeType = "BUY",
+    name = `advertiser-${price}`,
+    minAmount = 0,
+    completionRate = 99,
+    paymentMethods = [{ payType: "BANK", payBank: "Banesco" }]
+  }: OfferOptions = {}
+): PriceData {
+  return {
+    adId: `${name}-${price}-${amount}`,
+    source: "binance",
+    price,
+    amount,
+    limits: {
+      minFiat: minAmount * price,
+      maxFiat: amount * price,
+      minAmount,
+      maxAmount: amount
+    },
+    paymentMethods,
+    advertiser: {
+      name,
+      rating: 5,
+      orderCount: 500,
+      completionRate,
+      userType: "user",
+      monthOrderCount: 100
+    },
+    payTimeLimit: 15,
+    buyerKycLimit: false,
+    buyerRegDaysLimit: 0,
+    tags: [],
+    tradeType
+  }
+}
@@ -0,0 +1,21 @@
+import { ExchangeQuery } from "@/lib/exchange-adapters"
+import { P2PSearchFilters, P2PSearchFiltersSchema } from "@/lib/types"
+
+/**
+ * Builds an adapter query for tests: the first page of USDT/VES offers to
+ * buy, with no filters unless given
+ */
+export function makeQuery(
+  overrides: Partial<Omit<ExchangeQuery, "filters">> = {},
+  filters: P2PSearchFilters = {}
+): ExchangeQuery {
+  return {
+    asset: "USDT",
+    fiat: "VES",
+    tradeType: "BUY",
+    page: 1,
+    rows: 20,
+    filters: P2PSearchFiltersSchema.parse(filters),
+    ...overrides
+  }
+}
@@ -0,0 +1,19 @@
+import { fileURLToPath } from "url"
+import { defineConfig } from "vitest/config"
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": fileURLToPath(new URL("./src", import.meta.url)) }
+  },
+  test: {
+    environment: "node",
+    include: ["src/**/*.test.ts"],
+    // Tests never reach the exchanges or write history
+    env: {
+      P2P_CACHE_TTL_MS: "0",
+      P2P_CACHE_STALE_MS: "0",
+      P2P_HISTORY_DISABLED: "1",
+      P2P_EXCHANGE_TIMEOUT_MS: "50"
+    }
+  }
+})